@@ -0,0 +1,93 @@
+/* eslint-disable no-restricted-globals */
+// Service worker for offline use.
+// - The app shell (build assets from asset-manifest.json, index.html, web
+//   manifest and the card data JSON) is precached on install.
+// - Audio and images are only served from the media cache when the user has
+//   downloaded them for offline use (see src/utils/offlineMedia.ts, which
+//   writes to the same MEDIA_CACHE name).
+
+const SHELL_CACHE = 'bird-shell-v1';
+const MEDIA_CACHE = 'bird-media-v1';
+const DATA_URLS = ['/data/bird_mapping.json', '/audio/manifest.json'];
+const SHELL_URLS = ['/', '/index.html', '/manifest.json', '/favicon.ico', '/logo192.png', '/logo512.png', ...DATA_URLS];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(SHELL_URLS);
+    // Hashed JS/CSS bundles are listed in the CRA asset manifest
+    try {
+      const response = await fetch('/asset-manifest.json', { cache: 'no-store' });
+      const assetManifest = await response.json();
+      const files = Object.values(assetManifest.files || {}).filter((url) => !url.endsWith('.map'));
+      await cache.addAll(files);
+    } catch (error) {
+      console.warn('[service-worker] Could not precache build assets:', error);
+    }
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keep = [SHELL_CACHE, MEDIA_CACHE];
+    const names = await caches.keys();
+    await Promise.all(names.filter((name) => !keep.includes(name)).map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Network first, falling back to (and refreshing) the shell cache
+const networkFirst = async (request, fallbackUrl) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(fallbackUrl || request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(fallbackUrl || request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Media elements request byte ranges; answer them from a cached full response
+const toRangeResponse = async (request, response) => {
+  const range = /bytes=(\d*)-(\d*)/.exec(request.headers.get('range') || '');
+  if (!range) return response;
+  const buffer = await response.arrayBuffer();
+  const start = Number(range[1]) || 0;
+  const end = range[2] ? Math.min(Number(range[2]), buffer.byteLength - 1) : buffer.byteLength - 1;
+  return new Response(buffer.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Content-Type': response.headers.get('Content-Type') || 'application/octet-stream',
+      'Content-Range': `bytes ${start}-${end}/${buffer.byteLength}`,
+      'Content-Length': String(end - start + 1),
+    },
+  });
+};
+
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request, { cacheName, ignoreVary: true });
+  return cached ? toRangeResponse(request, cached) : fetch(request);
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    // Single page app: every route is served by index.html
+    event.respondWith(networkFirst(request, '/index.html'));
+  } else if (DATA_URLS.includes(url.pathname)) {
+    event.respondWith(networkFirst(request));
+  } else if (url.pathname.startsWith('/static/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else if (url.pathname.startsWith('/audio/') || url.pathname.startsWith('/bird_images/')) {
+    // Media is never cached implicitly; only what the user downloaded is served offline
+    event.respondWith(cacheFirst(request, MEDIA_CACHE));
+  }
+});
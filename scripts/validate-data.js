@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+/**
+ * Checks public/audio/manifest.json and public/data/bird_mapping.json (and
+ * the audio and image files they point to) with the same rules the app uses.
+ * Runs before every build; errors fail it, warnings are only printed.
+ *
+ * Usage: node scripts/validate-data.js [--strict]   (--strict fails on warnings too)
+ */
+const fs = require("fs");
+const path = require("path");
+const ts = require("typescript");
+
+// Load the app's TypeScript validation module directly, so the rules only live in one place
+require.extensions[".ts"] = (module, filename) => {
+    const source = fs.readFileSync(filename, "utf8");
+    const { outputText } = ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, esModuleInterop: true },
+        fileName: filename,
+    });
+    module._compile(outputText, filename);
+};
+const { validateBirdData, countIssues } = require("../src/utils/dataValidation.ts");
+
+const PUBLIC_DIR = path.join(__dirname, "..", "public");
+const AUDIO_DIR = path.join(PUBLIC_DIR, "audio");
+const IMAGE_DIR = path.join(PUBLIC_DIR, "bird_images");
+const MANIFEST_PATH = path.join(AUDIO_DIR, "manifest.json");
+const MAPPING_PATH = path.join(PUBLIC_DIR, "data", "bird_mapping.json");
+
+const readJson = (file) => {
+    try {
+        return JSON.parse(fs.readFileSync(file, "utf8"));
+    } catch (err) {
+        console.error(`✖ Could not read ${path.relative(process.cwd(), file)}: ${err.message}`);
+        process.exit(1);
+    }
+};
+
+const listFiles = (dir) => (fs.existsSync(dir) ? new Set(fs.readdirSync(dir)) : new Set());
+
+const mapping = readJson(MAPPING_PATH);
+const report = validateBirdData(readJson(MANIFEST_PATH), mapping, {
+    audio: listFiles(AUDIO_DIR),
+    images: listFiles(IMAGE_DIR),
+});
+const counts = countIssues(report.issues);
+
+report.issues
+    .filter((issue) => issue.severity === "error")
+    .forEach((issue) => console.error(`✖ error    ${issue.message}`));
+report.issues
+    .filter((issue) => issue.severity === "warning")
+    .forEach((issue) => console.warn(`⚠ warning  ${issue.message}`));
+
+const cardCount = Object.keys(mapping).length - report.skippedCards.length;
+console.log(`Bird data: ${cardCount} cards, ${counts.error} errors, ${counts.warning} warnings.`);
+
+if (counts.error > 0 || (process.argv.includes("--strict") && counts.warning > 0)) {
+    process.exit(1);
+}
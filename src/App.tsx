@@ -1,117 +1,221 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { ChevronLeft, ChevronRight, Bird, List, Shuffle, Filter, ArrowLeft } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Bird, List, Shuffle, Filter, ArrowLeft, HelpCircle, Keyboard, HardDrive, CloudOff, Command, BarChart3, Ear, AlertTriangle, X, Package, Mic, GraduationCap, ArrowLeftRight, Wind, Flag } from 'lucide-react';
 // Removed App.css import if Tailwind handles all base styles via index.css or similar
 // import './App.css';
-import { AUDIO_DIR, IMAGE_DIR, MANIFEST_URL, MAPPING_URL } from './config';
-import { BirdData, Card, FilterMode } from './types';
-import { shuffleArray } from './utils/arrayUtils';
+import { AnswerMode, Assignment, Card, CardDirection, Clip, ConfusionGroup, Deck, FacetFilters, FilterMode, ImportedResult, KeyBindings, Profile, RecordingType, ReviewGrade, StudyEvent, StudyEventType, StudySession, TypedAnswerResult, ViewMode } from './types';
+import { isDueToday, isScheduleLearned, setLearned } from './utils/scheduler';
+import { getCardNotes, gradeCard } from './utils/cardUtils';
+import {
+  buildDirectionChoices,
+  canStudyInDirection,
+  CARD_DIRECTION_LABELS,
+  CARD_DIRECTIONS,
+  DEFAULT_CARD_DIRECTION,
+  DirectionChoice,
+  getDirectionSchedule,
+  gradeCardInDirection,
+  hasChoiceAnswers,
+  hasSoundPrompt,
+  loadCardDirection,
+  saveCardDirection,
+  setDirectionSchedule,
+  toDirectionView,
+} from './utils/directionUtils';
+import { pickClip, pickRecording } from './utils/recordingUtils';
+import { gradeTypedAnswer } from './utils/nameMatching';
+import { loadStoredDecks, loadStoredStatuses, saveStoredDecks, saveStoredStatuses, StoredStatuses } from './utils/storageUtils';
+import { AppRoute, DEFAULT_ROUTE, FILTER_MODES, formatRoute, isNewHistoryEntry, parseRoute } from './utils/routing';
+import { createStudySession, loadStudySession, orderSessionCards, recordSessionResult, saveStudySession, updateSessionPosition } from './utils/studySession';
+import { createSeed } from './utils/random';
+import { applyImportedDecks, applyImportedHistory, applyImportedStatuses, ImportMode } from './utils/progressBackup';
+import { appendStudyEvents, createStudyEvent, loadHistory, saveHistory } from './utils/historyStore';
+import { createDeck, getDeckCards, getDeckStats } from './utils/deckUtils';
+import { detectConfusionGroups, DrillQuestion, getGradedClips, getMixedUpCardId, loadConfusionGroups, saveConfusionGroups } from './utils/confusionUtils';
+import { applyFacetFilters, EMPTY_FACETS, hasActiveFacets } from './utils/facetUtils';
+import { buildSeasonalQueue, saveSeasonalRegion, SeasonalPreset } from './utils/seasonalUtils';
+import { getActiveProfileId, switchActiveProfile } from './utils/profileScope';
+import { loadProfiles, saveProfiles } from './utils/profileStore';
+import { createAssignment, loadAssignments, loadImportedResults, mergeResults, parseAssignmentLink, saveAssignments, saveImportedResults } from './utils/assignmentUtils';
+import { getCachedMediaKeys, toOfflineCard } from './utils/offlineMedia';
+import { formatBinding, loadKeyBindings, saveKeyBindings } from './utils/keyBindings';
+import { CardSource, isScopedId, loadCardSource, LoadedSource, toSourceDeck } from './sources/cardSource';
+import { createStaticSource } from './sources/staticSource';
+import { createBundleSource } from './sources/bundleSource';
+import { loadBundles } from './sources/bundleStore';
+import { attachPersonalRecordings, createPersonalSource, PERSONAL_SOURCE_ID } from './sources/personalSource';
+import { deletePersonalRecording, deletePersonalSpecies, loadPersonalLibrary } from './sources/personalStore';
+import { createRestSource, getConfiguredRestSources, loadRestSources, RestSourceConfig, saveRestSources } from './sources/restSource';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { usePlaybackControls } from './hooks/usePlaybackControls';
 import Flashcard from './components/Flashcard';
 import AllCardsView from './components/AllCardsView';
+import QuizView from './components/QuizView';
+import DeckPicker from './components/DeckPicker';
+import FacetFilterBar from './components/FacetFilterBar';
+import SeasonalPresetControl from './components/SeasonalPresetControl';
+import ProgressTransferDialog from './components/ProgressTransferDialog';
+import OfflinePanel from './components/OfflinePanel';
+import KeyboardShortcutsDialog from './components/KeyboardShortcutsDialog';
+import StatsView from './components/StatsView';
+import DrillView from './components/DrillView';
+import FieldView from './components/FieldView';
+import DataReportView from './components/DataReportView';
+import SourcesDialog from './components/SourcesDialog';
+import AddRecordingDialog from './components/AddRecordingDialog';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import ProfilesDialog from './components/ProfilesDialog';
+import NotesDialog from './components/NotesDialog';
+import SessionSummaryDialog from './components/SessionSummaryDialog';
+import ClassroomView from './components/ClassroomView';
+import AssignmentView from './components/AssignmentView';
+import PlaybackControls from './components/PlaybackControls';
 
-// Key for localStorage
-const LOCAL_STORAGE_KEY = 'birdFlashcardStatus';
-
-// Type for stored status
-type StoredCardStatus = { learned: boolean; starred: boolean };
-type StoredStatuses = Record<string, StoredCardStatus>;
+// Labels for the filter pills
+const FILTER_LABELS: Record<FilterMode, string> = {
+  all: 'All',
+  due: 'Due today',
+  unlearned: 'Unlearned',
+  learned: 'Learned',
+  starred: 'Starred',
+};
 
 /**
  * Main Application Component
  */
 function App() {
   // --- State ---
+  // Card order, position and tallies of the current study session; resumed after a reload
+  const [studySession, setStudySession] = useState<StudySession>(() => loadStudySession() ?? createStudySession('all', loadStoredDecks().activeDeckId));
+  const [isSessionSummaryOpen, setIsSessionSummaryOpen] = useState<boolean>(false);
+  // The address the app was opened at, e.g. /card/<id> or /all?q=thrush; a bare "/" resumes the session
+  const [initialRoute] = useState<AppRoute>(() => (
+    window.location.pathname === '/'
+      ? { ...DEFAULT_ROUTE, filter: studySession.filter, deckId: studySession.deckId, cardId: studySession.currentCardId }
+      : parseRoute(window.location.pathname, window.location.search)
+  ));
   const [cards, setCards] = useState<Card[]>([]);
   const [currentFilteredIndex, setCurrentFilteredIndex] = useState<number>(0);
   const [isFlipped, setIsFlipped] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<'study' | 'viewAll'>('study');
-  const [filterMode, setFilterMode] = useState<FilterMode>('all');
-  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [viewMode, setViewMode] = useState<ViewMode>(initialRoute.view);
+  const [filterMode, setFilterMode] = useState<FilterMode>(initialRoute.filter);
+  const [facets, setFacets] = useState<FacetFilters>(EMPTY_FACETS);
+  const [answerMode, setAnswerMode] = useState<AnswerMode>('reveal');
+  const [typedAnswer, setTypedAnswer] = useState<TypedAnswerResult | null>(null);
+  const [cardDirection, setCardDirection] = useState<CardDirection>(loadCardDirection);
+  const [directionChoices, setDirectionChoices] = useState<DirectionChoice[]>([]); // Answers offered on a reverse card
+  const [chosenAnswer, setChosenAnswer] = useState<DirectionChoice | null>(null);
+  const [currentRecordingId, setCurrentRecordingId] = useState<string | null>(null);
+  const [currentClip, setCurrentClip] = useState<Clip | null>(null); // Curated excerpt to play, if the recording has any
+  const [decks, setDecks] = useState<Deck[]>(() => loadStoredDecks().decks);
+  const [activeDeckId, setActiveDeckId] = useState<string | null>(initialRoute.deckId);
+  const [allCardsQuery, setAllCardsQuery] = useState<string>(initialRoute.query); // Search in the all cards view
+  const [pendingCardId, setPendingCardId] = useState<string | null>(initialRoute.cardId); // Card to show once the cards are ready
+  const [isTransferOpen, setIsTransferOpen] = useState<boolean>(false);
+  const [isOfflinePanelOpen, setIsOfflinePanelOpen] = useState<boolean>(false);
+  const [cachedMediaKeys, setCachedMediaKeys] = useState<Set<string>>(new Set());
+  const [keyBindings, setKeyBindings] = useState<KeyBindings>(loadKeyBindings);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState<boolean>(false);
+  const [history, setHistory] = useState<StudyEvent[]>(loadHistory);
+  const [confusionGroups, setConfusionGroups] = useState<ConfusionGroup[]>(loadConfusionGroups);
+  const [loadedSources, setLoadedSources] = useState<LoadedSource[]>([]); // Cards and validation reports per card source
+  const [restSources, setRestSources] = useState<RestSourceConfig[]>(loadRestSources);
+  const [sourcesVersion, setSourcesVersion] = useState<number>(0); // Bumped when stored bundles or personal recordings change
+  const [isSourcesOpen, setIsSourcesOpen] = useState<boolean>(false);
+  const [isAddRecordingOpen, setIsAddRecordingOpen] = useState<boolean>(false);
+  const [seasonalPreset, setSeasonalPreset] = useState<SeasonalPreset | null>(null); // "What's singing now" queue
+  const [profiles, setProfiles] = useState<Profile[]>(loadProfiles);
+  const [isProfilesOpen, setIsProfilesOpen] = useState<boolean>(false);
+  const [notesCardId, setNotesCardId] = useState<string | null>(null); // Card whose notes are being edited
+  const [assignments, setAssignments] = useState<Assignment[]>(loadAssignments); // Created by this profile as a teacher
+  const [importedResults, setImportedResults] = useState<ImportedResult[]>(loadImportedResults);
+  const [assignmentDraftIds, setAssignmentDraftIds] = useState<string[]>([]); // Cards picked for the next assignment
+  const [activeAssignment, setActiveAssignment] = useState<Assignment | null>(null); // Being taken as a student
+  const [isSkippedWarningDismissed, setIsSkippedWarningDismissed] = useState<boolean>(false);
+  const isOnline = useOnlineStatus();
+  // All saved state below is read from and written to this profile's storage
+  const activeProfileId = useMemo(getActiveProfileId, []);
 
   // --- Refs ---
   const audioRef = useRef<HTMLAudioElement>(null);
+  // Last recording played per species, so the next visit plays a different one
+  const lastRecordingByCardRef = useRef<Record<string, string>>({});
+  // Last clip played per recording, likewise
+  const lastClipByRecordingRef = useRef<Record<string, Clip | null>>({});
+  // Saved progress for cards of sources that aren't loaded (removed or unreachable), kept when saving
+  const retainedStatusesRef = useRef<StoredStatuses>({});
 
   // --- Data Fetching & Initial State Loading ---
+  // Reloads when card sources are added or removed
   useEffect(() => {
+    let cancelled = false;
+    const sources: CardSource[] = [];
     const fetchAndInitialize = async () => {
       setIsLoading(true);
       setError(null);
       try {
-        // Fetch card manifest and mapping
-        const [manifestResponse, mappingResponse] = await Promise.all([
-          fetch(MANIFEST_URL),
-          fetch(MAPPING_URL)
-        ]);
-        if (!manifestResponse.ok) throw new Error(`Manifest fetch error! status: ${manifestResponse.status}`);
-        if (!mappingResponse.ok) throw new Error(`Mapping fetch error! status: ${mappingResponse.status}`);
-
-        const audioFilenames = await manifestResponse.json();
-        const birdMapping: Record<string, BirdData> = await mappingResponse.json();
-        // ... (validation for manifest/mapping) ...
-
         // --- Load saved statuses from localStorage ---
-        let savedStatuses: StoredStatuses = {};
-        try {
-            const savedData = localStorage.getItem(LOCAL_STORAGE_KEY);
-            if (savedData) {
-                savedStatuses = JSON.parse(savedData);
-                // Basic validation if needed
-                if (typeof savedStatuses !== 'object' || savedStatuses === null) {
-                    console.warn("Invalid data found in localStorage, resetting.");
-                    savedStatuses = {};
-                }
-                console.log(`Loaded statuses for ${Object.keys(savedStatuses).length} cards from localStorage.`);
-            }
-        } catch (storageError) {
-            console.error("Error reading from localStorage:", storageError);
-            // Continue without saved data
-        }
+        const savedStatuses = loadStoredStatuses();
+        const now = new Date();
+
+        // The built-in data, then stored bundles, then REST endpoints (build-time ones first), then the user's own species
+        const bundles = await loadBundles().catch(err => {
+          console.error("Error reading stored bundles:", err);
+          return [];
+        });
+        const personalLibrary = await loadPersonalLibrary().catch(err => {
+          console.error("Error reading personal recordings:", err);
+          return { recordings: [], species: [] };
+        });
+        const restConfigs = [...getConfiguredRestSources(), ...restSources]
+          .filter((config, i, all) => all.findIndex(other => other.id === config.id) === i);
+        const personalSource = createPersonalSource(personalLibrary);
+        sources.push(createStaticSource(), ...bundles.map(createBundleSource), ...restConfigs.map(createRestSource), personalSource);
+
+        // Each source is validated on its own; unusable species are skipped and listed for the user
+        const results = await Promise.all(sources.map(source => loadCardSource(source, savedStatuses, now)));
+        if (cancelled) return;
+        const builtIn = results[0];
+        if (builtIn.error) throw new Error(builtIn.error);
+        setLoadedSources(results);
 
-        // Create initial card objects and apply saved statuses
-        const initialCardsWithNulls: (Card | null)[] = audioFilenames
-          .map((audioFilename: string) => {
-            const mappingData = birdMapping[audioFilename];
-            if (!mappingData) return null;
-
-            const savedStatus = savedStatuses[audioFilename]; // Get status by ID (filename)
-
-            return {
-              id: audioFilename,
-              audioFilename: audioFilename,
-              displayName: mappingData.displayName || 'Unknown Bird',
-              imgSrc: mappingData.image ? `${IMAGE_DIR}${mappingData.image}` : null,
-              // Apply saved status or default to false
-              learned: savedStatus?.learned ?? false,
-              starred: savedStatus?.starred ?? false,
-            };
-          });
-        const initialCards: Card[] = initialCardsWithNulls.filter((card: Card | null): card is Card => card !== null);
-
-        console.log(`Successfully created ${initialCards.length} cards, applied saved statuses.`);
-
-        // --- Auto-shuffle the initial deck ---
-        const shuffledCards = shuffleArray(initialCards);
-        console.log("Initial deck auto-shuffled.");
-
-        setCards(shuffledCards); // Set the final initial cards state
+        // Keep progress for cards whose bundle or endpoint isn't loaded right now
+        const loadedIds = new Set(results.flatMap(result => result.cards.map(card => card.id)));
+        retainedStatusesRef.current = Object.fromEntries(
+          Object.entries(savedStatuses).filter(([id]) => isScopedId(id) && !loadedIds.has(id))
+        );
+
+        // Personal recordings of species from any source join that species' card
+        const initialCards = attachPersonalRecordings(
+          results.flatMap(result => result.cards),
+          personalLibrary.recordings,
+          personalSource.audioUrl
+        );
+        console.log(`Successfully created ${initialCards.length} cards from ${results.length} sources, applied saved statuses.`);
+
+        // The study order comes from the session seed (see sessionCards below)
+        setCards(initialCards); // Set the final initial cards state
         setCurrentFilteredIndex(0);
         setIsFlipped(false);
 
       } catch (err) {
-          // ... (existing error handling) ...
+          if (cancelled) return;
           console.error("Error fetching or processing data:", err);
           setError(err instanceof Error ? err.message : "An unknown error occurred");
           setCards([]);
       } finally {
-        setIsLoading(false);
+        if (!cancelled) setIsLoading(false);
       }
     };
 
     fetchAndInitialize();
-    // This effect should only run once on mount
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+    return () => {
+      cancelled = true;
+      sources.forEach(source => source.dispose?.());
+    };
+  }, [restSources, sourcesVersion]);
 
   // --- Save Statuses to localStorage on Change ---
   useEffect(() => {
@@ -120,38 +224,151 @@ function App() {
       return;
     }
 
-    try {
-      // Create a map of ID -> {learned, starred}
-      const statusesToSave = cards.reduce<StoredStatuses>((acc, card: Card) => {
-        acc[card.id] = { learned: card.learned, starred: card.starred };
-        return acc;
-      }, {});
+    saveStoredStatuses(cards, retainedStatusesRef.current);
+    // Run this effect whenever the cards array changes (including learned/starred/schedule status)
+  }, [cards, isLoading]);
+
+  // --- Offline Media ---
+  const refreshCachedMedia = useCallback(() => {
+    getCachedMediaKeys()
+      .then(setCachedMediaKeys)
+      .catch(err => console.warn("Could not read offline media cache:", err));
+  }, []);
 
-      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(statusesToSave));
-      console.log(`Saved statuses for ${Object.keys(statusesToSave).length} cards to localStorage.`);
+  useEffect(() => {
+    refreshCachedMedia();
+  }, [refreshCachedMedia]);
 
-    } catch (storageError) {
-      console.error("Error saving to localStorage:", storageError);
-      // Handle potential errors (e.g., storage full)
-    }
-    // Run this effect whenever the cards array changes (including learned/starred status)
-  }, [cards, isLoading]);
+  // --- Save Decks to localStorage on Change ---
+  useEffect(() => {
+    saveStoredDecks({ decks, activeDeckId });
+  }, [decks, activeDeckId]);
+
+  // --- Save Key Bindings to localStorage on Change ---
+  useEffect(() => {
+    saveKeyBindings(keyBindings);
+  }, [keyBindings]);
+
+  // --- Save the Study Session to localStorage on Change ---
+  useEffect(() => {
+    saveStudySession(studySession);
+  }, [studySession]);
+
+  // --- Save Card Direction to localStorage on Change ---
+  useEffect(() => {
+    saveCardDirection(cardDirection);
+  }, [cardDirection]);
+
+  // --- Save REST Card Sources to localStorage on Change ---
+  useEffect(() => {
+    saveRestSources(restSources);
+  }, [restSources]);
+
+  // --- Save Study History to localStorage on Change ---
+  useEffect(() => {
+    saveHistory(history);
+  }, [history]);
+
+  // --- Save Confusion Groups to localStorage on Change ---
+  useEffect(() => {
+    saveConfusionGroups(confusionGroups);
+  }, [confusionGroups]);
+
+  // --- Save Classroom Assignments and Results to localStorage on Change ---
+  useEffect(() => {
+    saveAssignments(assignments);
+  }, [assignments]);
+
+  useEffect(() => {
+    saveImportedResults(importedResults);
+  }, [importedResults]);
+
+  // --- Open an assignment shared as a link ---
+  useEffect(() => {
+    const assignment = parseAssignmentLink(window.location.hash);
+    if (!assignment) return;
+    console.log(`Opening assignment "${assignment.title}" from the link.`);
+    setActiveAssignment(assignment);
+    setViewMode('assignment');
+    // Drop the assignment from the address so a reload doesn't restart it
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+  }, []);
 
   // --- Derived State (Memoized) ---
-  const filteredCards = useMemo(() => {
+  // Each loaded bundle or endpoint is offered as a deck of its own; "My recordings" holds every card with a personal recording
+  const sourceDecks = useMemo(() => {
+    const external = loadedSources.filter(source => source.kind !== 'static' && source.kind !== 'personal' && source.cards.length > 0).map(toSourceDeck);
+    const personalCardIds = cards.filter(card => card.recordings.some(recording => recording.isPersonal)).map(card => card.id);
+    if (personalCardIds.length === 0) return external;
+    return [...external, { id: `source:${PERSONAL_SOURCE_ID}`, name: 'My recordings', cardIds: personalCardIds, createdAt: new Date(0).toISOString() }];
+  }, [loadedSources, cards]);
+  const pickableDecks = useMemo(() => [...decks, ...sourceDecks], [decks, sourceDecks]);
+  const activeDeck = useMemo(() => pickableDecks.find(deck => deck.id === activeDeckId), [pickableDecks, activeDeckId]);
+
+  // Species skipped by validation and sources that failed to load, for the warning banner
+  const skippedCards = useMemo(
+    () => loadedSources.flatMap(source => (source.report?.skippedCards ?? []).map(card => ({ ...card, sourceName: source.name }))),
+    [loadedSources]
+  );
+  const failedSources = useMemo(() => loadedSources.filter(source => source.error), [loadedSources]);
+
+  // The session's seeded shuffle, the same after every reload
+  const sessionCards = useMemo(() => orderSessionCards(cards, studySession.seed), [cards, studySession.seed]);
+
+  // While offline, only cards with downloaded audio can be studied (limited to their cached recordings)
+  const availableCards = useMemo(() => {
+    if (isOnline) return sessionCards;
+    return sessionCards
+      .map(card => toOfflineCard(card, cachedMediaKeys))
+      .filter((card): card is Card => card !== null);
+  }, [sessionCards, isOnline, cachedMediaKeys]);
+
+  // Cards as studied in the chosen direction: its own schedule, and only cards with a photo for the photo directions
+  const directionCards = useMemo(() => {
+    const now = new Date();
+    return availableCards
+      .filter(card => canStudyInDirection(card, cardDirection))
+      .map(card => toDirectionView(card, cardDirection, now));
+  }, [availableCards, cardDirection]);
+
+  // Cards in the active deck (all cards when no deck is selected)
+  const deckCards = useMemo(() => getDeckCards(directionCards, activeDeck), [directionCards, activeDeck]);
+
+  const deckStats = useMemo(() => getDeckStats(deckCards), [deckCards]);
+
+  // Pairs the learner keeps mixing up, offered as drill groups
+  const detectedGroups = useMemo(() => detectConfusionGroups(history, cards, confusionGroups), [history, cards, confusionGroups]);
+
+  // Metadata facets narrow the deck first; the learned/starred filter mode applies on top
+  const facetedCards = useMemo(() => applyFacetFilters(deckCards, facets), [deckCards, facets]);
+
+  const modeFilteredCards = useMemo(() => {
     console.log(`Filtering cards with mode: ${filterMode}`);
     switch (filterMode) {
+      case 'due': {
+        // Study queue: everything due today, most overdue first
+        const now = new Date();
+        return facetedCards
+          .filter(card => isDueToday(card.schedule, now))
+          .sort((a, b) => Date.parse(a.schedule.due) - Date.parse(b.schedule.due));
+      }
       case 'learned':
-        return cards.filter(card => card.learned);
+        return facetedCards.filter(card => card.learned);
       case 'unlearned':
-        return cards.filter(card => !card.learned);
+        return facetedCards.filter(card => !card.learned);
       case 'starred':
-        return cards.filter(card => card.starred);
+        return facetedCards.filter(card => card.starred);
       case 'all':
       default:
-        return cards;
+        return facetedCards;
     }
-  }, [cards, filterMode]);
+  }, [facetedCards, filterMode]);
+
+  // The "what's singing now" preset keeps only birds around this month in the chosen region, unfamiliar ones first
+  const filteredCards = useMemo(
+    () => (seasonalPreset ? buildSeasonalQueue(modeFilteredCards, seasonalPreset.region, new Date(), seasonalPreset.seed) : modeFilteredCards),
+    [modeFilteredCards, seasonalPreset]
+  );
 
   const currentCard = useMemo(() => {
     if (!filteredCards || filteredCards.length === 0 || currentFilteredIndex >= filteredCards.length) {
@@ -163,6 +380,75 @@ function App() {
     return card;
   }, [filteredCards, currentFilteredIndex]);
 
+  // Keep the index in range when the filtered list shrinks (e.g. a graded card leaves the due queue)
+  useEffect(() => {
+    if (filteredCards.length > 0 && currentFilteredIndex >= filteredCards.length) {
+      setCurrentFilteredIndex(0);
+    }
+  }, [filteredCards.length, currentFilteredIndex]);
+
+  // --- Address (URL) ---
+  // Show the card named by the address (/card/<id>) once it is in the study list
+  useEffect(() => {
+    if (!pendingCardId || isLoading) return;
+    const index = filteredCards.findIndex(card => card.id === pendingCardId);
+    if (index >= 0) {
+      setCurrentFilteredIndex(index);
+    } else {
+      console.warn(`Card ${pendingCardId} from the address is not in the current study list.`);
+    }
+    setPendingCardId(null);
+  }, [pendingCardId, filteredCards, isLoading]);
+
+  // Keep the address in step with the view, filter, deck, card and search
+  const hasSyncedAddressRef = useRef(false);
+  useEffect(() => {
+    if (isLoading || pendingCardId) return;
+    const route: AppRoute = {
+      view: viewMode,
+      filter: filterMode,
+      deckId: activeDeck?.id ?? null,
+      cardId: currentCard?.id ?? null,
+      query: allCardsQuery,
+    };
+    const address = formatRoute(route);
+    if (address && address !== `${window.location.pathname}${window.location.search}`) {
+      const previous = parseRoute(window.location.pathname, window.location.search);
+      // The first update only fills in the address the app was opened at
+      if (hasSyncedAddressRef.current && isNewHistoryEntry(previous, route)) {
+        window.history.pushState(null, '', address);
+      } else {
+        window.history.replaceState(null, '', address);
+      }
+    }
+    hasSyncedAddressRef.current = true;
+  }, [isLoading, pendingCardId, viewMode, filterMode, activeDeck, currentCard, allCardsQuery]);
+
+  // The session remembers where the learner is and which cards they have seen
+  const positionCardId = currentCard?.id ?? null;
+  const positionDeckId = activeDeck?.id ?? null;
+  useEffect(() => {
+    if (isLoading || pendingCardId || viewMode !== 'study') return;
+    setStudySession(prev => updateSessionPosition(prev, filterMode, positionDeckId, positionCardId));
+  }, [isLoading, pendingCardId, viewMode, filterMode, positionDeckId, positionCardId]);
+
+  // Back and forward restore the state from the address
+  useEffect(() => {
+    const handlePopState = () => {
+      const route = parseRoute(window.location.pathname, window.location.search);
+      console.log(`Navigated to ${window.location.pathname}${window.location.search}`);
+      setViewMode(route.view);
+      setFilterMode(route.filter);
+      setActiveDeckId(route.deckId);
+      setAllCardsQuery(route.query);
+      setPendingCardId(route.cardId);
+      if (!route.cardId) setCurrentFilteredIndex(0);
+      setIsFlipped(false);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
   // Log the derived currentCard and its imgSrc
   useEffect(() => {
     if (currentCard) {
@@ -170,9 +456,27 @@ function App() {
     }
   }, [currentCard]);
 
-  const audioSrc = useMemo(() => (currentCard ? `${AUDIO_DIR}${currentCard.audioFilename}` : null), [currentCard]);
+  const currentRecording = useMemo(
+    () => currentCard?.recordings.find(recording => recording.id === currentRecordingId),
+    [currentCard, currentRecordingId]
+  );
+
+  const audioSrc = currentRecording?.src ?? null;
+
+  // Records a study action in the learning history (shown in the stats view)
+  const logStudyEvent = useCallback((type: StudyEventType, cardId: string, details?: Pick<StudyEvent, 'grade' | 'correct' | 'chosenId'>) => {
+    setHistory(prevHistory => appendStudyEvents(prevHistory, [createStudyEvent(type, cardId, details)]));
+  }, []);
 
   // --- Audio Playback Logic ---
+  const currentCardId = currentCard?.id;
+  const handlePlaybackStarted = useCallback(() => {
+    if (currentCardId) logStudyEvent('play', currentCardId);
+  }, [currentCardId, logStudyEvent]);
+
+  // Clips, loops, speed, repeats and normalisation for the study card's audio
+  const player = usePlaybackControls(audioRef, currentRecording?.id ?? null, audioSrc, currentClip, handlePlaybackStarted);
+  const { restart: restartPlayback } = player;
 
   // Effect to handle autoplay when the card changes (audio is now the front face)
   useEffect(() => {
@@ -181,22 +485,9 @@ function App() {
 
     // When card changes, reset flip state and attempt to play audio
     setIsFlipped(false);
-    setIsPlaying(false); // Reset playing state initially
 
     if (currentAudioElement && audioSrc) {
-      // Important: Load the new source before trying to play
-      currentAudioElement.load();
-      const playPromise = currentAudioElement.play();
-      if (playPromise !== undefined) {
-        playPromise.then(() => {
-          // Autoplay started!
-          setIsPlaying(true);
-        }).catch(error => {
-          console.warn("Audio autoplay failed:", error);
-          // Autoplay was prevented.
-          setIsPlaying(false);
-        });
-      }
+      restartPlayback();
     } else if (currentAudioElement) {
         // If no audioSrc, ensure player is paused
         currentAudioElement.pause();
@@ -208,7 +499,29 @@ function App() {
         currentAudioElement.pause();
       }
     };
-  }, [currentCard, audioSrc]); // Re-run ONLY when the card/audio source changes
+  }, [currentCard, audioSrc, restartPlayback]); // Re-run ONLY when the card/audio source changes
+
+  // Clear any typed or picked answer and pick a recording (rotating through the species' recordings)
+  // and one of its clips when moving to a different card; reverse cards also get their answer choices
+  useEffect(() => {
+    setTypedAnswer(null);
+    setChosenAnswer(null);
+    if (!currentCard) {
+      setCurrentRecordingId(null);
+      setCurrentClip(null);
+      setDirectionChoices([]);
+      return;
+    }
+    const recording = pickRecording(currentCard.recordings, lastRecordingByCardRef.current[currentCard.id]);
+    const clip = pickClip(recording.clips, lastClipByRecordingRef.current[recording.id]);
+    lastRecordingByCardRef.current[currentCard.id] = recording.id;
+    lastClipByRecordingRef.current[recording.id] = clip;
+    setCurrentRecordingId(recording.id);
+    setCurrentClip(clip);
+    setDirectionChoices(buildDirectionChoices(currentCard, recording.src, availableCards, cardDirection));
+    // Only re-pick when the card itself (or the direction) changes, not when its status is updated
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentCardId, cardDirection]);
 
   // Effect to pause audio when flipping TO the back (image side)
   useEffect(() => {
@@ -223,8 +536,29 @@ function App() {
   // --- Event Handlers ---
   const handleFlip = useCallback(() => {
     if (!currentCard) return;
+    // In typed mode, and on reverse cards, the back stays hidden until an answer has been given
+    if (hasChoiceAnswers(cardDirection) ? !chosenAnswer : answerMode === 'typed' && !typedAnswer) return;
     setIsFlipped(prev => !prev);
-  }, [currentCard]);
+    logStudyEvent('flip', currentCard.id);
+  }, [currentCard, cardDirection, chosenAnswer, answerMode, typedAnswer, logStudyEvent]);
+
+  const handleSubmitTypedAnswer = useCallback((input: string) => {
+    if (!currentCard) return;
+    const result = gradeTypedAnswer(input, currentCard.displayName, cards.map(card => card.displayName));
+    console.log(`Typed answer "${input}" for ${currentCard.id}: ${result.verdict} (${Math.round(result.score * 100)}%)`);
+    // The grade is applied when the learner continues from the back face,
+    // so the card doesn't leave the due queue before its answer is revealed
+    setTypedAnswer(result);
+    setIsFlipped(true);
+  }, [currentCard, cards]);
+
+  const handleChooseAnswer = useCallback((choice: DirectionChoice) => {
+    if (!currentCard) return;
+    console.log(`Picked ${choice.card.id} for ${currentCard.id} (${cardDirection}): ${choice.correct ? 'correct' : 'wrong'}`);
+    // Graded when the learner continues from the back face, like typed answers
+    setChosenAnswer(choice);
+    setIsFlipped(true);
+  }, [currentCard, cardDirection]);
 
   const handleNext = useCallback(() => {
     if (filteredCards.length === 0) return;
@@ -240,34 +574,35 @@ function App() {
     // Autoplay/pause is handled by useEffect watching currentCard
   }, [filteredCards.length]);
 
-  // Toggle Play/Pause for custom button
-  const togglePlayPause = useCallback((e: React.MouseEvent) => {
-    e.stopPropagation();
-    if (!audioRef.current) return;
-
-    if (isPlaying) {
-      audioRef.current.pause();
-    } else {
-      audioRef.current.play().catch(err => {
-        console.error("Error playing audio manually:", err);
-      });
-    }
-  }, [isPlaying]);
-
-  const handleAudioPlay = () => setIsPlaying(true);
-  const handleAudioPause = () => setIsPlaying(false);
-  const handleAudioEnded = () => {
-    setIsPlaying(false);
-  };
-
-  const handleToggleLearned = useCallback((idToToggle: string) => {
+  // Toggles the learned flag in the direction being studied unless told otherwise
+  const handleToggleLearned = useCallback((idToToggle: string, direction: CardDirection = cardDirection) => {
      setCards(prevCards =>
-        prevCards.map(card =>
-          card.id === idToToggle ? { ...card, learned: !card.learned } : card
-        )
+        prevCards.map(card => {
+          if (card.id !== idToToggle) return card;
+          // Keep the schedule consistent with the manual flag
+          const current = getDirectionSchedule(card, direction);
+          return setDirectionSchedule(card, direction, setLearned(current, !isScheduleLearned(current)));
+        })
      );
+     logStudyEvent('toggleLearned', idToToggle);
      // Note: currentCard derived state will update automatically due to `cards` dependency
-  }, []);
+  }, [cardDirection, logStudyEvent]);
+
+  const handleGrade = useCallback((idToGrade: string, grade: ReviewGrade) => {
+     const recordingType = currentRecording?.type;
+     setCards(prevCards =>
+        prevCards.map(card => (card.id === idToGrade ? gradeCardInDirection(card, cardDirection, grade, recordingType) : card))
+     );
+     logStudyEvent('grade', idToGrade, { grade });
+     setStudySession(prev => recordSessionResult(prev, idToGrade, grade));
+     console.log(`Graded ${idToGrade} as ${grade}.`);
+     // In the due queue the graded card drops out (or moves to the back), so the
+     // same index already points at the next card; elsewhere advance explicitly.
+     if (filterMode !== 'due') {
+        setCurrentFilteredIndex(prevIndex => (filteredCards.length > 0 ? (prevIndex + 1) % filteredCards.length : 0));
+     }
+     setIsFlipped(false);
+  }, [filterMode, filteredCards.length, currentRecording, cardDirection, logStudyEvent]);
 
   const handleToggleStarred = useCallback((idToToggle: string) => {
       setCards(prevCards =>
@@ -275,16 +610,180 @@ function App() {
            card.id === idToToggle ? { ...card, starred: !card.starred } : card
          )
       );
+      logStudyEvent('toggleStarred', idToToggle);
+   }, [logStudyEvent]);
+
+  const handleSaveNotes = useCallback((cardId: string, notes: string | null) => {
+      setCards(prevCards =>
+         prevCards.map(card =>
+           card.id === cardId ? { ...card, notes } : card
+         )
+      );
+      setNotesCardId(null);
+      console.log(notes === null ? `Notes for ${cardId} reset to the default.` : `Notes for ${cardId} saved.`);
    }, []);
 
+  // A new seed reorders the deck; the session and its tallies carry on
   const handleShuffle = useCallback(() => {
       if (cards.length <= 1) return;
-      setCards(prevCards => shuffleArray(prevCards));
+      setStudySession(prev => ({ ...prev, seed: createSeed() }));
       setCurrentFilteredIndex(0); // Reset index in (potentially new order) filtered list
       setIsFlipped(false);
       console.log("Deck shuffled.");
    }, [cards.length]);
 
+  const handleStartNewSession = useCallback(() => {
+      const session = createStudySession(filterMode, activeDeck?.id ?? null);
+      setStudySession(session);
+      setCurrentFilteredIndex(0);
+      setIsFlipped(false);
+      setIsSessionSummaryOpen(false);
+      console.log(`Started study session ${session.id} (seed ${session.seed}).`);
+   }, [filterMode, activeDeck]);
+
+  const handleQuizAnswer = useCallback((cardId: string, correct: boolean, recordingType: RecordingType, chosenId: string) => {
+     // Quiz answers grade the card automatically; misses are also starred for review
+     setCards(prevCards =>
+        prevCards.map(card => {
+          if (card.id !== cardId) return card;
+          const graded = gradeCard(card, correct ? 'good' : 'again', recordingType);
+          return correct ? graded : { ...graded, starred: true };
+        })
+     );
+     logStudyEvent('quizAnswer', cardId, correct ? { correct } : { correct, chosenId });
+     console.log(`Quiz answer for ${cardId}: ${correct ? 'correct' : 'wrong'}.`);
+  }, [logStudyEvent]);
+
+  const handleFieldAnswer = useCallback((cardId: string, correct: boolean, recordingType: RecordingType, chosenId: string) => {
+     // Field-conditions answers grade the card like any other review
+     setCards(prevCards =>
+        prevCards.map(card => (card.id === cardId ? gradeCard(card, correct ? 'good' : 'again', recordingType) : card))
+     );
+     logStudyEvent('fieldAnswer', cardId, correct ? { correct } : { correct, chosenId });
+     console.log(`Field-conditions answer for ${cardId}: ${correct ? 'correct' : 'wrong'}.`);
+  }, [logStudyEvent]);
+
+  const handleDrillAnswer = useCallback((question: DrillQuestion, correct: boolean) => {
+     // Drill answers grade the species involved, on the recording type that was played
+     const gradedClips = getGradedClips(question);
+     setCards(prevCards =>
+        prevCards.map(card => {
+          const clip = gradedClips.find(graded => graded.card.id === card.id);
+          return clip ? gradeCard(card, correct ? 'good' : 'again', clip.recording.type) : card;
+        })
+     );
+     const mixedUpId = correct ? null : getMixedUpCardId(question);
+     gradedClips.forEach((clip, i) => {
+        logStudyEvent('drillAnswer', clip.card.id, i === 0 && mixedUpId ? { correct, chosenId: mixedUpId } : { correct });
+     });
+     console.log(`Drill answer (${question.kind}): ${correct ? 'correct' : 'wrong'}.`);
+  }, [logStudyEvent]);
+
+  const handleSetCardDirection = useCallback((direction: CardDirection) => {
+        console.log(`Setting card direction: ${direction}`);
+        setCardDirection(direction);
+        setCurrentFilteredIndex(0);
+        setIsFlipped(false);
+    }, []);
+
+  const handleSetFacets = useCallback((newFacets: FacetFilters) => {
+        console.log('Setting facet filters:', newFacets);
+        setFacets(newFacets);
+        setCurrentFilteredIndex(0);
+        setIsFlipped(false);
+    }, []);
+
+  const handleAssignCards = useCallback((cardIds: string[]) => {
+        setAssignmentDraftIds(cardIds);
+        setViewMode('classroom');
+    }, []);
+
+  const handleCreateAssignment = useCallback((title: string, dueDate: string | null) => {
+        const assignment = createAssignment(title, assignmentDraftIds, dueDate);
+        setAssignments(prev => [...prev, assignment]);
+        setAssignmentDraftIds([]);
+        console.log(`Created assignment "${assignment.title}" with ${assignment.cardIds.length} cards.`);
+    }, [assignmentDraftIds]);
+
+  const handleDeleteAssignment = useCallback((assignmentId: string) => {
+        setAssignments(prev => prev.filter(assignment => assignment.id !== assignmentId));
+    }, []);
+
+  const handleImportResults = useCallback((results: ImportedResult[]) => {
+        setImportedResults(prev => mergeResults(prev, results));
+        console.log(`Imported ${results.length} assignment results.`);
+    }, []);
+
+  const handleOpenAssignment = useCallback((assignment: Assignment) => {
+        setActiveAssignment(assignment);
+        setViewMode('assignment');
+    }, []);
+
+  const handleSwitchProfile = useCallback((profileId: string) => {
+        console.log(`Switching to profile ${profileId}`);
+        switchActiveProfile(profileId);
+    }, []);
+
+  const handleChangeProfiles = useCallback((newProfiles: Profile[]) => {
+        setProfiles(newProfiles);
+        saveProfiles(newProfiles);
+    }, []);
+
+  const handleSetSeasonalPreset = useCallback((preset: SeasonalPreset | null) => {
+        console.log('Setting seasonal preset:', preset);
+        setSeasonalPreset(preset);
+        if (preset) saveSeasonalRegion(preset.region);
+        setCurrentFilteredIndex(0);
+        setIsFlipped(false);
+    }, []);
+
+  const handleSelectDeck = useCallback((deckId: string | null) => {
+        console.log(`Selecting deck: ${deckId ?? 'all birds'}`);
+        setActiveDeckId(deckId);
+        setCurrentFilteredIndex(0);
+        setIsFlipped(false);
+    }, []);
+
+  const handleCreateDeck = useCallback((name: string, cardIds: string[]) => {
+        const deck = createDeck(name, cardIds);
+        setDecks(prevDecks => [...prevDecks, deck]);
+        console.log(`Created deck "${deck.name}" with ${cardIds.length} cards.`);
+    }, []);
+
+  const handleDeleteDeck = useCallback((deckId: string) => {
+        setDecks(prevDecks => prevDecks.filter(deck => deck.id !== deckId));
+        setActiveDeckId(prevId => (prevId === deckId ? null : prevId));
+    }, []);
+
+  // Removes one of the user's own recordings; a species the user added goes with its last recording
+  const handleDeletePersonalRecording = useCallback(async (card: Card, recordingId: string) => {
+        const recording = card.recordings.find(candidate => candidate.id === recordingId);
+        if (!recording?.isPersonal) return;
+        try {
+            await deletePersonalRecording(recording.audioFilename);
+            if (card.sourceId === PERSONAL_SOURCE_ID && card.recordings.length === 1) {
+                await deletePersonalSpecies(card.id.slice(PERSONAL_SOURCE_ID.length + 1));
+            }
+            console.log(`Deleted personal recording ${recording.audioFilename} of ${card.id}.`);
+            setSourcesVersion(prev => prev + 1);
+        } catch (err) {
+            console.error("Error deleting personal recording:", err);
+        }
+    }, []);
+
+  const handleImportProgress = useCallback((statuses: StoredStatuses, importedDecks: Deck[], importedHistory: StudyEvent[], mode: ImportMode) => {
+        setCards(prevCards => applyImportedStatuses(prevCards, statuses, mode));
+        setDecks(prevDecks => applyImportedDecks(prevDecks, importedDecks, mode));
+        setHistory(prevHistory => applyImportedHistory(prevHistory, importedHistory, mode));
+        if (mode === 'replace') setActiveDeckId(null);
+        console.log(`Imported progress for ${Object.keys(statuses).length} cards (${mode}).`);
+    }, []);
+
+  const handleSetViewMode = useCallback((newMode: ViewMode) => {
+        setViewMode(newMode);
+        setIsFlipped(false);
+    }, []);
+
   const handleToggleView = useCallback(() => {
         setViewMode(prevMode => (prevMode === 'study' ? 'viewAll' : 'study'));
         setIsFlipped(false);
@@ -302,6 +801,42 @@ function App() {
         }
     }, [filterMode]);
 
+  const handleCycleFilterMode = useCallback((step: number) => {
+        const index = FILTER_MODES.indexOf(filterMode);
+        handleSetFilterMode(FILTER_MODES[(index + step + FILTER_MODES.length) % FILTER_MODES.length]);
+    }, [filterMode, handleSetFilterMode]);
+
+  const notesCard = notesCardId ? cards.find(card => card.id === notesCardId) ?? null : null;
+
+  // --- Keyboard Shortcuts ---
+  // Grades only apply once the answer is showing; typed and picked answers are graded via "Continue"
+  const gradeByKey = (grade: ReviewGrade) => {
+    if (isFlipped && currentCard && !typedAnswer && !chosenAnswer) handleGrade(currentCard.id, grade);
+  };
+  const isDialogOpen = isTransferOpen || isOfflinePanelOpen || isShortcutsOpen || isSourcesOpen || isAddRecordingOpen || isProfilesOpen || notesCardId !== null || isSessionSummaryOpen;
+  useKeyboardShortcuts(
+    keyBindings,
+    viewMode === 'study'
+      ? {
+          playPause: () => player.togglePlayPause(),
+          next: handleNext,
+          previous: handlePrevious,
+          flip: handleFlip,
+          toggleStarred: () => currentCard && handleToggleStarred(currentCard.id),
+          toggleLearned: () => currentCard && handleToggleLearned(currentCard.id),
+          shuffle: handleShuffle,
+          nextFilter: () => handleCycleFilterMode(1),
+          previousFilter: () => handleCycleFilterMode(-1),
+          gradeAgain: () => gradeByKey('again'),
+          gradeHard: () => gradeByKey('hard'),
+          gradeGood: () => gradeByKey('good'),
+          gradeEasy: () => gradeByKey('easy'),
+          showHelp: () => setIsShortcutsOpen(true),
+        }
+      : { showHelp: () => setIsShortcutsOpen(true) },
+    !isDialogOpen
+  );
+
   // --- Base classes for buttons ---
   const baseButtonClasses = "inline-flex items-center justify-center gap-2 h-11 px-5 rounded-pill text-body font-medium transition-colors duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-accent focus-visible:ring-offset-2 focus-visible:ring-offset-bg disabled:opacity-38 disabled:pointer-events-none";
   const primaryButtonClasses = `${baseButtonClasses} bg-primary text-white hover:bg-primary-700`;
@@ -318,7 +853,7 @@ function App() {
            <div className="flex items-center border border-border rounded-pill p-0.5 bg-gray-100 shadow-inner flex-shrink-0"> {/* Filter group */} 
               <span className="text-tiny text-text-muted font-medium mr-2 pl-3 flex items-center gap-1 flex-shrink-0"><Filter size={16} /> Filter:</span>
               <div role="radiogroup" className="flex"> {/* Radio group */}
-                 {(['all', 'unlearned', 'learned', 'starred'] as FilterMode[]).map(mode => (
+                 {FILTER_MODES.map(mode => (
                      <button
                        key={mode}
                        role="radio"
@@ -330,7 +865,29 @@ function App() {
                            : 'text-text-muted hover:bg-primary/10 hover:text-primary'
                        }`}
                      >
-                       {mode.charAt(0).toUpperCase() + mode.slice(1)}
+                       {FILTER_LABELS[mode]}
+                     </button>
+                 ))}
+              </div>
+           </div>
+
+           {/* Direction Pills: which way the cards are reviewed, each with its own progress */}
+           <div className="flex items-center border border-border rounded-pill p-0.5 bg-gray-100 shadow-inner flex-shrink-0">
+              <span className="text-tiny text-text-muted font-medium mr-2 pl-3 flex items-center gap-1 flex-shrink-0"><ArrowLeftRight size={16} /> Direction:</span>
+              <div role="radiogroup" className="flex">
+                 {CARD_DIRECTIONS.map(direction => (
+                     <button
+                       key={direction}
+                       role="radio"
+                       aria-checked={cardDirection === direction}
+                       onClick={() => handleSetCardDirection(direction)}
+                       className={`px-3 py-1.5 rounded-pill text-filter-chip font-medium transition-colors duration-200 focus:outline-none focus-visible:ring-1 focus-visible:ring-accent focus-visible:ring-offset-1 focus-visible:ring-offset-gray-100 ${
+                         cardDirection === direction
+                           ? 'bg-primary text-white shadow-sm border border-primary-700'
+                           : 'text-text-muted hover:bg-primary/10 hover:text-primary'
+                       }`}
+                     >
+                       {CARD_DIRECTION_LABELS[direction]}
                      </button>
                  ))}
               </div>
@@ -349,25 +906,173 @@ function App() {
                   View All
               </button>
 
+              {/* Typed Answer Toggle */}
+              <button
+                 onClick={() => setAnswerMode(prev => (prev === 'typed' ? 'reveal' : 'typed'))}
+                 disabled={hasChoiceAnswers(cardDirection)}
+                 className={`${actionPillButtonClasses} ${answerMode === 'typed' ? '!bg-primary !text-white' : ''}`}
+                 aria-pressed={answerMode === 'typed'}
+                 title="Type the bird's name before the card can be flipped"
+              >
+                  <Keyboard size={16} />
+                  Type answer
+              </button>
+
+              {/* Quiz Button */}
+              <button
+                 onClick={() => handleSetViewMode('quiz')}
+                 disabled={filteredCards.length === 0}
+                 className={actionPillButtonClasses}
+                 aria-label="Start a quiz"
+                 title="Multiple-choice quiz on the current filter"
+              >
+                  <HelpCircle size={16} />
+                  Quiz
+              </button>
+
+              {/* Drill Button */}
+              <button
+                 onClick={() => handleSetViewMode('drill')}
+                 disabled={cards.length < 2}
+                 className={actionPillButtonClasses}
+                 aria-label="Drill similar-sounding species"
+                 title="Same or different? Drills on species that sound alike"
+              >
+                  <Ear size={16} />
+                  Drill
+              </button>
+
+              {/* Field Conditions Button */}
+              <button
+                 onClick={() => handleSetViewMode('field')}
+                 disabled={filteredCards.length === 0}
+                 className={actionPillButtonClasses}
+                 aria-label="Field conditions"
+                 title="Name birds through wind, traffic, rain and other birds"
+              >
+                  <Wind size={16} />
+                  Field
+              </button>
+
+              {/* Classroom Button */}
+              <button
+                 onClick={() => handleSetViewMode('classroom')}
+                 className={actionPillButtonClasses}
+                 aria-label="Classroom assignments"
+                 title="Assign card sets to students and collect their results"
+              >
+                  <GraduationCap size={16} />
+                  Classroom
+              </button>
+
+              {/* Backup Button */}
+              <button
+                  onClick={() => setIsTransferOpen(true)}
+                  disabled={cards.length === 0}
+                  className={actionPillButtonClasses}
+                  aria-label="Backup and restore progress"
+                  title="Export or import your progress"
+              >
+                  <HardDrive size={16} />
+                  Backup
+              </button>
+
+              {/* Offline Downloads Button */}
+              <button
+                  onClick={() => setIsOfflinePanelOpen(true)}
+                  disabled={cards.length === 0}
+                  className={actionPillButtonClasses}
+                  aria-label="Offline downloads"
+                  title="Download decks for offline use"
+              >
+                  <CloudOff size={16} />
+                  Offline
+              </button>
+
+              {/* Card Sources Button */}
+              <button
+                  onClick={() => setIsSourcesOpen(true)}
+                  className={actionPillButtonClasses}
+                  aria-label="Card sources"
+                  title="Add your own recordings from a zip bundle or a web endpoint"
+              >
+                  <Package size={16} />
+                  Sources
+              </button>
+
+              {/* Add Recording Button */}
+              <button
+                  onClick={() => setIsAddRecordingOpen(true)}
+                  className={actionPillButtonClasses}
+                  aria-label="Add a recording"
+                  title="Record or upload your own recording of a bird"
+              >
+                  <Mic size={16} />
+                  Record
+              </button>
+
+              {/* Keyboard Shortcuts Button */}
+              <button
+                  onClick={() => setIsShortcutsOpen(true)}
+                  className={actionPillButtonClasses}
+                  aria-label="Keyboard shortcuts"
+                  title={`Keyboard shortcuts (press ${formatBinding(keyBindings.showHelp)})`}
+              >
+                  <Command size={16} />
+                  Keys
+              </button>
+
               {/* Shuffle Button */}
               <button
                   onClick={handleShuffle}
                   disabled={cards.length <= 1}
                   className={actionPillButtonClasses}
                   aria-label="Shuffle deck"
-                  title="Shuffle deck (shuffles all cards)"
+                  title="Shuffle deck (a new card order for this session)"
               >
                   <Shuffle size={16} />
                   Shuffle
               </button>
+
+              {/* New Session Button */}
+              <button
+                  onClick={() => setIsSessionSummaryOpen(true)}
+                  className={actionPillButtonClasses}
+                  aria-label="New session"
+                  title="End this study session with a summary and start a new one"
+              >
+                  <Flag size={16} />
+                  New session
+              </button>
            </div>
         </div>
 
+        {/* Metadata Facets (compose with the filter above) */}
+        <div className="mb-6 w-full">
+           <FacetFilterBar cards={cards} facets={facets} onChange={handleSetFacets} />
+        </div>
+
+        {/* "What's singing now" preset (composes with the deck, facets and filter) */}
+        <div className="mb-6 w-full">
+           <SeasonalPresetControl preset={seasonalPreset} queueLength={filteredCards.length} onChange={handleSetSeasonalPreset} />
+        </div>
+
+        {!isOnline && (
+           <p className="mb-4 text-tiny text-text-muted bg-gray-100 border border-border rounded-pill px-4 py-1.5 flex items-center gap-2" role="status">
+              <CloudOff size={14} /> You're offline — studying the {availableCards.length} downloaded cards.
+           </p>
+        )}
+
         {/* Card Counter */}
         <p className="text-tiny text-text-muted mb-4">
            Card {filteredCards.length > 0 ? currentFilteredIndex + 1 : 0} of {filteredCards.length}
-           {filterMode !== 'all' && ` (${filterMode} filter - ${cards.length} total)`}
+           {(filterMode !== 'all' || hasActiveFacets(facets)) && ` (${FILTER_LABELS[filterMode].toLowerCase()} filter${hasActiveFacets(facets) ? ' + facets' : ''} - ${deckCards.length} total)`}
         </p>
+        {activeDeck && (
+           <p className="text-tiny text-text-muted -mt-3 mb-4">
+              Deck “{activeDeck.name}”: {deckStats.learned}/{deckStats.total} learned · {deckStats.due} due · {deckStats.starred} starred
+           </p>
+        )}
 
         {/* Flashcard Area - Add perspective here for flip */}
         <div className="w-full max-w-lg [perspective:1000px]"> {/* Adjusted max width, added perspective */} 
@@ -377,28 +1082,64 @@ function App() {
                 audioSrc={audioSrc}
                 imgSrc={currentCard.imgSrc}
                 displayName={currentCard.displayName}
+                scientificName={currentCard.scientificName}
                 isFlipped={isFlipped}
                 isLearned={currentCard.learned}
                 isStarred={currentCard.starred}
-                isPlaying={isPlaying}
+                recordingType={currentRecording?.type ?? null}
+                isPersonalRecording={!!currentRecording?.isPersonal}
+                schedule={currentCard.schedule}
+                isPlaying={player.isPlaying}
+                loopRegion={player.activeRegion}
+                answerMode={answerMode}
+                typedAnswer={typedAnswer}
+                direction={cardDirection}
+                choices={directionChoices}
+                chosen={chosenAnswer}
+                notes={getCardNotes(currentCard)}
                 audioRef={audioRef}
                 onFlip={handleFlip}
-                onTogglePlayPause={togglePlayPause}
-                onAudioPlay={handleAudioPlay}
-                onAudioPause={handleAudioPause}
-                onAudioEnded={handleAudioEnded}
+                onTogglePlayPause={player.togglePlayPause}
+                onAudioPlay={player.audioHandlers.onPlay}
+                onAudioPause={player.audioHandlers.onPause}
+                onAudioEnded={player.audioHandlers.onEnded}
                 onToggleLearned={() => handleToggleLearned(currentCard.id)}
                 onToggleStarred={() => handleToggleStarred(currentCard.id)}
+                onGrade={(grade) => handleGrade(currentCard.id, grade)}
+                onSubmitTypedAnswer={handleSubmitTypedAnswer}
+                onChoose={handleChooseAnswer}
+                onEditNotes={() => setNotesCardId(currentCard.id)}
              />
           ) : (
              <div className="aspect-16/10 w-full bg-border/50 rounded-card flex items-center justify-center border border-border">
                 <p className="text-text-muted">
-                   {cards.length === 0 ? 'No cards loaded.' : `No cards match the "${filterMode}" filter.`}
+                   {cards.length === 0
+                     ? 'No cards loaded.'
+                     : directionCards.length === 0
+                       ? `None of the cards have a photo to study ${CARD_DIRECTION_LABELS[cardDirection]}.`
+                     : deckCards.length === 0
+                       ? (isOnline ? 'This deck has no cards.' : 'None of these cards are downloaded for offline use.')
+                     : facetedCards.length === 0
+                       ? 'No cards match the selected facets.'
+                     : filterMode === 'due'
+                       ? 'Nothing due today. Come back tomorrow!'
+                       : `No cards match the "${FILTER_LABELS[filterMode]}" filter.`}
                 </p>
              </div>
           )}
         </div>
 
+        {/* Playback Options (apply to the card's recording) */}
+        <PlaybackControls
+          settings={player.settings}
+          loopRegion={player.loopRegion}
+          clip={currentClip}
+          disabled={!audioSrc || !hasSoundPrompt(cardDirection)}
+          onChangeSettings={player.changeSettings}
+          onSetLoopPoint={player.setLoopPoint}
+          onClearLoop={player.clearLoop}
+        />
+
         {/* Navigation Buttons Container */}
         <div className="flex justify-center items-center gap-4 mt-8 w-full max-w-md">
            <button
@@ -427,10 +1168,10 @@ function App() {
         {/* Header */}
         <header className="col-span-12 text-center my-12 flex items-center justify-between">
            {/* Left Header Button: Conditional Back Arrow or Logo */}
-           <div className="flex-1 flex justify-start"> {/* Container to balance flexbox */}
-              {viewMode === 'viewAll' ? (
+           <div className="flex-1 flex justify-start items-center gap-1"> {/* Container to balance flexbox */}
+              {viewMode !== 'study' ? (
                   <button
-                      onClick={handleToggleView}
+                      onClick={() => handleSetViewMode('study')}
                       className="p-2 text-text-muted hover:text-primary transition-colors" // Simple styling
                       aria-label="Back to study mode"
                       title="Back to study mode"
@@ -442,6 +1183,12 @@ function App() {
                      <Bird size={24} /> {/* Show logo/bird in study mode */} 
                   </span>
               )}
+              <ProfileSwitcher
+                  profiles={profiles}
+                  activeProfileId={activeProfileId}
+                  onSwitchProfile={handleSwitchProfile}
+                  onManageProfiles={() => setIsProfilesOpen(true)}
+              />
            </div>
 
            {/* Center Header Title */}
@@ -455,10 +1202,23 @@ function App() {
               </p> */} 
             </div>
 
-            {/* Right Header Spacer (to balance flexbox) */}
+            {/* Right Header: Deck Picker */}
             <div className="flex-1 flex justify-end"> 
-              {/* Placeholder for potential future icons like settings */} 
-              <span className="w-8 h-8"></span> {/* Ensure balance */} 
+              {viewMode === 'study' ? (
+                <div className="flex items-center gap-2">
+                  <button
+                      onClick={() => handleSetViewMode('stats')}
+                      className="p-2 text-text-muted hover:text-primary transition-colors"
+                      aria-label="Study statistics"
+                      title="Study statistics"
+                  >
+                      <BarChart3 size={22} />
+                  </button>
+                  <DeckPicker decks={pickableDecks} activeDeckId={activeDeckId} onSelectDeck={handleSelectDeck} />
+                </div>
+              ) : (
+                <span className="w-8 h-8"></span> /* Ensure balance */
+              )}
             </div>
         </header>
 
@@ -474,6 +1234,40 @@ function App() {
             <span className="block sm:inline ml-2 whitespace-pre-wrap">{error}</span>
           </div>
         )}
+        {!isLoading && !error && (skippedCards.length > 0 || failedSources.length > 0) && !isSkippedWarningDismissed && viewMode !== 'dataReport' && (
+          <div className="col-span-12 mb-6 max-w-xl w-full mx-auto bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded relative text-sm flex items-start gap-3" role="status">
+            <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+            <div className="flex-grow">
+              {failedSources.map(source => (
+                <p key={source.id} className="font-medium">Could not load “{source.name}”: {source.error}</p>
+              ))}
+              {skippedCards.length > 0 && (
+                <>
+                  <p className="font-medium">
+                    {skippedCards.length === 1 ? '1 bird was' : `${skippedCards.length} birds were`} skipped because of problems in the bird data:
+                  </p>
+                  <ul className="mt-1 list-disc list-inside">
+                    {skippedCards.map(card => (
+                      <li key={`${card.sourceName}|${card.speciesId}`}>
+                        {card.displayName} <span className="text-yellow-700">({card.reason}{loadedSources.length > 1 ? `, ${card.sourceName}` : ''})</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+              <button onClick={() => handleSetViewMode('dataReport')} className="mt-1 underline hover:text-yellow-900">
+                Show data report
+              </button>
+            </div>
+            <button
+              onClick={() => setIsSkippedWarningDismissed(true)}
+              className="p-1 rounded-full hover:bg-yellow-100"
+              aria-label="Dismiss warning"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        )}
 
         {/* Main Content Area */} 
         {!isLoading && !error && cards.length >= 0 ? (
@@ -482,11 +1276,86 @@ function App() {
             {/* Conditional Rendering based on viewMode */}
             {viewMode === 'study' ? (
                renderStudyMode()
+            ) : viewMode === 'stats' ? (
+               <div className="col-span-12 lg:col-span-10 w-full">
+                  <StatsView cards={cards} history={history} />
+               </div>
+            ) : viewMode === 'dataReport' ? (
+               <div className="col-span-12 lg:col-span-10 w-full">
+                  {loadedSources.length > 0 ? <DataReportView sources={loadedSources} /> : <p className="text-text-muted mt-8 text-center">The bird data has not been loaded.</p>}
+               </div>
+            ) : viewMode === 'drill' ? (
+               <div className="col-span-12 lg:col-span-8 w-full">
+                  <DrillView
+                     cards={availableCards}
+                     groups={confusionGroups}
+                     detectedGroups={detectedGroups}
+                     onChangeGroups={setConfusionGroups}
+                     onAnswer={handleDrillAnswer}
+                     onExit={() => handleSetViewMode('study')}
+                  />
+               </div>
+            ) : viewMode === 'classroom' ? (
+               <div className="col-span-12 lg:col-span-10 w-full">
+                  <ClassroomView
+                     cards={cards}
+                     assignments={assignments}
+                     results={importedResults}
+                     draftCardIds={assignmentDraftIds}
+                     onSelectCards={() => handleSetViewMode('viewAll')}
+                     onCreateAssignment={handleCreateAssignment}
+                     onDeleteAssignment={handleDeleteAssignment}
+                     onImportResults={handleImportResults}
+                     onOpenAssignment={handleOpenAssignment}
+                  />
+               </div>
+            ) : viewMode === 'assignment' && activeAssignment ? (
+               <div className="col-span-12 lg:col-span-8 w-full">
+                  <AssignmentView
+                     assignment={activeAssignment}
+                     cards={cards}
+                     onAnswer={handleQuizAnswer}
+                     onExit={() => { setActiveAssignment(null); handleSetViewMode('study'); }}
+                  />
+               </div>
+            ) : viewMode === 'field' ? (
+               <div className="col-span-12 lg:col-span-8 w-full">
+                  <FieldView
+                     roundCards={filteredCards}
+                     allCards={cards}
+                     onAnswer={handleFieldAnswer}
+                     onExit={() => handleSetViewMode('study')}
+                  />
+               </div>
+            ) : viewMode === 'quiz' ? (
+               <div className="col-span-12 lg:col-span-8 w-full">
+                  <QuizView
+                     roundCards={filteredCards}
+                     allCards={cards}
+                     onAnswer={handleQuizAnswer}
+                     onExit={() => handleSetViewMode('study')}
+                  />
+               </div>
             ) : (
                /* View All Mode - Span more columns */
                <div className="col-span-12 lg:col-span-10 w-full">
                   {/* Render the AllCardsView component */}
-                  <AllCardsView cards={cards} onToggleLearned={handleToggleLearned} onToggleStarred={handleToggleStarred} />
+                  <AllCardsView
+                     cards={cards}
+                     // All Cards shows the sound → name state, so its checkbox changes that
+                     onToggleLearned={(id) => handleToggleLearned(id, DEFAULT_CARD_DIRECTION)}
+                     onToggleStarred={handleToggleStarred}
+                     decks={decks}
+                     onCreateDeck={handleCreateDeck}
+                     onDeleteDeck={handleDeleteDeck}
+                     facets={facets}
+                     onChangeFacets={handleSetFacets}
+                     onDeletePersonalRecording={handleDeletePersonalRecording}
+                     onAssignCards={handleAssignCards}
+                     onEditNotes={setNotesCardId}
+                     searchQuery={allCardsQuery}
+                     onSearchQueryChange={setAllCardsQuery}
+                  />
 
                   {/* Add Back to Study button at the BOTTOM of this view */}
                   <div className="flex justify-center items-center gap-4 mt-12 w-full max-w-md">
@@ -514,9 +1383,86 @@ function App() {
         )}
       </main>
 
+      {isTransferOpen && (
+        <ProgressTransferDialog
+          cards={cards}
+          decks={decks}
+          history={history}
+          onImport={handleImportProgress}
+          onClose={() => setIsTransferOpen(false)}
+        />
+      )}
+
+      {isOfflinePanelOpen && (
+        <OfflinePanel
+          cards={cards}
+          decks={decks}
+          cachedMediaKeys={cachedMediaKeys}
+          onMediaChanged={refreshCachedMedia}
+          onClose={() => setIsOfflinePanelOpen(false)}
+        />
+      )}
+
+      {isSourcesOpen && (
+        <SourcesDialog
+          sources={loadedSources}
+          restSources={restSources}
+          onChangeRestSources={setRestSources}
+          onBundlesChanged={() => setSourcesVersion(prev => prev + 1)}
+          onClose={() => setIsSourcesOpen(false)}
+        />
+      )}
+
+      {isAddRecordingOpen && (
+        <AddRecordingDialog
+          cards={cards}
+          onSaved={() => setSourcesVersion(prev => prev + 1)}
+          onClose={() => setIsAddRecordingOpen(false)}
+        />
+      )}
+
+      {isProfilesOpen && (
+        <ProfilesDialog
+          profiles={profiles}
+          activeProfileId={activeProfileId}
+          onChangeProfiles={handleChangeProfiles}
+          onSwitchProfile={handleSwitchProfile}
+          onClose={() => setIsProfilesOpen(false)}
+        />
+      )}
+
+      {isSessionSummaryOpen && (
+        <SessionSummaryDialog
+          session={studySession}
+          cards={cards}
+          onStartNew={handleStartNewSession}
+          onClose={() => setIsSessionSummaryOpen(false)}
+        />
+      )}
+
+      {notesCard && (
+        <NotesDialog
+          card={notesCard}
+          onSave={handleSaveNotes}
+          onClose={() => setNotesCardId(null)}
+        />
+      )}
+
+      {isShortcutsOpen && (
+        <KeyboardShortcutsDialog
+          bindings={keyBindings}
+          onChangeBindings={setKeyBindings}
+          onClose={() => setIsShortcutsOpen(false)}
+        />
+      )}
+
       {/* Footer - can be used for fixed bottom bar later */}
-      <footer className="col-span-12 text-center text-tiny text-text-muted mt-12">
-          {/* Content removed, possibly for bottom bar */} 
+      <footer className="col-span-12 text-center text-tiny text-text-muted mt-12 pb-6">
+          {loadedSources.length > 0 && viewMode !== 'dataReport' && (
+              <button onClick={() => handleSetViewMode('dataReport')} className="hover:text-primary underline-offset-2 hover:underline">
+                  Data report
+              </button>
+          )}
       </footer>
     </div>
   );
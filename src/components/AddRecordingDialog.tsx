@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { X, Mic, Square, Upload, RotateCcw, AlertCircle } from 'lucide-react';
+import { Card, RecordingType } from '../types';
+import { RECORDING_TYPES, RECORDING_TYPE_LABELS } from '../utils/recordingUtils';
+import { MAX_RECORDING_SECONDS, useAudioRecorder } from '../hooks/useAudioRecorder';
+import { scopeId } from '../sources/cardSource';
+import { PERSONAL_SOURCE_ID } from '../sources/personalSource';
+import { createPersonalId, isPersonalStorageSupported, savePersonalRecording, savePersonalSpecies } from '../sources/personalStore';
+
+/**
+ * Add Recording Dialog Component Props
+ */
+interface AddRecordingDialogProps {
+  cards: Card[]; // Species a recording can be attached to
+  onSaved: () => void; // Called after saving so the app reloads its cards
+  onClose: () => void;
+}
+
+// Select value for "a species that isn't in the app yet"
+const NEW_SPECIES = '__new__';
+
+const formatSeconds = (seconds: number): string => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/**
+ * Add Recording Dialog - record a bird with the microphone or upload a file,
+ * then attach it to one of the existing species or to a new species with its
+ * own name and photo. Recordings are kept in the browser and join the study
+ * rotation with a "Mine" badge.
+ */
+const AddRecordingDialog: React.FC<AddRecordingDialogProps> = ({ cards, onSaved, onClose }) => {
+  const recorder = useAudioRecorder();
+  const [upload, setUpload] = useState<File | null>(null);
+  const [cardId, setCardId] = useState<string>('');
+  const [newName, setNewName] = useState('');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [type, setType] = useState<RecordingType>('song');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+
+  const audio = upload ?? recorder.recording;
+  const previewUrl = useMemo(() => (audio ? URL.createObjectURL(audio) : null), [audio]);
+  useEffect(() => () => { if (previewUrl) URL.revokeObjectURL(previewUrl); }, [previewUrl]);
+
+  const sortedCards = useMemo(() => [...cards].sort((a, b) => a.displayName.localeCompare(b.displayName)), [cards]);
+  const isNewSpecies = cardId === NEW_SPECIES;
+  const canSave = !!audio && !recorder.isRecording && !!cardId && (!isNewSpecies || !!newName.trim()) && !isSaving;
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    if (!file.type.startsWith('audio/')) {
+      setError('That is not an audio file.');
+      return;
+    }
+    recorder.reset();
+    setUpload(file);
+    setError(null);
+  };
+
+  const handleDiscard = () => {
+    recorder.reset();
+    setUpload(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!audio || !canSave) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const now = new Date().toISOString();
+      let targetCardId = cardId;
+      if (isNewSpecies) {
+        const speciesId = createPersonalId('species');
+        await savePersonalSpecies({ id: speciesId, displayName: newName.trim(), createdAt: now, image: photo });
+        targetCardId = scopeId(PERSONAL_SOURCE_ID, speciesId);
+      }
+      await savePersonalRecording({ id: createPersonalId('recording'), cardId: targetCardId, type, createdAt: now, audio });
+      console.log(`Saved a personal ${type} recording for ${targetCardId}.`);
+      onSaved();
+      onClose();
+    } catch (err) {
+      console.error("Error saving personal recording:", err);
+      setError('Could not save the recording.');
+      setIsSaving(false);
+    }
+  };
+
+  const inputClasses = 'border border-border rounded-lg px-3 py-2 text-sm focus:outline-none focus-visible:ring-1 focus-visible:ring-accent';
+  const pillClasses = 'inline-flex items-center gap-1.5 px-3 py-1.5 rounded-pill text-tiny font-medium bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Add a recording">
+      <div className="bg-white rounded-card shadow-card w-full max-w-xl max-h-[90vh] overflow-y-auto p-6 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 p-1 text-text-muted hover:text-primary" aria-label="Close">
+          <X size={20} />
+        </button>
+        <h2 className="text-card-heading font-semibold mb-1 flex items-center gap-2"><Mic size={22} /> Add a Recording</h2>
+        <p className="text-tiny text-text-muted mb-4">
+          Record a bird you hear or upload one of your own field recordings. It is kept in this browser and studied along with the others.
+        </p>
+
+        {!isPersonalStorageSupported() ? (
+          <p className="text-tiny text-red-700 flex items-center gap-1"><AlertCircle size={14} /> This browser can't store recordings.</p>
+        ) : (
+          <form onSubmit={handleSave} className="flex flex-col gap-4">
+            <div className="flex flex-wrap items-center gap-2">
+              {recorder.isRecording ? (
+                <button type="button" onClick={recorder.stop} className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-pill text-tiny font-medium bg-red-100 text-red-700 hover:bg-red-200 transition-colors">
+                  <Square size={14} /> Stop ({formatSeconds(recorder.elapsed)} / {formatSeconds(MAX_RECORDING_SECONDS)})
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => { setUpload(null); recorder.start(); }}
+                  disabled={!recorder.isSupported}
+                  className={pillClasses}
+                  title={recorder.isSupported ? 'Record from the microphone' : "This browser can't record audio"}
+                >
+                  <Mic size={14} /> {audio ? 'Record again' : 'Record'}
+                </button>
+              )}
+              <input ref={uploadInputRef} type="file" accept="audio/*" onChange={handleUpload} className="hidden" />
+              <button type="button" onClick={() => uploadInputRef.current?.click()} disabled={recorder.isRecording} className={pillClasses}>
+                <Upload size={14} /> Upload a file
+              </button>
+              {audio && !recorder.isRecording && (
+                <button type="button" onClick={handleDiscard} className={pillClasses}>
+                  <RotateCcw size={14} /> Discard
+                </button>
+              )}
+            </div>
+            {recorder.error && <p className="text-tiny text-red-700 flex items-center gap-1"><AlertCircle size={14} /> {recorder.error}</p>}
+            {previewUrl && (
+              <div>
+                {upload && <p className="text-xs text-text-muted mb-1 truncate">{upload.name}</p>}
+                <audio src={previewUrl} controls className="w-full" />
+              </div>
+            )}
+
+            <label className="flex flex-col gap-1 text-tiny font-medium">
+              Species
+              <select value={cardId} onChange={(e) => setCardId(e.target.value)} className={inputClasses} required>
+                <option value="" disabled>Choose a species…</option>
+                <option value={NEW_SPECIES}>A new species…</option>
+                {sortedCards.map(card => <option key={card.id} value={card.id}>{card.displayName}</option>)}
+              </select>
+            </label>
+
+            {isNewSpecies && (
+              <div className="flex flex-col gap-2">
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder="Name, e.g. Wood Thrush"
+                  className={inputClasses}
+                  required
+                />
+                <label className="text-tiny text-text-muted flex items-center gap-2">
+                  Photo (optional)
+                  <input type="file" accept="image/*" onChange={(e) => setPhoto(e.target.files?.[0] ?? null)} className="text-xs" />
+                </label>
+              </div>
+            )}
+
+            <label className="flex flex-col gap-1 text-tiny font-medium">
+              Type
+              <select value={type} onChange={(e) => setType(e.target.value as RecordingType)} className={inputClasses}>
+                {RECORDING_TYPES.map(option => <option key={option} value={option}>{RECORDING_TYPE_LABELS[option]}</option>)}
+              </select>
+            </label>
+
+            {error && <p className="text-tiny text-red-700 flex items-center gap-1"><AlertCircle size={14} /> {error}</p>}
+
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={onClose} className={pillClasses}>Cancel</button>
+              <button
+                type="submit"
+                disabled={!canSave}
+                className="px-4 py-1.5 rounded-pill text-tiny font-medium bg-primary text-white hover:bg-primary-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving…' : 'Save recording'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AddRecordingDialog;
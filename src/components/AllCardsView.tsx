@@ -1,9 +1,17 @@
 import React, { useState, useRef, useCallback, useMemo } from 'react';
-import { CheckSquare, Square, Star, ExternalLink, Play, Pause, Search } from 'lucide-react';
+import { CheckSquare, Square, Star, ExternalLink, Play, Pause, Search, ListChecks, Save, X, Trash2, GraduationCap, NotebookPen } from 'lucide-react';
 import Fuse, { IFuseOptions } from 'fuse.js';
-import { Card } from '../types';
-import { AUDIO_DIR } from '../config';
+import { Card, Deck, FacetFilters } from '../types';
+import { NAME_MATCH_THRESHOLD } from '../config';
+import { labelRecordings } from '../utils/recordingUtils';
+import { applyFacetFilters, hasActiveFacets } from '../utils/facetUtils';
+import { getCardNotes } from '../utils/cardUtils';
 import BirdImage from './BirdImage';
+import DeckManager from './DeckManager';
+import FacetFilterBar from './FacetFilterBar';
+import Waveform from './Waveform';
+import Spectrogram from './Spectrogram';
+import NotesText from './NotesText';
 
 /**
  * View All Cards Component Props
@@ -12,12 +20,23 @@ interface AllCardsViewProps {
     cards: Card[];
     onToggleLearned: (id: string) => void;
     onToggleStarred: (id: string) => void;
+    decks: Deck[];
+    onCreateDeck: (name: string, cardIds: string[]) => void;
+    onDeleteDeck: (deckId: string) => void;
+    facets: FacetFilters;
+    onChangeFacets: (facets: FacetFilters) => void;
+    onDeletePersonalRecording: (card: Card, recordingId: string) => void; // Only for the user's own recordings
+    onAssignCards: (cardIds: string[]) => void; // Starts a classroom assignment with the selected cards
+    onEditNotes: (cardId: string) => void;
+    searchQuery: string; // Kept in the address, e.g. /all?q=thrush
+    onSearchQueryChange: (query: string) => void;
 }
 
-// Fuse.js options for fuzzy searching display names
+// Fuse.js options for fuzzy searching display names and notes
 const fuseOptions: IFuseOptions<Card> = {
-  keys: ['displayName'],
-  threshold: 0.3, // Adjust threshold for fuzziness (0=exact, 1=match anything)
+  keys: ['displayName', { name: 'notes', getFn: getCardNotes }],
+  threshold: NAME_MATCH_THRESHOLD, // Shared with typed-answer grading
+  ignoreLocation: true, // A mnemonic can be anywhere in the notes, not just near the start
   includeScore: false,
   // Other options can be tuned as needed
 };
@@ -25,22 +44,29 @@ const fuseOptions: IFuseOptions<Card> = {
 /**
  * View All Cards Component
  */
-const AllCardsView: React.FC<AllCardsViewProps> = ({ cards, onToggleLearned, onToggleStarred }) => {
+const AllCardsView: React.FC<AllCardsViewProps> = ({ cards, onToggleLearned, onToggleStarred, decks, onCreateDeck, onDeleteDeck, facets, onChangeFacets, onDeletePersonalRecording, onAssignCards, onEditNotes, searchQuery, onSearchQueryChange }) => {
     const [currentlyPlayingId, setCurrentlyPlayingId] = useState<string | null>(null);
     const audioRefs = useRef<Record<string, HTMLAudioElement | null>>({});
-    const [searchQuery, setSearchQuery] = useState(''); // State for search query
+    const [lastPlayedId, setLastPlayedId] = useState<string | null>(null); // Recording whose waveform its row shows
+    const [progressById, setProgressById] = useState<Record<string, number>>({}); // Playback position 0-1 per recording
+    const [isSelecting, setIsSelecting] = useState(false); // Picking cards for a new deck
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [deckName, setDeckName] = useState('');
+
+    // Metadata facets are applied before the text search
+    const facetedCards = useMemo(() => applyFacetFilters(cards, facets), [cards, facets]);
 
     // Memoize the Fuse instance
-    const fuse = useMemo(() => new Fuse(cards, fuseOptions), [cards]);
+    const fuse = useMemo(() => new Fuse(facetedCards, fuseOptions), [facetedCards]);
 
     // Memoize the search results
     const displayCards = useMemo(() => {
         if (!searchQuery) {
-            return cards; // If no query, show all cards
+            return facetedCards; // If no query, show all (faceted) cards
         }
         // Perform fuzzy search and return the item itself from results
         return fuse.search(searchQuery).map(result => result.item);
-    }, [searchQuery, cards, fuse]);
+    }, [searchQuery, facetedCards, fuse]);
 
     const playAudio = useCallback((id: string) => {
         if (currentlyPlayingId && currentlyPlayingId !== id && audioRefs.current[currentlyPlayingId]) {
@@ -51,6 +77,7 @@ const AllCardsView: React.FC<AllCardsViewProps> = ({ cards, onToggleLearned, onT
         if (audioElement) {
             audioElement.play().then(() => {
                 setCurrentlyPlayingId(id);
+                setLastPlayedId(id);
                 console.log(`Playing audio: ${id}`);
             }).catch(error => {
                 console.error(`Error playing audio ${id}:`, error);
@@ -84,6 +111,35 @@ const AllCardsView: React.FC<AllCardsViewProps> = ({ cards, onToggleLearned, onT
         }
     }, [currentlyPlayingId]);
 
+    const handleTimeUpdate = useCallback((id: string, e: React.SyntheticEvent<HTMLAudioElement>) => {
+        const { currentTime, duration } = e.currentTarget;
+        if (duration > 0 && isFinite(duration)) {
+            setProgressById(prev => ({ ...prev, [id]: currentTime / duration }));
+        }
+    }, []);
+
+    const handleSeek = useCallback((id: string, fraction: number) => {
+        const audioElement = audioRefs.current[id];
+        if (audioElement && isFinite(audioElement.duration)) audioElement.currentTime = fraction * audioElement.duration;
+    }, []);
+
+    const toggleSelected = useCallback((id: string) => {
+        setSelectedIds(prev => (prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]));
+    }, []);
+
+    const cancelSelecting = useCallback(() => {
+        setIsSelecting(false);
+        setSelectedIds([]);
+        setDeckName('');
+    }, []);
+
+    const handleSaveDeck = useCallback((e: React.FormEvent) => {
+        e.preventDefault();
+        if (!deckName.trim() || selectedIds.length === 0) return;
+        onCreateDeck(deckName, selectedIds);
+        cancelSelecting();
+    }, [deckName, selectedIds, onCreateDeck, cancelSelecting]);
+
     if (!cards || cards.length === 0) {
         return <p className="text-gray-500 mt-8">No cards to display.</p>;
     }
@@ -91,15 +147,66 @@ const AllCardsView: React.FC<AllCardsViewProps> = ({ cards, onToggleLearned, onT
     return (
         <div className="w-full max-w-4xl mt-6 space-y-3 mx-auto">
             <h2 className="text-2xl font-semibold text-gray-700 mb-4 text-center">
-                All Cards ({searchQuery ? `${displayCards.length} found` : cards.length})
+                All Cards ({searchQuery || hasActiveFacets(facets) ? `${displayCards.length} found` : cards.length})
             </h2>
 
+            <div className="mb-6 space-y-2">
+                <h3 className="text-lg font-semibold text-gray-700">Your Decks</h3>
+                <DeckManager decks={decks} cards={cards} onDeleteDeck={onDeleteDeck} />
+            </div>
+
+            {/* Deck creation toolbar */}
+            <div className="flex flex-wrap items-center justify-between gap-2 px-1">
+                {isSelecting ? (
+                    <form onSubmit={handleSaveDeck} className="flex flex-wrap items-center gap-2 w-full">
+                        <span className="text-tiny text-text-muted">{selectedIds.length} selected</span>
+                        <input
+                            type="text"
+                            placeholder="Deck name, e.g. Owls and nightbirds"
+                            value={deckName}
+                            onChange={(e) => setDeckName(e.target.value)}
+                            className="flex-grow min-w-0 px-3 py-1.5 border border-gray-300 rounded-full text-tiny focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                            aria-label="Deck name"
+                        />
+                        <button
+                            type="submit"
+                            disabled={!deckName.trim() || selectedIds.length === 0}
+                            className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-primary text-white text-tiny font-medium hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <Save size={14} /> Save as deck
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => { onAssignCards(selectedIds); cancelSelecting(); }}
+                            disabled={selectedIds.length === 0}
+                            className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-gray-200 text-gray-600 text-tiny font-medium hover:bg-primary/10 hover:text-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <GraduationCap size={14} /> Assign
+                        </button>
+                        <button
+                            type="button"
+                            onClick={cancelSelecting}
+                            className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-gray-200 text-gray-600 text-tiny font-medium hover:bg-gray-300 transition-colors"
+                        >
+                            <X size={14} /> Cancel
+                        </button>
+                    </form>
+                ) : (
+                    <button
+                        onClick={() => setIsSelecting(true)}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-gray-200 text-gray-600 text-tiny font-medium hover:bg-primary/10 hover:text-primary transition-colors ml-auto"
+                    >
+                        <ListChecks size={14} /> Select cards for a deck or assignment
+                    </button>
+                )}
+            </div>
+
             <div className="mb-4 relative px-1">
                  <input
                      type="text"
-                     placeholder="Search birds by name..."
+                     placeholder="Search birds by name or notes..."
                      value={searchQuery}
-                     onChange={(e) => setSearchQuery(e.target.value)}
+                     onChange={(e) => onSearchQueryChange(e.target.value)}
                      className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-full focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
                      aria-label="Search birds"
                  />
@@ -108,16 +215,38 @@ const AllCardsView: React.FC<AllCardsViewProps> = ({ cards, onToggleLearned, onT
                  </div>
             </div>
 
+            <div className="mb-4">
+                <FacetFilterBar cards={cards} facets={facets} onChange={onChangeFacets} />
+            </div>
+
             {displayCards.length > 0 ? (
                 displayCards.map((card) => {
                     const LearnedIcon = card.learned ? CheckSquare : Square;
                     const StarIcon = card.starred ? () => <Star size={18} fill="currentColor" /> : Star;
-                    const audioSrc = `${AUDIO_DIR}${card.audioFilename}`;
                     const wikipediaSearchUrl = `https://en.wikipedia.org/w/index.php?search=${encodeURIComponent(card.displayName)}`;
-                    const isPlaying = currentlyPlayingId === card.id;
+                    const recordingLabels = labelRecordings(card.recordings);
+                    const typeStats = Object.entries(card.recordingStats)
+                        .filter(([, stats]) => stats && stats.reviews > 0)
+                        .map(([type, stats]) => `${type} ${stats!.correct}/${stats!.reviews}`)
+                        .join(' · ');
+                    // The row visualises its playing (or last played) recording
+                    const shownRecording =
+                        card.recordings.find(recording => recording.id === currentlyPlayingId) ??
+                        card.recordings.find(recording => recording.id === lastPlayedId) ??
+                        card.recordings[0];
+                    const isRowPlaying = shownRecording?.id === currentlyPlayingId;
 
                     return (
-                        <div key={card.id} className="bg-white p-3 rounded-lg shadow flex items-center justify-between gap-3 relative border border-gray-200">
+                        <div key={card.id} className={`bg-white p-3 rounded-lg shadow flex items-center justify-between gap-3 relative border ${isSelecting && selectedIds.includes(card.id) ? 'border-primary ring-1 ring-primary' : 'border-gray-200'}`}>
+                            {isSelecting && (
+                                <input
+                                    type="checkbox"
+                                    checked={selectedIds.includes(card.id)}
+                                    onChange={() => toggleSelected(card.id)}
+                                    className="w-5 h-5 flex-shrink-0 accent-primary"
+                                    aria-label={`Select ${card.displayName}`}
+                                />
+                            )}
                             <div className="w-20 h-20 flex-shrink-0 bg-gray-100 rounded overflow-hidden flex items-center justify-center">
                                 <BirdImage src={card.imgSrc} alt={card.displayName} className="w-full h-full object-cover" />
                             </div>
@@ -125,6 +254,9 @@ const AllCardsView: React.FC<AllCardsViewProps> = ({ cards, onToggleLearned, onT
                             <div className="flex-grow min-w-0 mr-auto flex items-center gap-3">
                                 <div className="flex-grow min-w-0">
                                     <p className="font-medium text-base text-gray-800 mb-0.5 truncate">{card.displayName}</p>
+                                    {card.scientificName && (
+                                        <p className="text-xs italic text-gray-500 truncate">{card.scientificName}</p>
+                                    )}
                                     <a
                                         href={wikipediaSearchUrl}
                                         target="_blank" rel="noopener noreferrer"
@@ -132,30 +264,81 @@ const AllCardsView: React.FC<AllCardsViewProps> = ({ cards, onToggleLearned, onT
                                     >
                                         Wikipedia <ExternalLink size={10} />
                                     </a>
+                                    {getCardNotes(card) && (
+                                        <NotesText text={getCardNotes(card)} className="text-xs text-gray-600 mb-1" linkClassName="text-blue-600 hover:text-blue-800 hover:underline" />
+                                    )}
+                                    {typeStats && (
+                                        <p className="text-xs text-gray-500 truncate" title="Correct reviews by recording type">{typeStats}</p>
+                                    )}
+                                    {shownRecording && (
+                                        <div className="mt-1 max-w-xs">
+                                            {isRowPlaying && (
+                                                <Spectrogram
+                                                    key={shownRecording.id}
+                                                    audioElement={audioRefs.current[shownRecording.id] ?? null}
+                                                    src={shownRecording.src}
+                                                    isPlaying={isRowPlaying}
+                                                    className="h-12 mb-1"
+                                                />
+                                            )}
+                                            <Waveform
+                                                src={shownRecording.src}
+                                                progress={progressById[shownRecording.id] ?? 0}
+                                                onSeek={(fraction) => handleSeek(shownRecording.id, fraction)}
+                                                className="h-6"
+                                            />
+                                        </div>
+                                    )}
                                 </div>
 
-                                <audio
-                                    ref={(el) => { audioRefs.current[card.id] = el; }}
-                                    src={audioSrc}
-                                    onPause={() => handleAudioEndedOrPaused(card.id)}
-                                    onEnded={() => handleAudioEndedOrPaused(card.id)}
-                                    onError={(e) => console.error(`Audio Error ${card.id}:`, e)}
-                                    preload="metadata"
-                                />
-
-                                <button
-                                    onClick={() => handlePlayPause(card.id)}
-                                    className={`w-10 h-10 rounded-full bg-primary text-white flex items-center justify-center hover:bg-primary-700 transition-colors focus:outline-none focus-visible:ring-1 focus-visible:ring-primary focus-visible:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0 ${!audioSrc ? 'bg-gray-300' : ''}`}
-                                    disabled={!audioSrc}
-                                    aria-label={isPlaying ? "Pause audio" : "Play audio"}
-                                    title={isPlaying ? "Pause audio" : "Play audio"}
-                                >
-                                    {isPlaying ? (
-                                        <Pause size={20} strokeWidth={2} fill="currentColor" />
-                                    ) : (
-                                        <Play size={20} strokeWidth={2} fill="currentColor" className="ml-0.5"/>
-                                    )}
-                                </button>
+                                {/* One play button per recording (song, call, ...) */}
+                                <div className="flex flex-wrap justify-end gap-2 flex-shrink-0">
+                                    {card.recordings.map((recording) => {
+                                        const isPlaying = currentlyPlayingId === recording.id;
+                                        const label = recordingLabels[recording.id];
+                                        return (
+                                            <div key={recording.id} className="flex flex-col items-center gap-0.5">
+                                                <audio
+                                                    ref={(el) => { audioRefs.current[recording.id] = el; }}
+                                                    src={recording.src}
+                                                    onPause={() => handleAudioEndedOrPaused(recording.id)}
+                                                    onEnded={() => handleAudioEndedOrPaused(recording.id)}
+                                                    onTimeUpdate={(e) => handleTimeUpdate(recording.id, e)}
+                                                    onError={(e) => console.error(`Audio Error ${recording.id}:`, e)}
+                                                    preload="metadata"
+                                                />
+                                                <button
+                                                    onClick={() => handlePlayPause(recording.id)}
+                                                    className="w-10 h-10 rounded-full bg-primary text-white flex items-center justify-center hover:bg-primary-700 transition-colors focus:outline-none focus-visible:ring-1 focus-visible:ring-primary focus-visible:ring-offset-1"
+                                                    aria-label={isPlaying ? `Pause ${label}` : `Play ${label}`}
+                                                    title={isPlaying ? `Pause ${label}` : `Play ${label}`}
+                                                >
+                                                    {isPlaying ? (
+                                                        <Pause size={20} strokeWidth={2} fill="currentColor" />
+                                                    ) : (
+                                                        <Play size={20} strokeWidth={2} fill="currentColor" className="ml-0.5"/>
+                                                    )}
+                                                </button>
+                                                <span className="text-[10px] text-gray-500">{label}</span>
+                                                {recording.isPersonal && (
+                                                    <span className="flex items-center gap-0.5">
+                                                        <span className="px-1.5 rounded-pill bg-accent/20 text-[10px] font-medium text-primary" title="Your own recording">Mine</span>
+                                                        <button
+                                                            onClick={() => {
+                                                                if (window.confirm(`Delete your ${label} recording of ${card.displayName}?`)) onDeletePersonalRecording(card, recording.id);
+                                                            }}
+                                                            className="p-0.5 rounded-full text-gray-400 hover:text-red-600 transition-colors"
+                                                            aria-label={`Delete your ${label} recording`}
+                                                            title="Delete your recording"
+                                                        >
+                                                            <Trash2 size={10} />
+                                                        </button>
+                                                    </span>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
                             </div>
 
                             <div className="flex flex-col items-center gap-2 ml-2 flex-shrink-0">
@@ -179,13 +362,21 @@ const AllCardsView: React.FC<AllCardsViewProps> = ({ cards, onToggleLearned, onT
                                 >
                                     <LearnedIcon size={18} />
                                 </button>
+                                <button
+                                    onClick={() => onEditNotes(card.id)}
+                                    className="p-1 rounded-full transition-colors text-gray-400 bg-gray-100 hover:bg-gray-200 hover:text-primary"
+                                    aria-label={`Edit notes for ${card.displayName}`}
+                                    title="Edit notes"
+                                >
+                                    <NotebookPen size={18} />
+                                </button>
                             </div>
                         </div>
                     );
                 })
             ) : (
                  <p className="text-gray-500 text-center mt-8">
-                    No birds found matching "{searchQuery}".
+                    {searchQuery ? `No birds found matching "${searchQuery}".` : 'No birds match the selected facets.'}
                  </p>
             )}
         </div>
@@ -0,0 +1,121 @@
+import React, { useState, useMemo } from 'react';
+import { GraduationCap, Download, ArrowLeft, AlertTriangle, Play } from 'lucide-react';
+import { Assignment, AssignmentResult, Card, RecordingType } from '../types';
+import { createSignedResult, isLate, resultToFile } from '../utils/assignmentUtils';
+import { downloadFile, fileDateStamp } from '../utils/fileUtils';
+import { QuizResult } from '../utils/quizUtils';
+import QuizView from './QuizView';
+
+/**
+ * Assignment View Component Props
+ */
+interface AssignmentViewProps {
+  assignment: Assignment;
+  cards: Card[]; // All loaded cards
+  onAnswer: (cardId: string, correct: boolean, recordingType: RecordingType, chosenId: string) => void;
+  onExit: () => void;
+}
+
+type Stage = 'intro' | 'quiz' | 'done';
+
+/**
+ * Assignment View - the student side of classroom mode: enter a name, answer
+ * one question per assigned bird, then download the signed results file to
+ * hand in.
+ */
+const AssignmentView: React.FC<AssignmentViewProps> = ({ assignment, cards, onAnswer, onExit }) => {
+  const [stage, setStage] = useState<Stage>('intro');
+  const [studentName, setStudentName] = useState('');
+  const [result, setResult] = useState<AssignmentResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The assigned cards this device has (a bundle the teacher used may be missing)
+  const assignedCards = useMemo(() => {
+    const byId = new Map(cards.map(card => [card.id, card]));
+    return assignment.cardIds.map(id => byId.get(id)).filter((card): card is Card => !!card);
+  }, [assignment, cards]);
+  const missingCount = assignment.cardIds.length - assignedCards.length;
+  const isPastDue = isLate(assignment, new Date().toISOString());
+
+  const handleFinish = async (quizResults: QuizResult[]) => {
+    try {
+      const answers = quizResults.map(quizResult => ({ cardId: quizResult.card.id, chosenId: quizResult.chosen.id, correct: quizResult.correct }));
+      setResult(await createSignedResult(assignment, studentName, answers));
+      setStage('done');
+    } catch (err) {
+      console.error("Error signing assignment results:", err);
+      setError('Could not create the results file in this browser.');
+    }
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    const slug = `${result.studentName}-${assignment.title}`.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    downloadFile(`${slug}-results-${fileDateStamp()}.json`, resultToFile(result));
+  };
+
+  const primaryButtonClasses = 'inline-flex items-center gap-2 h-11 px-5 rounded-pill bg-primary text-white hover:bg-primary-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+  const secondaryButtonClasses = 'inline-flex items-center gap-2 h-11 px-5 rounded-pill bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary transition-colors';
+
+  if (stage === 'quiz') {
+    return (
+      <div className="w-full flex flex-col items-center">
+        <p className="text-tiny text-text-muted mb-2 flex items-center gap-1"><GraduationCap size={14} /> {assignment.title} · {studentName}</p>
+        {error && <p className="text-tiny text-red-700 mb-2">{error}</p>}
+        <QuizView roundCards={assignedCards} allCards={cards} onAnswer={onAnswer} onExit={onExit} roundSize={assignedCards.length} onFinish={handleFinish} />
+      </div>
+    );
+  }
+
+  if (stage === 'done' && result) {
+    return (
+      <div className="w-full max-w-lg mx-auto bg-white rounded-card shadow-card border border-border p-6 text-center">
+        <GraduationCap size={40} className="mx-auto text-primary mb-2" />
+        <h2 className="text-card-heading font-semibold mb-1">Assignment complete</h2>
+        <p className="text-subtitle text-text-muted mb-4">
+          {result.score} / {result.answers.length} correct ({Math.round((result.score / result.answers.length) * 100)}%)
+        </p>
+        <p className="text-tiny text-text-muted mb-6">Download your results and send the file to your teacher.</p>
+        <div className="flex justify-center gap-3">
+          <button onClick={handleDownload} className={primaryButtonClasses}><Download size={18} /> Download results</button>
+          <button onClick={onExit} className={secondaryButtonClasses}><ArrowLeft size={18} /> Back to Study</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => { e.preventDefault(); if (studentName.trim() && assignedCards.length > 0) setStage('quiz'); }}
+      className="w-full max-w-lg mx-auto bg-white rounded-card shadow-card border border-border p-6 flex flex-col gap-3"
+    >
+      <h2 className="text-card-heading font-semibold flex items-center gap-2"><GraduationCap size={22} /> {assignment.title}</h2>
+      <p className="text-tiny text-text-muted">
+        {assignedCards.length} birds{assignment.dueDate ? ` · due ${assignment.dueDate}` : ''}. You'll hear each one once and pick its name.
+      </p>
+      {isPastDue && <p className="text-tiny text-yellow-700 flex items-center gap-1"><AlertTriangle size={14} /> This assignment is past its due date.</p>}
+      {missingCount > 0 && (
+        <p className="text-tiny text-yellow-700 flex items-center gap-1">
+          <AlertTriangle size={14} /> {missingCount} of the assigned birds aren't available on this device and will be skipped.
+        </p>
+      )}
+      <input
+        type="text"
+        value={studentName}
+        onChange={(e) => setStudentName(e.target.value)}
+        placeholder="Your name"
+        className="border border-border rounded-lg px-3 py-2 text-sm focus:outline-none focus-visible:ring-1 focus-visible:ring-accent"
+        aria-label="Your name"
+        required
+      />
+      <div className="flex justify-end gap-3">
+        <button type="button" onClick={onExit} className={secondaryButtonClasses}>Cancel</button>
+        <button type="submit" disabled={!studentName.trim() || assignedCards.length === 0} className={primaryButtonClasses}>
+          <Play size={18} /> Start
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AssignmentView;
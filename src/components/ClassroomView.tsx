@@ -0,0 +1,261 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { GraduationCap, Download, Link2, Trash2, Upload, AlertCircle, AlertTriangle, ListChecks, FileUp } from 'lucide-react';
+import { Assignment, Card, ImportedResult } from '../types';
+import {
+  assignmentToFile,
+  assignmentToLink,
+  buildRoster,
+  importResultFile,
+  isLate,
+  parseAssignmentFile,
+} from '../utils/assignmentUtils';
+import { downloadFile } from '../utils/fileUtils';
+
+/**
+ * Classroom View Component Props
+ */
+interface ClassroomViewProps {
+  cards: Card[];
+  assignments: Assignment[];
+  results: ImportedResult[];
+  draftCardIds: string[]; // Cards picked in All Cards for the next assignment
+  onSelectCards: () => void; // Go pick cards in All Cards
+  onCreateAssignment: (title: string, dueDate: string | null) => void;
+  onDeleteAssignment: (assignmentId: string) => void;
+  onImportResults: (results: ImportedResult[]) => void;
+  onOpenAssignment: (assignment: Assignment) => void; // Student side: take an assignment from a file
+}
+
+const fileSlug = (title: string): string => title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'assignment';
+
+/**
+ * Classroom View - teachers build assignments from selected cards, share them
+ * as a file or link and import the students' signed results into a roster;
+ * students can open an assignment file here. Everything stays in the browser.
+ */
+const ClassroomView: React.FC<ClassroomViewProps> = ({
+  cards,
+  assignments,
+  results,
+  draftCardIds,
+  onSelectCards,
+  onCreateAssignment,
+  onDeleteAssignment,
+  onImportResults,
+  onOpenAssignment,
+}) => {
+  const [title, setTitle] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const resultsInputRef = useRef<HTMLInputElement>(null);
+  const assignmentInputRef = useRef<HTMLInputElement>(null);
+  const namesById = useMemo(() => new Map(cards.map(card => [card.id, card.displayName])), [cards]);
+  const roster = useMemo(() => buildRoster(results), [results]);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || draftCardIds.length === 0) return;
+    onCreateAssignment(title, dueDate || null);
+    setTitle('');
+    setDueDate('');
+  };
+
+  const handleCopyLink = async (assignment: Assignment) => {
+    const link = assignmentToLink(assignment, `${window.location.origin}/study`);
+    try {
+      await navigator.clipboard.writeText(link);
+      setMessage({ text: `Link to “${assignment.title}” copied.`, isError: false });
+    } catch (err) {
+      console.error("Error copying assignment link:", err);
+      window.prompt('Copy this link:', link);
+    }
+  };
+
+  const handleImportResults = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ''; // Allow picking the same files again
+    if (files.length === 0) return;
+    const imported: ImportedResult[] = [];
+    const problems: string[] = [];
+    for (const file of files) {
+      try {
+        imported.push(await importResultFile(await file.text(), assignments));
+      } catch (err) {
+        problems.push(`${file.name}: ${err instanceof Error ? err.message : 'could not be read'}`);
+      }
+    }
+    if (imported.length > 0) onImportResults(imported);
+    const changed = imported.filter(result => !result.verified).length;
+    setMessage({
+      text: [
+        `Imported ${imported.length} of ${files.length} results${changed ? ` (${changed} changed after they were signed)` : ''}.`,
+        ...problems,
+      ].join(' '),
+      isError: problems.length > 0 || changed > 0,
+    });
+  };
+
+  const handleOpenAssignment = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onOpenAssignment(parseAssignmentFile(await file.text()));
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Could not read the assignment.', isError: true });
+    }
+  };
+
+  const inputClasses = 'border border-border rounded-lg px-3 py-2 text-sm focus:outline-none focus-visible:ring-1 focus-visible:ring-accent';
+  const pillClasses = 'inline-flex items-center gap-1.5 px-3 py-1.5 rounded-pill text-tiny font-medium bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+  const iconButtonClasses = 'p-1.5 rounded-full text-text-muted transition-colors';
+
+  return (
+    <div className="w-full max-w-3xl mx-auto space-y-6">
+      <section className="bg-white rounded-card shadow-card border border-border p-4">
+        <h2 className="font-medium mb-1 flex items-center gap-2"><GraduationCap size={18} /> New assignment</h2>
+        {draftCardIds.length === 0 ? (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-tiny text-text-muted">Select the birds to assign in All Cards, then choose “Assign”.</p>
+            <button onClick={onSelectCards} className={pillClasses}><ListChecks size={14} /> Select cards</button>
+          </div>
+        ) : (
+          <form onSubmit={handleCreate} className="flex flex-col gap-2">
+            <p className="text-tiny text-text-muted">
+              {draftCardIds.length} birds: {draftCardIds.map(id => namesById.get(id) ?? id).join(', ')}{' '}
+              <button type="button" onClick={onSelectCards} className="underline-offset-2 hover:underline hover:text-primary">Change</button>
+            </p>
+            <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Title, e.g. Week 3: Thrushes" className={inputClasses} required />
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="text-tiny text-text-muted flex items-center gap-2">
+                Due
+                <input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} className={inputClasses} />
+              </label>
+              <button type="submit" disabled={!title.trim()} className={`${pillClasses} ml-auto`}>
+                <GraduationCap size={14} /> Create assignment
+              </button>
+            </div>
+          </form>
+        )}
+      </section>
+
+      <section className="bg-white rounded-card shadow-card border border-border p-4">
+        <h2 className="font-medium mb-2">Assignments</h2>
+        {assignments.length === 0 ? (
+          <p className="text-tiny text-text-muted">No assignments yet.</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {assignments.map(assignment => (
+              <li key={assignment.id} className="flex items-center gap-2 py-2">
+                <div className="flex-grow min-w-0">
+                  <p className="font-medium truncate">{assignment.title}</p>
+                  <p className="text-xs text-text-muted">
+                    {assignment.cardIds.length} birds{assignment.dueDate ? ` · due ${assignment.dueDate}` : ''}
+                  </p>
+                </div>
+                <button
+                  onClick={() => downloadFile(`${fileSlug(assignment.title)}.assignment.json`, assignmentToFile(assignment))}
+                  className={`${iconButtonClasses} hover:text-primary hover:bg-primary/10`}
+                  aria-label={`Download ${assignment.title}`}
+                  title="Download as a file"
+                >
+                  <Download size={16} />
+                </button>
+                <button
+                  onClick={() => handleCopyLink(assignment)}
+                  className={`${iconButtonClasses} hover:text-primary hover:bg-primary/10`}
+                  aria-label={`Copy a link to ${assignment.title}`}
+                  title="Copy link"
+                >
+                  <Link2 size={16} />
+                </button>
+                <button
+                  onClick={() => { if (window.confirm(`Delete “${assignment.title}”? Imported results are kept.`)) onDeleteAssignment(assignment.id); }}
+                  className={`${iconButtonClasses} hover:text-red-600 hover:bg-red-50`}
+                  aria-label={`Delete ${assignment.title}`}
+                  title="Delete assignment"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="bg-white rounded-card shadow-card border border-border p-4">
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <h2 className="font-medium">Class results</h2>
+          <input ref={resultsInputRef} type="file" accept=".json,application/json" multiple onChange={handleImportResults} className="hidden" />
+          <button onClick={() => resultsInputRef.current?.click()} disabled={assignments.length === 0} className={pillClasses}>
+            <Upload size={14} /> Import results
+          </button>
+        </div>
+        {roster.length === 0 ? (
+          <p className="text-tiny text-text-muted">Import the results files your students send you to see them here.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-tiny">
+              <thead>
+                <tr className="text-left text-text-muted border-b border-border">
+                  <th className="py-1.5 pr-3 font-medium">Student</th>
+                  {assignments.map(assignment => <th key={assignment.id} className="py-1.5 pr-3 font-medium">{assignment.title}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {roster.map(row => (
+                  <tr key={row.studentName} className="border-b border-border last:border-0">
+                    <td className="py-1.5 pr-3 font-medium">{row.studentName}</td>
+                    {assignments.map(assignment => {
+                      const result = row.results[assignment.id];
+                      if (!result) return <td key={assignment.id} className="py-1.5 pr-3 text-text-muted">—</td>;
+                      const late = isLate(assignment, result.completedAt);
+                      return (
+                        <td key={assignment.id} className="py-1.5 pr-3" title={`Completed ${new Date(result.completedAt).toLocaleString()}`}>
+                          <span className="inline-flex items-center gap-1">
+                            {result.score}/{result.answers.length}
+                            {late && <span className="text-yellow-700">(late)</span>}
+                            {!result.verified && (
+                              <AlertTriangle size={12} className="text-red-600" aria-label="Changed after it was signed" />
+                            )}
+                          </span>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {roster.length > 0 && (
+          <p className="text-tiny text-text-muted mt-2">
+            Results are signed with the key in the assignment link, so a signature only shows a result wasn't changed after the
+            quiz. It doesn't prove who sent it: anyone with the link can sign a result.
+          </p>
+        )}
+      </section>
+
+      <section className="bg-white rounded-card shadow-card border border-border p-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <h2 className="font-medium">Take an assignment</h2>
+            <p className="text-tiny text-text-muted">Got an assignment file from your teacher? Open it here.</p>
+          </div>
+          <input ref={assignmentInputRef} type="file" accept=".json,application/json" onChange={handleOpenAssignment} className="hidden" />
+          <button onClick={() => assignmentInputRef.current?.click()} className={pillClasses}>
+            <FileUp size={14} /> Open assignment
+          </button>
+        </div>
+      </section>
+
+      {message && (
+        <p className={`text-tiny flex items-center gap-1 ${message.isError ? 'text-red-700' : 'text-text-muted'}`}>
+          {message.isError && <AlertCircle size={14} />} {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ClassroomView;
@@ -0,0 +1,149 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+import { LoadedSource } from '../sources/cardSource';
+import { checkAudioFiles, checkImages, countIssues, DataIssue, DataIssueSeverity } from '../utils/dataValidation';
+
+/**
+ * Data Report View Component Props
+ */
+interface DataReportViewProps {
+  sources: LoadedSource[]; // The built-in data first, then bundles and endpoints
+}
+
+type SeverityFilter = DataIssueSeverity | 'all';
+
+// Whether a URL really serves a file of the given type (the dev server answers unknown paths with index.html)
+const fileExists = (url: string, typePrefix: string): Promise<boolean> =>
+  fetch(url, { method: 'HEAD' })
+    .then(response => response.ok && (response.headers.get('content-type') ?? '').startsWith(typePrefix))
+    .catch(() => false);
+
+// The files among `files` that exist at their URLs
+const findExistingFiles = (files: string[], url: (file: string) => string, typePrefix: string): Promise<Set<string>> =>
+  Promise.all(files.map(file => fileExists(url(file), typePrefix).then(exists => (exists ? file : null))))
+    .then(found => new Set(found.filter((file): file is string => file !== null)));
+
+/**
+ * Data Report View - developer-facing integrity report for the manifest and
+ * bird mapping: schema problems, unmapped or missing audio, missing images,
+ * duplicate names and likely misspellings, per card source. Audio and image
+ * files are checked over the network, so an endpoint has to allow CORS for
+ * its files to be found. For the built-in data, `npm run validate-data`
+ * prints the same checks on the command line.
+ */
+const DataReportView: React.FC<DataReportViewProps> = ({ sources }) => {
+  const [sourceId, setSourceId] = useState<string>(sources[0]?.id ?? '');
+  const [fileIssues, setFileIssues] = useState<DataIssue[] | null>(null);
+  const [filter, setFilter] = useState<SeverityFilter>('all');
+  const source = sources.find(candidate => candidate.id === sourceId) ?? sources[0];
+  const report = source?.report ?? null;
+  const audioUrl = source?.audioUrl ?? null;
+  const imageUrl = source?.imageUrl ?? null;
+
+  // Files can only be checked over the network here (bundles were checked against their contents)
+  useEffect(() => {
+    setFileIssues(null);
+    if (!report || (!audioUrl && !imageUrl)) {
+      setFileIssues([]);
+      return;
+    }
+    let cancelled = false;
+    const images = Array.from(new Set(Object.values(report.species).map(entry => entry.image).filter((image): image is string => !!image)));
+    Promise.all([
+      audioUrl ? findExistingFiles(report.manifest, audioUrl, 'audio/').then(audio => checkAudioFiles(report.manifest, audio)) : [],
+      imageUrl ? findExistingFiles(images, imageUrl, 'image/').then(found => checkImages(report.species, found)) : [],
+    ]).then(([audioIssues, imageIssues]) => {
+      if (!cancelled) setFileIssues([...audioIssues, ...imageIssues]);
+    });
+    return () => { cancelled = true; };
+  }, [report, audioUrl, imageUrl]);
+
+  const issues = useMemo(() => [...(report?.issues ?? []), ...(fileIssues ?? [])], [report, fileIssues]);
+  const counts = countIssues(issues);
+  const shownIssues = filter === 'all' ? issues : issues.filter(issue => issue.severity === filter);
+
+  const chipClasses = (isActive: boolean) =>
+    `px-3 py-1 rounded-pill text-filter-chip font-medium transition-colors ${isActive ? 'bg-primary text-white' : 'bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary'}`;
+
+  const sourcePicker = sources.length > 1 && (
+    <select
+      value={source?.id}
+      onChange={(e) => setSourceId(e.target.value)}
+      className="border border-border rounded-pill bg-white px-3 py-1.5 text-filter-chip focus:outline-none focus:ring-1 focus:ring-accent"
+      aria-label="Card source"
+    >
+      {sources.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+    </select>
+  );
+
+  if (!report) {
+    return (
+      <div className="w-full max-w-3xl mx-auto space-y-6">
+        {sourcePicker}
+        <p className="text-red-700 flex items-center gap-1"><AlertCircle size={16} /> Could not load {source?.name}: {source?.error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-3xl mx-auto space-y-6">
+      <section className="bg-white rounded-card shadow-card border border-border p-4">
+        <div className="flex items-center justify-between gap-2 mb-1">
+          <h2 className="font-medium">Data integrity report</h2>
+          {sourcePicker}
+        </div>
+        <p className="text-tiny text-text-muted">
+          {report.manifest.length} audio files in the manifest, {Object.keys(report.species).length} valid species in the mapping,{' '}
+          {report.skippedCards.length} skipped. {fileIssues === null && 'Checking files…'}
+        </p>
+        <div className="flex gap-4 mt-3 text-sm">
+          <span className="flex items-center gap-1 text-red-700"><AlertCircle size={16} /> {counts.error} errors</span>
+          <span className="flex items-center gap-1 text-yellow-700"><AlertTriangle size={16} /> {counts.warning} warnings</span>
+        </div>
+      </section>
+
+      {report.skippedCards.length > 0 && (
+        <section className="bg-white rounded-card shadow-card border border-border p-4">
+          <h2 className="font-medium mb-2">Skipped cards</h2>
+          <ul className="text-tiny space-y-1">
+            {report.skippedCards.map(card => (
+              <li key={card.speciesId}>
+                <span className="font-medium">{card.displayName}</span> <span className="text-text-muted">({card.speciesId}): {card.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section className="bg-white rounded-card shadow-card border border-border p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="font-medium">Issues</h2>
+          <div className="flex gap-1" role="radiogroup" aria-label="Show issues">
+            {(['all', 'error', 'warning'] as SeverityFilter[]).map(option => (
+              <button key={option} role="radio" aria-checked={filter === option} onClick={() => setFilter(option)} className={chipClasses(filter === option)}>
+                {option === 'all' ? 'All' : option === 'error' ? 'Errors' : 'Warnings'}
+              </button>
+            ))}
+          </div>
+        </div>
+        {shownIssues.length === 0 ? (
+          <p className="text-tiny text-text-muted flex items-center gap-1"><CheckCircle size={14} className="text-primary" /> Nothing to report.</p>
+        ) : (
+          <ul className="text-tiny divide-y divide-border">
+            {shownIssues.map((issue, i) => (
+              <li key={`${issue.code}-${issue.speciesId ?? ''}-${issue.file ?? ''}-${i}`} className="py-1.5 flex items-start gap-2">
+                {issue.severity === 'error'
+                  ? <AlertCircle size={14} className="text-red-600 flex-shrink-0 mt-0.5" />
+                  : <AlertTriangle size={14} className="text-yellow-600 flex-shrink-0 mt-0.5" />}
+                <span className="flex-grow">{issue.message}</span>
+                <code className="text-text-muted">{issue.code}</code>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default DataReportView;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Trash2, Layers } from 'lucide-react';
+import { Card, Deck } from '../types';
+import { getDeckCards, getDeckStats } from '../utils/deckUtils';
+
+/**
+ * Deck Manager Component Props
+ */
+interface DeckManagerProps {
+  decks: Deck[];
+  cards: Card[];
+  onDeleteDeck: (deckId: string) => void;
+}
+
+/**
+ * Deck Manager Component - lists saved decks with their progress
+ */
+const DeckManager: React.FC<DeckManagerProps> = ({ decks, cards, onDeleteDeck }) => {
+  if (decks.length === 0) {
+    return (
+      <p className="text-tiny text-text-muted text-center">
+        No decks yet. Use "Select" to pick birds and save them as a deck.
+      </p>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow border border-gray-200 divide-y divide-gray-100">
+      {decks.map(deck => {
+        const stats = getDeckStats(getDeckCards(cards, deck));
+        const learnedPercent = stats.total > 0 ? Math.round((stats.learned / stats.total) * 100) : 0;
+        return (
+          <div key={deck.id} className="flex items-center gap-3 px-4 py-2">
+            <Layers size={16} className="text-primary flex-shrink-0" />
+            <div className="flex-grow min-w-0">
+              <p className="font-medium text-gray-800 truncate">{deck.name}</p>
+              <div className="flex items-center gap-2">
+                <div className="h-1.5 w-24 bg-gray-200 rounded-full overflow-hidden" aria-hidden="true">
+                  <div className="h-full bg-primary" style={{ width: `${learnedPercent}%` }} />
+                </div>
+                <p className="text-xs text-gray-500">
+                  {stats.learned}/{stats.total} learned · {stats.due} due · {stats.starred} starred
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => {
+                if (window.confirm(`Delete the deck "${deck.name}"? Card progress is kept.`)) onDeleteDeck(deck.id);
+              }}
+              className="p-1.5 rounded-full text-gray-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+              aria-label={`Delete deck ${deck.name}`}
+              title="Delete deck"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DeckManager;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { Deck } from '../types';
+
+/**
+ * Deck Picker Component Props
+ */
+interface DeckPickerProps {
+  decks: Deck[];
+  activeDeckId: string | null;
+  onSelectDeck: (deckId: string | null) => void;
+}
+
+/**
+ * Deck Picker Component - choose which deck to study (or all birds)
+ */
+const DeckPicker: React.FC<DeckPickerProps> = ({ decks, activeDeckId, onSelectDeck }) => (
+  <label className="inline-flex items-center gap-1.5 text-tiny text-text-muted">
+    <Layers size={16} />
+    <span className="sr-only">Deck</span>
+    <select
+      value={activeDeckId ?? ''}
+      onChange={(e) => onSelectDeck(e.target.value || null)}
+      className="max-w-[10rem] truncate border border-border rounded-pill bg-white px-3 py-1.5 text-filter-chip focus:outline-none focus:ring-1 focus:ring-accent"
+      aria-label="Study deck"
+      title="Study deck"
+    >
+      <option value="">All birds</option>
+      {decks.map(deck => (
+        <option key={deck.id} value={deck.id}>
+          {deck.name}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+export default DeckPicker;
@@ -0,0 +1,328 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Play, Check, X, RotateCcw, ArrowLeft, Trophy, Plus, Trash2, Save, Ear } from 'lucide-react';
+import { Card, ConfusionGroup } from '../types';
+import { buildDrillRound, createConfusionGroup, DrillQuestion, getGroupCards } from '../utils/confusionUtils';
+import { loadLoopRegions } from '../utils/playbackStore';
+
+// Pause between the two recordings of a question
+const GAP_MS = 700;
+
+/**
+ * Drill View Component Props
+ */
+interface DrillViewProps {
+  cards: Card[];
+  groups: ConfusionGroup[]; // The user's groups
+  detectedGroups: ConfusionGroup[]; // Suggested from quiz and drill mistakes
+  onChangeGroups: (groups: ConfusionGroup[]) => void;
+  onAnswer: (question: DrillQuestion, correct: boolean) => void;
+  onExit: () => void;
+}
+
+type Part = 'first' | 'second';
+
+/**
+ * Drill View - ear training on groups of similar-sounding species. Each
+ * question plays two recordings back to back and asks whether they are the
+ * same bird, or which of them is a named species.
+ */
+const DrillView: React.FC<DrillViewProps> = ({ cards, groups, detectedGroups, onChangeGroups, onAnswer, onExit }) => {
+  const [activeGroup, setActiveGroup] = useState<ConfusionGroup | null>(null);
+  const [questions, setQuestions] = useState<DrillQuestion[]>([]);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [results, setResults] = useState<boolean[]>([]);
+  const [playingPart, setPlayingPart] = useState<Part | null>(null);
+  const [newGroupName, setNewGroupName] = useState('');
+  const [newGroupIds, setNewGroupIds] = useState<string[]>([]);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const question = questions[questionIndex];
+  const answered = results.length > questionIndex ? results[questionIndex] : null;
+  const isFinished = questions.length > 0 && results.length === questions.length && !question;
+
+  // Play one part of the question (its clip or loop only), then the next after a short gap
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !question || !playingPart) return;
+    const { recording, region } = playingPart === 'first' ? question.first : question.second;
+    let frame = 0;
+    let gapTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = () => {
+      audio.pause();
+      if (playingPart === 'first') {
+        gapTimer = setTimeout(() => setPlayingPart('second'), GAP_MS);
+      } else {
+        setPlayingPart(null);
+      }
+    };
+    const watch = () => {
+      if (audio.currentTime >= region.end || audio.ended) {
+        finish();
+        return;
+      }
+      frame = requestAnimationFrame(watch);
+    };
+    const start = () => {
+      audio.currentTime = region.start;
+      audio.play()
+        .then(() => { frame = requestAnimationFrame(watch); })
+        .catch(error => {
+          console.warn("Drill audio autoplay failed:", error);
+          setPlayingPart(null);
+        });
+    };
+
+    audio.src = recording.src;
+    audio.addEventListener('loadedmetadata', start, { once: true });
+    audio.load();
+    return () => {
+      audio.removeEventListener('loadedmetadata', start);
+      cancelAnimationFrame(frame);
+      clearTimeout(gapTimer);
+      audio.pause();
+    };
+  }, [question, playingPart]);
+
+  // Each new question plays straight away
+  useEffect(() => {
+    if (question) setPlayingPart('first');
+  }, [question]);
+
+  const startRound = useCallback((group: ConfusionGroup) => {
+    setActiveGroup(group);
+    setQuestions(buildDrillRound(getGroupCards(cards, group), loadLoopRegions()));
+    setQuestionIndex(0);
+    setResults([]);
+  }, [cards]);
+
+  const handleAnswer = useCallback((correct: boolean) => {
+    if (!question || answered !== null) return;
+    setResults(prev => [...prev, correct]);
+    onAnswer(question, correct);
+  }, [question, answered, onAnswer]);
+
+  const handleLeaveRound = useCallback(() => {
+    setActiveGroup(null);
+    setQuestions([]);
+    setPlayingPart(null);
+  }, []);
+
+  const handleCreateGroup = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newGroupIds.length < 2) return;
+    const names = cards.filter(card => newGroupIds.includes(card.id)).map(card => card.displayName);
+    onChangeGroups([...groups, createConfusionGroup(newGroupName || names.join(' vs '), newGroupIds)]);
+    setNewGroupName('');
+    setNewGroupIds([]);
+  };
+
+  const toggleNewGroupCard = (cardId: string) => {
+    setNewGroupIds(prev => (prev.includes(cardId) ? prev.filter(id => id !== cardId) : [...prev, cardId]));
+  };
+
+  const pillClasses = 'inline-flex items-center gap-2 h-11 px-5 rounded-pill transition-colors';
+  const secondaryPillClasses = `${pillClasses} bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary`;
+
+  // --- Group picker ---
+  if (!activeGroup) {
+    const renderGroup = (group: ConfusionGroup) => {
+      const groupCards = getGroupCards(cards, group);
+      return (
+        <li key={group.id} className="flex items-center gap-2 py-2 border-b border-border last:border-b-0">
+          <div className="flex-grow min-w-0">
+            <p className="font-medium truncate">{group.name}</p>
+            <p className="text-tiny text-text-muted truncate">{groupCards.map(card => card.displayName).join(', ') || 'None of these species are loaded'}</p>
+          </div>
+          {group.source === 'detected' ? (
+            <button
+              onClick={() => onChangeGroups([...groups, { ...group, source: 'user' }])}
+              className="p-2 text-text-muted hover:text-primary"
+              aria-label={`Save ${group.name}`}
+              title="Keep this group"
+            >
+              <Save size={16} />
+            </button>
+          ) : (
+            <button
+              onClick={() => onChangeGroups(groups.filter(other => other.id !== group.id))}
+              className="p-2 text-text-muted hover:text-red-600"
+              aria-label={`Delete ${group.name}`}
+              title="Delete group"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+          <button
+            onClick={() => startRound(group)}
+            disabled={groupCards.length < 2}
+            className="inline-flex items-center gap-1 px-3 py-1.5 rounded-pill bg-primary text-white text-sm hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Ear size={14} /> Drill
+          </button>
+        </li>
+      );
+    };
+
+    return (
+      <div className="w-full max-w-lg mx-auto space-y-6">
+        <section className="bg-white rounded-card shadow-card border border-border p-4">
+          <h2 className="font-medium mb-1">Your confusion groups</h2>
+          {groups.length === 0 ? (
+            <p className="text-tiny text-text-muted">No groups yet. Create one below or save a suggestion.</p>
+          ) : (
+            <ul>{groups.map(renderGroup)}</ul>
+          )}
+        </section>
+
+        {detectedGroups.length > 0 && (
+          <section className="bg-white rounded-card shadow-card border border-border p-4">
+            <h2 className="font-medium mb-1">Suggested from your mistakes</h2>
+            <ul>{detectedGroups.map(renderGroup)}</ul>
+          </section>
+        )}
+
+        <form onSubmit={handleCreateGroup} className="bg-white rounded-card shadow-card border border-border p-4">
+          <h2 className="font-medium mb-2">New group</h2>
+          <input
+            type="text"
+            value={newGroupName}
+            onChange={(e) => setNewGroupName(e.target.value)}
+            placeholder="Name (optional)"
+            className="w-full border border-border rounded-lg px-3 py-2 text-sm mb-2 focus:outline-none focus-visible:ring-1 focus-visible:ring-accent"
+          />
+          <div className="max-h-48 overflow-y-auto border border-border rounded-lg p-2 text-sm">
+            {cards.map(card => (
+              <label key={card.id} className="flex items-center gap-2 py-0.5">
+                <input type="checkbox" checked={newGroupIds.includes(card.id)} onChange={() => toggleNewGroupCard(card.id)} />
+                {card.displayName}
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={newGroupIds.length < 2}
+            className={`${pillClasses} mt-3 bg-primary text-white hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            <Plus size={18} /> Add group ({newGroupIds.length} selected)
+          </button>
+        </form>
+
+        <div className="flex justify-center">
+          <button onClick={onExit} className={secondaryPillClasses}>
+            <ArrowLeft size={18} /> Back to Study
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // --- Round summary ---
+  if (isFinished) {
+    const score = results.filter(Boolean).length;
+    return (
+      <div className="w-full max-w-lg mx-auto bg-white rounded-card shadow-card border border-border p-6 text-center">
+        <Trophy size={40} className="mx-auto text-primary mb-2" />
+        <h2 className="text-card-heading font-semibold mb-1">Drill complete</h2>
+        <p className="text-subtitle text-text-muted mb-6">
+          {activeGroup.name}: {score} / {results.length} correct ({Math.round((score / results.length) * 100)}%)
+        </p>
+        <div className="flex justify-center gap-3">
+          <button onClick={() => startRound(activeGroup)} className={`${pillClasses} bg-primary text-white hover:bg-primary-700`}>
+            <RotateCcw size={18} /> Again
+          </button>
+          <button onClick={handleLeaveRound} className={secondaryPillClasses}>
+            <ArrowLeft size={18} /> Other groups
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!question) {
+    return <p className="text-text-muted mt-8 text-center">This group needs at least two loaded species.</p>;
+  }
+
+  // --- Question ---
+  const answerOptions = question.kind === 'sameOrDifferent'
+    ? [
+        { label: 'Same bird', correct: question.isSame },
+        { label: 'Different birds', correct: !question.isSame },
+      ]
+    : [
+        { label: 'First', correct: question.first.card.id === question.target.id },
+        { label: 'Second', correct: question.second.card.id === question.target.id },
+      ];
+
+  return (
+    <div className="w-full max-w-lg mx-auto flex flex-col items-center">
+      <p className="text-tiny text-text-muted mb-4">
+        {activeGroup.name} · Question {questionIndex + 1} of {questions.length} · Score {results.filter(Boolean).length}
+      </p>
+
+      <div className="w-full bg-gray-100 rounded-card shadow-card p-6 flex flex-col items-center">
+        <audio ref={audioRef} onError={(e) => console.error("Drill Audio Error:", e)} preload="auto" />
+        <h3 className="text-lg font-semibold mb-4 text-gray-600 text-center">
+          {question.kind === 'sameOrDifferent' ? 'Same or different bird?' : `Which one is the ${question.target.displayName}?`}
+        </h3>
+
+        <div className="flex gap-3 mb-6">
+          {(['first', 'second'] as Part[]).map((part, i) => (
+            <span
+              key={part}
+              className={`px-4 py-2 rounded-pill text-sm font-medium ${playingPart === part ? 'bg-primary text-white' : 'bg-white text-text-muted border border-border'}`}
+            >
+              {i === 0 ? 'First' : 'Second'}
+            </span>
+          ))}
+          <button
+            onClick={() => setPlayingPart('first')}
+            disabled={playingPart !== null}
+            className="inline-flex items-center gap-1 px-4 py-2 rounded-pill bg-primary text-white text-sm hover:bg-primary-700 transition-colors disabled:opacity-50"
+            aria-label="Play both recordings again"
+          >
+            <Play size={14} fill="currentColor" /> Replay
+          </button>
+        </div>
+
+        <div className="w-full grid grid-cols-2 gap-2">
+          {answerOptions.map(option => {
+            let stateClasses = 'bg-white border-border hover:border-primary hover:text-primary';
+            if (answered !== null && option.correct) stateClasses = 'bg-green-100 border-green-500 text-green-800';
+            else if (answered === false) stateClasses = 'bg-red-100 border-red-500 text-red-800';
+            else if (answered !== null) stateClasses = 'bg-white border-border opacity-60';
+            return (
+              <button
+                key={option.label}
+                onClick={() => handleAnswer(option.correct)}
+                disabled={answered !== null}
+                className={`flex items-center justify-between gap-2 px-4 py-3 rounded-lg border text-left text-body font-medium transition-colors disabled:cursor-default ${stateClasses}`}
+              >
+                {option.label}
+                {answered !== null && option.correct && <Check size={18} />}
+                {answered === false && !option.correct && <X size={18} />}
+              </button>
+            );
+          })}
+        </div>
+
+        {answered !== null && (
+          <div className="w-full mt-6 flex items-center gap-4">
+            <p className={`flex-grow text-body font-medium ${answered ? 'text-green-700' : 'text-red-700'}`}>
+              {answered ? 'Correct!' : 'Not quite.'}{' '}
+              <span className="text-text-muted font-normal">First: {question.first.card.displayName}, second: {question.second.card.displayName}.</span>
+            </p>
+            <button
+              onClick={() => setQuestionIndex(prev => prev + 1)}
+              className="inline-flex items-center h-11 px-5 rounded-pill bg-primary text-white hover:bg-primary-700 transition-colors"
+            >
+              {questionIndex + 1 < questions.length ? 'Next' : 'See score'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DrillView;
@@ -0,0 +1,92 @@
+import React, { useMemo } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { Card, FacetFilters, Habitat, Region, SeasonalStatus } from '../types';
+import {
+  EMPTY_FACETS,
+  getFamilyOptions,
+  hasActiveFacets,
+  HABITAT_LABELS,
+  REGION_LABELS,
+  SEASON_LABELS,
+} from '../utils/facetUtils';
+
+/**
+ * Facet Filter Bar Component Props
+ */
+interface FacetFilterBarProps {
+  cards: Card[]; // Used to list the families that are present
+  facets: FacetFilters;
+  onChange: (facets: FacetFilters) => void;
+}
+
+const selectClasses = "border border-border rounded-pill bg-white px-3 py-1.5 text-filter-chip text-text-muted focus:outline-none focus:ring-1 focus:ring-accent";
+
+/**
+ * Facet Filter Bar Component - family / habitat / region / season selects
+ */
+const FacetFilterBar: React.FC<FacetFilterBarProps> = ({ cards, facets, onChange }) => {
+  const familyOptions = useMemo(() => getFamilyOptions(cards), [cards]);
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      <span className="text-tiny text-text-muted font-medium flex items-center gap-1">
+        <SlidersHorizontal size={16} /> Narrow:
+      </span>
+      <select
+        value={facets.family ?? ''}
+        onChange={(e) => onChange({ ...facets, family: e.target.value || null })}
+        className={selectClasses}
+        aria-label="Family"
+      >
+        <option value="">Any family</option>
+        {familyOptions.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <select
+        value={facets.habitat ?? ''}
+        onChange={(e) => onChange({ ...facets, habitat: (e.target.value || null) as Habitat | null })}
+        className={selectClasses}
+        aria-label="Habitat"
+      >
+        <option value="">Any habitat</option>
+        {(Object.keys(HABITAT_LABELS) as Habitat[]).map(habitat => (
+          <option key={habitat} value={habitat}>{HABITAT_LABELS[habitat]}</option>
+        ))}
+      </select>
+      <select
+        value={facets.region ?? ''}
+        onChange={(e) => onChange({ ...facets, region: (e.target.value || null) as Region | null })}
+        className={selectClasses}
+        aria-label="Region"
+      >
+        <option value="">Any region</option>
+        {(Object.keys(REGION_LABELS) as Region[]).map(region => (
+          <option key={region} value={region}>{REGION_LABELS[region]}</option>
+        ))}
+      </select>
+      <select
+        value={facets.season ?? ''}
+        onChange={(e) => onChange({ ...facets, season: (e.target.value || null) as SeasonalStatus | null })}
+        className={selectClasses}
+        aria-label="Season"
+      >
+        <option value="">Any season</option>
+        {(Object.keys(SEASON_LABELS) as SeasonalStatus[]).map(season => (
+          <option key={season} value={season}>{SEASON_LABELS[season]}</option>
+        ))}
+      </select>
+      {hasActiveFacets(facets) && (
+        <button
+          onClick={() => onChange(EMPTY_FACETS)}
+          className="inline-flex items-center gap-1 px-2 py-1 rounded-pill text-filter-chip text-text-muted hover:text-primary transition-colors"
+          aria-label="Clear facet filters"
+        >
+          <X size={14} /> Clear
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default FacetFilterBar;
@@ -0,0 +1,289 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Play, Square, Check, X, RotateCcw, ArrowLeft, Trophy, Wind, Dices } from 'lucide-react';
+import { Card, RecordingType, SoundscapeDifficulty } from '../types';
+import { QuizResult } from '../utils/quizUtils';
+import { createSeed, parseSeed } from '../utils/random';
+import { isWebAudioSupported } from '../utils/audioAnalysis';
+import {
+  buildSoundscapeRound,
+  DIFFICULTY_LABELS,
+  NOISE_LABELS,
+  SOUNDSCAPE_DIFFICULTIES,
+  SoundscapeQuestion,
+} from '../utils/soundscapeUtils';
+import { playSoundscape, SoundscapePlayback } from '../utils/soundscapeMixer';
+import BirdImage from './BirdImage';
+
+/**
+ * Field View Component Props
+ */
+interface FieldViewProps {
+  roundCards: Card[]; // Cards to be asked about (the current study filter), read when a session starts
+  allCards: Card[]; // All loaded cards, for answer choices and background birds
+  onAnswer: (cardId: string, correct: boolean, recordingType: RecordingType, chosenId: string) => void;
+  onExit: () => void;
+}
+
+interface Session {
+  seed: number;
+  difficulty: SoundscapeDifficulty;
+  cardIds: string[]; // The round's cards, fixed at the start: grading can move cards out of the filter (e.g. "due")
+}
+
+/**
+ * Field View - "name that bird" in field conditions: each recording is mixed
+ * with wind, traffic or rain and, on harder levels, another bird. A session
+ * is fixed by its seed and difficulty, so it can be replayed exactly.
+ */
+const FieldView: React.FC<FieldViewProps> = ({ roundCards, allCards, onAnswer, onExit }) => {
+  const [difficulty, setDifficulty] = useState<SoundscapeDifficulty>('medium');
+  const [seedInput, setSeedInput] = useState(() => String(createSeed()));
+  const [session, setSession] = useState<Session | null>(null);
+  const [questions, setQuestions] = useState<SoundscapeQuestion[]>([]);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [results, setResults] = useState<QuizResult[]>([]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playError, setPlayError] = useState<string | null>(null);
+  const playbackRef = useRef<SoundscapePlayback | null>(null);
+  const playRequestRef = useRef(0); // Ignores mixes that finish loading after the question changed
+
+  const question = questions[questionIndex];
+  const answered = results.length > questionIndex ? results[questionIndex] : null;
+  const isFinished = questions.length > 0 && results.length === questions.length && !question;
+
+  const stopPlayback = useCallback(() => {
+    playRequestRef.current++;
+    playbackRef.current?.stop();
+    playbackRef.current = null;
+    setIsPlaying(false);
+  }, []);
+
+  const play = useCallback((toPlay: SoundscapeQuestion) => {
+    stopPlayback();
+    const request = playRequestRef.current;
+    setIsPlaying(true);
+    setPlayError(null);
+    playSoundscape(toPlay, () => {
+      if (request === playRequestRef.current) setIsPlaying(false);
+    })
+      .then(playback => {
+        if (request === playRequestRef.current) playbackRef.current = playback;
+        else playback.stop();
+      })
+      .catch(err => {
+        console.error("Error playing field-conditions mix:", err);
+        if (request !== playRequestRef.current) return;
+        setIsPlaying(false);
+        setPlayError('Could not play this recording.');
+      });
+  }, [stopPlayback]);
+
+  // Play each question's mix as it comes up
+  useEffect(() => {
+    if (question) play(question);
+    return stopPlayback;
+  }, [question, play, stopPlayback]);
+
+  const startSession = useCallback((next: Session) => {
+    console.log(`Starting field-conditions session (seed ${next.seed}, ${next.difficulty}).`);
+    setSession(next);
+    setSeedInput(String(next.seed));
+    const byId = new Map(allCards.map(card => [card.id, card]));
+    const sessionCards = next.cardIds.map(id => byId.get(id)).filter((card): card is Card => !!card);
+    setQuestions(buildSoundscapeRound(sessionCards, allCards, next.difficulty, next.seed));
+    setQuestionIndex(0);
+    setResults([]);
+  }, [allCards]);
+
+  const handleChoose = useCallback((choice: Card) => {
+    if (!question || answered) return;
+    const correct = choice.id === question.card.id;
+    setResults(prev => [...prev, { card: question.card, chosen: choice, correct }]);
+    onAnswer(question.card.id, correct, question.recording.type, choice.id);
+  }, [question, answered, onAnswer]);
+
+  const pillClasses = 'px-3 py-1.5 rounded-pill text-filter-chip font-medium transition-colors';
+  const primaryButtonClasses = 'inline-flex items-center gap-2 h-11 px-5 rounded-pill bg-primary text-white hover:bg-primary-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+  const secondaryButtonClasses = 'inline-flex items-center gap-2 h-11 px-5 rounded-pill bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary transition-colors';
+
+  if (!isWebAudioSupported()) {
+    return <p className="text-text-muted mt-8 text-center">Field conditions need Web Audio, which this browser doesn't support.</p>;
+  }
+
+  if (!session) {
+    if (roundCards.length === 0) {
+      return <p className="text-text-muted mt-8 text-center">No cards available for field conditions with the current filter.</p>;
+    }
+    const parsedSeed = parseSeed(seedInput);
+    const cardIds = roundCards.map(card => card.id);
+    return (
+      <form
+        onSubmit={(e) => { e.preventDefault(); if (parsedSeed !== null) startSession({ seed: parsedSeed, difficulty, cardIds }); }}
+        className="w-full max-w-lg mx-auto bg-white rounded-card shadow-card border border-border p-6 flex flex-col gap-4"
+      >
+        <div>
+          <h2 className="text-card-heading font-semibold flex items-center gap-2"><Wind size={22} /> Field conditions</h2>
+          <p className="text-tiny text-text-muted mt-1">
+            Pick out each bird from wind, traffic or rain — and on harder levels, another bird calling at the same time.
+          </p>
+        </div>
+        <div role="radiogroup" aria-label="Difficulty" className="flex gap-2">
+          {SOUNDSCAPE_DIFFICULTIES.map(level => (
+            <button
+              key={level}
+              type="button"
+              role="radio"
+              aria-checked={difficulty === level}
+              onClick={() => setDifficulty(level)}
+              className={`${pillClasses} ${difficulty === level ? 'bg-primary text-white' : 'bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary'}`}
+            >
+              {DIFFICULTY_LABELS[level]}
+            </button>
+          ))}
+        </div>
+        <label className="text-tiny text-text-muted flex flex-col gap-1">
+          Session seed — enter one from an earlier session to replay it exactly
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+              className="flex-grow border border-border rounded-lg px-3 py-2 text-sm text-gray-800 focus:outline-none focus-visible:ring-1 focus-visible:ring-accent"
+            />
+            <button
+              type="button"
+              onClick={() => setSeedInput(String(createSeed()))}
+              className="p-2 rounded-lg text-text-muted hover:text-primary hover:bg-primary/10 transition-colors"
+              aria-label="New random seed"
+              title="New random seed"
+            >
+              <Dices size={18} />
+            </button>
+          </div>
+        </label>
+        {parsedSeed === null && <p className="text-tiny text-red-700">The seed must be a whole number.</p>}
+        <div className="flex justify-end gap-3">
+          <button type="button" onClick={onExit} className={secondaryButtonClasses}>Cancel</button>
+          <button type="submit" disabled={parsedSeed === null} className={primaryButtonClasses}>
+            <Play size={18} /> Start
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  const sessionLabel = `Seed ${session.seed} · ${DIFFICULTY_LABELS[session.difficulty]}`;
+
+  if (isFinished) {
+    const score = results.filter(result => result.correct).length;
+    const missed = results.filter(result => !result.correct);
+    return (
+      <div className="w-full max-w-lg mx-auto bg-white rounded-card shadow-card border border-border p-6 text-center">
+        <Trophy size={40} className="mx-auto text-primary mb-2" />
+        <h2 className="text-card-heading font-semibold mb-1">Session complete</h2>
+        <p className="text-subtitle text-text-muted mb-1">
+          {score} / {results.length} correct ({Math.round((score / results.length) * 100)}%)
+        </p>
+        <p className="text-tiny text-text-muted mb-4">{sessionLabel}</p>
+        {missed.length > 0 && (
+          <div className="text-left mb-6">
+            <p className="text-tiny font-medium text-text-muted mb-2">Missed:</p>
+            <ul className="space-y-1">
+              {missed.map(result => (
+                <li key={result.card.id} className="text-tiny">
+                  <span className="font-medium">{result.card.displayName}</span>
+                  <span className="text-text-muted"> — you answered {result.chosen.displayName}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <div className="flex flex-wrap justify-center gap-3">
+          <button onClick={() => startSession(session)} className={primaryButtonClasses}>
+            <RotateCcw size={18} /> Replay session
+          </button>
+          <button onClick={() => startSession({ ...session, seed: createSeed() })} className={secondaryButtonClasses}>
+            <Dices size={18} /> New session
+          </button>
+          <button onClick={onExit} className={secondaryButtonClasses}>
+            <ArrowLeft size={18} /> Back to Study
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // The session's cards are no longer loaded (e.g. their source was removed)
+  if (!question) {
+    return <p className="text-text-muted mt-8 text-center">The cards in this session are no longer available.</p>;
+  }
+
+  return (
+    <div className="w-full max-w-lg mx-auto flex flex-col items-center">
+      <p className="text-tiny text-text-muted mb-4">
+        Question {questionIndex + 1} of {questions.length} · Score {results.filter(result => result.correct).length} · {sessionLabel}
+      </p>
+
+      <div className="w-full bg-gray-100 rounded-card shadow-card p-6 flex flex-col items-center">
+        <h3 className="text-lg font-semibold mb-4 text-gray-600">Name the bird you hear through the noise</h3>
+        <button
+          onClick={() => (isPlaying ? stopPlayback() : play(question))}
+          className="w-20 h-20 rounded-full bg-primary text-white flex items-center justify-center hover:bg-primary-700 transition-colors shadow-lg mb-2"
+          aria-label={isPlaying ? "Stop" : "Play again"}
+        >
+          {isPlaying ? <Square size={32} strokeWidth={1.5} fill="currentColor" /> : <Play size={40} strokeWidth={1.5} fill="currentColor" className="ml-1" />}
+        </button>
+        {playError && <p className="text-tiny text-red-700 mb-2">{playError}</p>}
+
+        <div className="w-full grid grid-cols-1 sm:grid-cols-2 gap-2 mt-4">
+          {question.choices.map(choice => {
+            const isAnswer = choice.id === question.card.id;
+            const isChosen = answered?.chosen.id === choice.id;
+            let stateClasses = 'bg-white border-border hover:border-primary hover:text-primary';
+            if (answered && isAnswer) stateClasses = 'bg-green-100 border-green-500 text-green-800';
+            else if (answered && isChosen) stateClasses = 'bg-red-100 border-red-500 text-red-800';
+            else if (answered) stateClasses = 'bg-white border-border opacity-60';
+            return (
+              <button
+                key={choice.id}
+                onClick={() => handleChoose(choice)}
+                disabled={!!answered}
+                className={`flex items-center justify-between gap-2 px-4 py-3 rounded-lg border text-left text-body font-medium transition-colors disabled:cursor-default ${stateClasses}`}
+              >
+                {choice.displayName}
+                {answered && isAnswer && <Check size={18} />}
+                {answered && isChosen && !isAnswer && <X size={18} />}
+              </button>
+            );
+          })}
+        </div>
+
+        {answered && (
+          <div className="w-full mt-6 flex items-center gap-4">
+            <div className="w-20 h-20 flex-shrink-0 rounded overflow-hidden bg-gray-200">
+              <BirdImage src={question.card.imgSrc} alt={question.card.displayName} className="w-full h-full object-cover" />
+            </div>
+            <div className="flex-grow">
+              <p className={`text-body font-medium ${answered.correct ? 'text-green-700' : 'text-red-700'}`}>
+                {answered.correct ? 'Correct!' : `It was the ${question.card.displayName}.`}
+              </p>
+              <p className="text-tiny text-text-muted">
+                {NOISE_LABELS[question.mix.noiseKind]} at {Math.round(question.mix.noiseLevel * 100)}%
+                {question.mix.distractor && `, with a ${question.mix.distractor.card.displayName} in the background`}
+              </p>
+            </div>
+            <button
+              onClick={() => setQuestionIndex(prev => prev + 1)}
+              className="inline-flex items-center h-11 px-5 rounded-pill bg-primary text-white hover:bg-primary-700 transition-colors"
+            >
+              {questionIndex + 1 < questions.length ? 'Next' : 'See score'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FieldView;
@@ -1,9 +1,34 @@
-import React, { RefObject } from 'react';
-import { CheckSquare, Square, Star, ExternalLink, Play, Pause, Search } from 'lucide-react';
+import React, { RefObject, useEffect, useRef, useState } from 'react';
+import { CheckSquare, Square, Star, ExternalLink, Play, Pause, Search, NotebookPen } from 'lucide-react';
 import { IFuseOptions } from 'fuse.js';
-import { Card } from '../types';
+import { AnswerMode, CardDirection, CardSchedule, LoopRegion, RecordingType, ReviewGrade, TypedAnswerResult } from '../types';
 import { AUDIO_DIR } from '../config';
+import { formatNextInterval, REVIEW_GRADES } from '../utils/scheduler';
+import { gradeForTypedAnswer } from '../utils/nameMatching';
+import { RECORDING_TYPE_LABELS } from '../utils/recordingUtils';
+import { DirectionChoice, hasSoundAnswers, hasSoundPrompt } from '../utils/directionUtils';
 import BirdImage from './BirdImage';
+import Waveform from './Waveform';
+import Spectrogram from './Spectrogram';
+import NotesText from './NotesText';
+import { canRouteAudio, releaseElementGraph } from '../utils/audioAnalysis';
+
+// Labels and colours for the grade buttons on the back face
+const GRADE_STYLES: Record<ReviewGrade, { label: string; className: string }> = {
+  again: { label: 'Again', className: 'bg-red-500/80 hover:bg-red-500' },
+  hard: { label: 'Hard', className: 'bg-orange-400/80 hover:bg-orange-400' },
+  good: { label: 'Good', className: 'bg-primary/80 hover:bg-primary' },
+  easy: { label: 'Easy', className: 'bg-accent/80 hover:bg-accent' },
+};
+
+const VERDICT_CLASSES: Record<TypedAnswerResult['verdict'], string> = {
+  correct: 'text-green-300',
+  partial: 'text-orange-300',
+  incorrect: 'text-red-300',
+};
+
+// Letters naming the answers on a reverse card
+const CHOICE_LABELS = ['A', 'B', 'C', 'D'];
 
 /**
  * Flashcard Component Props
@@ -12,14 +37,29 @@ interface FlashcardProps {
   audioSrc: string | null;
   imgSrc: string | null;
   displayName: string;
+  scientificName: string | null;
   isFlipped: boolean;
   isLearned: boolean;
   isStarred: boolean;
+  recordingType: RecordingType | null; // Type of the recording being played
+  isPersonalRecording: boolean; // Whether it is one of the user's own recordings
+  schedule: CardSchedule;
   isPlaying: boolean;
+  loopRegion: LoopRegion | null; // Loop or clip being played, shown on the waveform
+  answerMode: AnswerMode;
+  typedAnswer: TypedAnswerResult | null; // Result of the typed answer, once submitted
+  direction: CardDirection; // What the front shows and how the card is answered
+  choices: DirectionChoice[]; // Recordings or photos to pick from on a reverse card
+  chosen: DirectionChoice | null; // The pick, once made
+  notes: string; // Mnemonics and field notes (markdown), shown on the back
   audioRef: RefObject<HTMLAudioElement>;
   onFlip: () => void;
   onToggleLearned: () => void;
   onToggleStarred: () => void;
+  onGrade: (grade: ReviewGrade) => void;
+  onSubmitTypedAnswer: (input: string) => void;
+  onChoose: (choice: DirectionChoice) => void;
+  onEditNotes: () => void;
   onTogglePlayPause: (e: React.MouseEvent) => void;
   onAudioPlay: () => void;
   onAudioPause: () => void;
@@ -34,14 +74,29 @@ const Flashcard = React.forwardRef<HTMLDivElement, FlashcardProps>((
     audioSrc,
     imgSrc,
     displayName,
+    scientificName,
     isFlipped,
     isLearned,
     isStarred,
+    recordingType,
+    isPersonalRecording,
+    schedule,
     isPlaying,
+    loopRegion,
+    answerMode,
+    typedAnswer,
+    direction,
+    choices,
+    chosen,
+    notes,
     audioRef,
     onFlip,
     onToggleLearned,
     onToggleStarred,
+    onGrade,
+    onSubmitTypedAnswer,
+    onChoose,
+    onEditNotes,
     onTogglePlayPause,
     onAudioPlay,
     onAudioPause,
@@ -49,9 +104,70 @@ const Flashcard = React.forwardRef<HTMLDivElement, FlashcardProps>((
   },
   ref
 ) => {
+  const [typedInput, setTypedInput] = useState('');
+  const [progress, setProgress] = useState(0); // Playback position 0-1, for the waveform playhead
+  const [duration, setDuration] = useState(0);
+  const [playingChoiceSrc, setPlayingChoiceSrc] = useState<string | null>(null); // Recording choice being previewed
+  const choiceAudioRef = useRef<HTMLAudioElement>(null);
   const LearnedIcon = isLearned ? CheckSquare : Square;
   const StarIcon = isStarred ? () => <Star size={16} fill="currentColor" /> : Star;
 
+  useEffect(() => {
+    setProgress(0);
+    setDuration(0);
+  }, [audioSrc]);
+
+  // Disconnect an audio element from Web Audio (spectrogram, normalisation) once it is removed.
+  // A source change keeps the same element, which can't be wired up a second time.
+  useEffect(() => {
+    const audio = audioRef.current;
+    return () => {
+      if (audio && !audio.isConnected) releaseElementGraph(audio);
+    };
+  }, [audioRef, audioSrc]);
+
+  // Stop previewing recording choices once the answer is showing
+  useEffect(() => {
+    if (isFlipped) choiceAudioRef.current?.pause();
+  }, [isFlipped]);
+
+  // ...and when the next card brings new choices
+  useEffect(() => {
+    choiceAudioRef.current?.pause();
+  }, [choices]);
+
+  const handleToggleChoice = (src: string) => {
+    const audio = choiceAudioRef.current;
+    if (!audio) return;
+    if (playingChoiceSrc === src) {
+      audio.pause();
+      return;
+    }
+    audio.src = src;
+    // Set once playing: switching src pauses the previous choice, which clears it
+    audio.play()
+      .then(() => setPlayingChoiceSrc(src))
+      .catch(err => console.error("Error playing recording choice:", err));
+  };
+
+  const handleTimeUpdate = (e: React.SyntheticEvent<HTMLAudioElement>) => {
+    const { currentTime, duration: total } = e.currentTarget;
+    const hasDuration = total > 0 && isFinite(total);
+    setDuration(hasDuration ? total : 0);
+    setProgress(hasDuration ? currentTime / total : 0);
+  };
+
+  const handleSeek = (fraction: number) => {
+    const audio = audioRef.current;
+    if (audio && isFinite(audio.duration)) audio.currentTime = fraction * audio.duration;
+  };
+
+  // Typed answers and picks grade themselves; otherwise the learner grades their recall
+  const autoGrade: ReviewGrade | null = typedAnswer
+    ? gradeForTypedAnswer(typedAnswer)
+    : chosen
+      ? (chosen.correct ? 'good' : 'again')
+      : null;
   const wikipediaSearchUrl = `https://en.wikipedia.org/w/index.php?search=${encodeURIComponent(displayName)}`;
 
   return (
@@ -65,31 +181,125 @@ const Flashcard = React.forwardRef<HTMLDivElement, FlashcardProps>((
       onKeyDown={(e) => e.key === 'Enter' && onFlip()}
     >
       <div className="absolute inset-0 w-full h-full bg-gray-100 rounded-card flex flex-col items-center justify-center [backface-visibility:hidden] p-6 text-center overflow-hidden">
-        {audioSrc && (
-          <audio
-            ref={audioRef}
-            src={audioSrc}
-            onPlay={onAudioPlay}
-            onPause={onAudioPause}
-            onEnded={onAudioEnded}
-            onError={(e) => console.error("Audio Error:", e)}
-            preload="auto"
-          />
+        {hasSoundPrompt(direction) ? (
+          <>
+            {audioSrc && (
+              <audio
+                // An element wired into Web Audio stays wired, so audio from another origin gets a fresh one
+                key={canRouteAudio(audioSrc) ? 'routable' : audioSrc}
+                ref={audioRef}
+                src={audioSrc}
+                onPlay={onAudioPlay}
+                onPause={onAudioPause}
+                onEnded={onAudioEnded}
+                onTimeUpdate={handleTimeUpdate}
+                onLoadedMetadata={handleTimeUpdate}
+                onError={(e) => console.error("Audio Error:", e)}
+                preload="auto"
+              />
+            )}
+            <h3 className="text-lg font-semibold mb-3 text-gray-600">
+              Listen{recordingType && <span className="font-normal text-gray-500"> · {RECORDING_TYPE_LABELS[recordingType]}</span>}
+              {isPersonalRecording && <span className="ml-2 px-1.5 rounded-pill bg-accent/20 text-xs font-medium text-primary align-middle">Mine</span>}
+            </h3>
+            <button
+              onClick={onTogglePlayPause}
+              className="w-24 h-24 rounded-full bg-primary text-white flex items-center justify-center hover:bg-primary-700 transition-colors duration-150 ease-in-out focus:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 focus-visible:ring-offset-gray-100 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg active:shadow-md"
+              disabled={!audioSrc}
+              aria-label={isPlaying ? "Pause audio" : "Play audio"}
+            >
+              {isPlaying ? (
+                <Pause size={48} strokeWidth={1.5} fill="currentColor" />
+              ) : (
+                <Play size={48} strokeWidth={1.5} fill="currentColor" className="ml-1.5"/>
+              )}
+            </button>
+            {audioSrc && (
+              <div className="mt-3 w-full max-w-md">
+                {direction === 'soundToName' && (
+                  <Spectrogram key={audioSrc} audioElement={audioRef.current} src={audioSrc} isPlaying={isPlaying} className="h-12 sm:h-20" />
+                )}
+                <Waveform
+                  src={audioSrc}
+                  progress={progress}
+                  region={loopRegion && duration > 0 ? { start: loopRegion.start / duration, end: Math.min(loopRegion.end / duration, 1) } : null}
+                  onSeek={handleSeek}
+                  className="h-8 mt-1"
+                />
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            <audio ref={choiceAudioRef} onPause={() => setPlayingChoiceSrc(null)} preload="none" />
+            {direction === 'photoToSound' && imgSrc ? (
+              <BirdImage src={imgSrc} alt="Which bird is this?" className="h-28 w-40 object-cover rounded-lg shadow mb-2" />
+            ) : (
+              <h3 className="text-card-title font-bold text-gray-700 leading-tight">{displayName}</h3>
+            )}
+            {direction === 'nameToSound' && scientificName && <p className="text-tiny italic text-gray-500">{scientificName}</p>}
+            <p className="text-tiny text-gray-500 mt-1">Which recording is it?</p>
+          </>
+        )}
+        {direction === 'soundToPhoto' ? (
+          <div className="mt-3 grid grid-cols-3 gap-2 w-full max-w-sm" role="group" aria-label="Pick the bird">
+            {choices.map((choice, i) => (
+              <button
+                key={choice.card.id}
+                onClick={(e) => { e.stopPropagation(); onChoose(choice); }}
+                className="rounded-lg overflow-hidden hover:ring-2 hover:ring-primary focus:outline-none focus-visible:ring-2 focus-visible:ring-primary transition-shadow"
+                aria-label={`Photo ${CHOICE_LABELS[i]}`}
+              >
+                <BirdImage src={choice.src} alt={`Photo ${CHOICE_LABELS[i]}`} className="h-16 w-full object-cover" />
+              </button>
+            ))}
+          </div>
+        ) : hasSoundAnswers(direction) ? (
+          <div className="mt-3 grid grid-cols-3 gap-2 w-full max-w-sm" role="group" aria-label="Pick the recording">
+            {choices.map((choice, i) => (
+              <div key={choice.card.id} className="flex flex-col items-center gap-1.5 p-2 rounded-lg bg-white border border-gray-200">
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleToggleChoice(choice.src); }}
+                  className="w-10 h-10 rounded-full bg-primary text-white flex items-center justify-center hover:bg-primary-700 transition-colors"
+                  aria-label={`${playingChoiceSrc === choice.src ? 'Pause' : 'Play'} recording ${CHOICE_LABELS[i]}`}
+                >
+                  {playingChoiceSrc === choice.src ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" className="ml-0.5" />}
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onChoose(choice); }}
+                  className="px-3 py-0.5 rounded-full bg-gray-200 text-tiny font-medium text-gray-600 hover:bg-primary/10 hover:text-primary transition-colors"
+                >
+                  Pick {CHOICE_LABELS[i]}
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : answerMode === 'typed' && !typedAnswer ? (
+          <form
+            className="mt-3 w-full max-w-xs flex gap-2"
+            onClick={(e) => e.stopPropagation()}
+            onSubmit={(e) => { e.preventDefault(); onSubmitTypedAnswer(typedInput); }}
+          >
+            <input
+              type="text"
+              value={typedInput}
+              onChange={(e) => setTypedInput(e.target.value)}
+              onKeyDown={(e) => e.stopPropagation()} // Keep Enter from flipping the card
+              placeholder="Type the bird's name..."
+              className="flex-grow min-w-0 px-3 py-2 border border-gray-300 rounded-full text-tiny focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+              aria-label="Bird name"
+              autoComplete="off"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-full bg-primary text-white text-tiny font-medium hover:bg-primary-700 transition-colors"
+            >
+              Check
+            </button>
+          </form>
+        ) : (
+          <p className="text-tiny text-gray-500 mt-3">(Tap to reveal bird)</p>
         )}
-        <h3 className="text-lg font-semibold mb-6 text-gray-600">Listen</h3>
-        <button
-          onClick={onTogglePlayPause}
-          className="w-24 h-24 rounded-full bg-primary text-white flex items-center justify-center hover:bg-primary-700 transition-colors duration-150 ease-in-out focus:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 focus-visible:ring-offset-gray-100 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg active:shadow-md"
-          disabled={!audioSrc}
-          aria-label={isPlaying ? "Pause audio" : "Play audio"}
-        >
-          {isPlaying ? (
-            <Pause size={48} strokeWidth={1.5} fill="currentColor" />
-          ) : (
-            <Play size={48} strokeWidth={1.5} fill="currentColor" className="ml-1.5"/>
-          )}
-        </button>
-        <p className="text-tiny text-gray-500 mt-6">(Tap to reveal bird)</p>
         <div className="absolute bottom-3 left-3 z-10 flex gap-2">
           <button
             onClick={(e) => { e.stopPropagation(); onToggleStarred(); }}
@@ -131,6 +341,14 @@ const Flashcard = React.forwardRef<HTMLDivElement, FlashcardProps>((
             <h2 className="text-card-title font-bold text-white drop-shadow-md mb-0.5">
               {displayName}
             </h2>
+            {scientificName && (
+              <p className="text-tiny italic text-white/80 drop-shadow-sm mb-0.5">{scientificName}</p>
+            )}
+            {notes && (
+              <div onClick={(e) => e.stopPropagation()} className="max-h-20 overflow-y-auto mb-1 cursor-text">
+                <NotesText text={notes} className="text-tiny text-white/90 drop-shadow-sm" linkClassName="text-sky-200 hover:text-sky-100 underline" />
+              </div>
+            )}
             <a
               href={wikipediaSearchUrl}
               target="_blank"
@@ -140,8 +358,59 @@ const Flashcard = React.forwardRef<HTMLDivElement, FlashcardProps>((
             >
               Wikipedia <ExternalLink size={12} />
             </a>
+            {typedAnswer && (
+              <p className="text-tiny text-white/90 drop-shadow-sm mt-1">
+                You typed “{typedAnswer.input || '…'}” ·{' '}
+                <span className={`font-semibold ${VERDICT_CLASSES[typedAnswer.verdict]}`}>
+                  {Math.round(typedAnswer.score * 100)}% ({typedAnswer.verdict})
+                </span>
+                {typedAnswer.confusedWith && <> · that's the {typedAnswer.confusedWith}</>}
+              </p>
+            )}
+            {chosen && (
+              <p className="text-tiny text-white/90 drop-shadow-sm mt-1">
+                {chosen.correct ? (
+                  <span className="font-semibold text-green-300">You picked the right {hasSoundAnswers(direction) ? 'recording' : 'photo'}.</span>
+                ) : (
+                  <>
+                    You picked the {chosen.card.displayName}'s {hasSoundAnswers(direction) ? 'recording' : 'photo'} ·{' '}
+                    <span className="font-semibold text-red-300">incorrect</span>
+                  </>
+                )}
+              </p>
+            )}
+            {autoGrade ? (
+              <button
+                onClick={(e) => { e.stopPropagation(); onGrade(autoGrade); }}
+                className="mt-3 w-full py-2 rounded-lg text-white text-tiny font-semibold bg-primary/80 hover:bg-primary backdrop-blur-sm transition-colors"
+              >
+                Continue (graded {GRADE_STYLES[autoGrade].label})
+              </button>
+            ) : (
+              <div className="mt-3 grid grid-cols-4 gap-2" role="group" aria-label="Grade your recall">
+                {REVIEW_GRADES.map(grade => (
+                  <button
+                    key={grade}
+                    onClick={(e) => { e.stopPropagation(); onGrade(grade); }}
+                    className={`flex flex-col items-center py-1.5 rounded-lg text-white backdrop-blur-sm transition-colors ${GRADE_STYLES[grade].className}`}
+                    title={`${GRADE_STYLES[grade].label}: next review in ${formatNextInterval(schedule, grade)}`}
+                  >
+                    <span className="text-tiny font-semibold">{GRADE_STYLES[grade].label}</span>
+                    <span className="text-xs opacity-80">{formatNextInterval(schedule, grade)}</span>
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
-          <div className="absolute bottom-4 right-4 flex gap-2">
+          <div className="absolute top-4 right-4 flex gap-2">
+            <button
+              onClick={(e) => { e.stopPropagation(); onEditNotes(); }}
+              className="p-1.5 rounded-full transition-colors bg-white/10 hover:bg-white/20 backdrop-blur-sm text-gray-200 hover:text-white"
+              aria-label="Edit notes"
+              title="Edit notes"
+            >
+              <NotebookPen size={16} />
+            </button>
             <button
               onClick={(e) => { e.stopPropagation(); onToggleStarred(); }}
               className={`p-1.5 rounded-full transition-colors bg-white/10 hover:bg-white/20 backdrop-blur-sm ${
@@ -164,7 +433,7 @@ const Flashcard = React.forwardRef<HTMLDivElement, FlashcardProps>((
             </button>
           </div>
         </div>
-        <p className="absolute top-4 left-4 text-tiny text-white/60 z-20 pointer-events-none">(Tap to reveal audio)</p>
+        <p className="absolute top-4 left-4 text-tiny text-white/60 z-20 pointer-events-none">{hasSoundPrompt(direction) ? '(Tap to reveal audio)' : '(Tap to see the question)'}</p>
       </div>
     </div>
   );
@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { X, Command, RotateCcw } from 'lucide-react';
+import { KeyBindings, ShortcutAction } from '../types';
+import { DEFAULT_KEY_BINDINGS, eventToBinding, formatBinding, rebind, SHORTCUT_LABELS } from '../utils/keyBindings';
+
+// Pressed on their own these only start a combination, so they can't be bound
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta'];
+
+/**
+ * Keyboard Shortcuts Dialog Component Props
+ */
+interface KeyboardShortcutsDialogProps {
+  bindings: KeyBindings;
+  onChangeBindings: (bindings: KeyBindings) => void;
+  onClose: () => void;
+}
+
+/**
+ * Keyboard Shortcuts Dialog - lists the current bindings (opened with "?")
+ * and lets the user remap any of them by pressing a new key.
+ */
+const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({ bindings, onChangeBindings, onClose }) => {
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [capturingAction, setCapturingAction] = useState<ShortcutAction | null>(null);
+
+  // While capturing, the next key press becomes the action's binding (Escape cancels);
+  // otherwise Escape closes the dialog
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (capturingAction) {
+        event.preventDefault();
+        if (MODIFIER_KEYS.includes(event.key)) return;
+        if (event.key !== 'Escape') onChangeBindings(rebind(bindings, capturingAction, eventToBinding(event)));
+        setCapturingAction(null);
+      } else if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [capturingAction, bindings, onChangeBindings, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Keyboard shortcuts">
+      <div className="bg-white rounded-card shadow-card w-full max-w-md max-h-[90vh] overflow-y-auto p-6 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 p-1 text-text-muted hover:text-primary" aria-label="Close">
+          <X size={20} />
+        </button>
+        <h2 className="text-card-heading font-semibold mb-1 flex items-center gap-2"><Command size={22} /> Keyboard Shortcuts</h2>
+        <p className="text-tiny text-text-muted mb-4">
+          {isEditing ? 'Click a key, then press the new key for that action. Esc cancels.' : 'Shortcuts work in study mode, except while typing in a text field.'}
+        </p>
+
+        <ul className="border border-border rounded divide-y divide-border mb-4">
+          {(Object.keys(SHORTCUT_LABELS) as ShortcutAction[]).map(action => (
+            <li key={action} className="flex items-center justify-between gap-3 px-3 py-1.5 text-tiny">
+              <span>{SHORTCUT_LABELS[action]}</span>
+              {isEditing ? (
+                <button
+                  onClick={() => setCapturingAction(action)}
+                  className={`min-w-[4rem] px-2 py-0.5 rounded border font-mono text-xs transition-colors ${
+                    capturingAction === action ? 'border-accent bg-accent/10 text-accent' : 'border-border hover:border-primary hover:text-primary'
+                  }`}
+                  aria-label={`Change key for ${SHORTCUT_LABELS[action]}`}
+                >
+                  {capturingAction === action ? 'Press a key…' : formatBinding(bindings[action])}
+                </button>
+              ) : (
+                <kbd className="min-w-[2rem] text-center px-2 py-0.5 rounded border border-border bg-gray-50 font-mono text-xs">
+                  {formatBinding(bindings[action])}
+                </kbd>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex items-center justify-between gap-3">
+          <button
+            onClick={() => { onChangeBindings(DEFAULT_KEY_BINDINGS); setCapturingAction(null); }}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-pill text-tiny font-medium bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary transition-colors"
+          >
+            <RotateCcw size={14} /> Reset to defaults
+          </button>
+          <button
+            onClick={() => { setIsEditing(prev => !prev); setCapturingAction(null); }}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-pill text-tiny font-medium bg-primary text-white hover:bg-primary-700 transition-colors"
+          >
+            {isEditing ? 'Done' : 'Customize'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyboardShortcutsDialog;
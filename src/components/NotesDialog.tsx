@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { X, NotebookPen, RotateCcw } from 'lucide-react';
+import { Card } from '../types';
+import { getCardNotes } from '../utils/cardUtils';
+import NotesText from './NotesText';
+
+/**
+ * Notes Dialog Component Props
+ */
+interface NotesDialogProps {
+  card: Card;
+  onSave: (cardId: string, notes: string | null) => void; // null = back to the default notes
+  onClose: () => void;
+}
+
+/**
+ * Notes Dialog - edit a card's mnemonics and field notes. Saving text equal to
+ * the shipped default (or resetting) drops the override, so later updates to
+ * the default still show up.
+ */
+const NotesDialog: React.FC<NotesDialogProps> = ({ card, onSave, onClose }) => {
+  const [text, setText] = useState(() => getCardNotes(card));
+  const [preview, setPreview] = useState(false);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = text.trim();
+    onSave(card.id, trimmed === (card.defaultNotes ?? '').trim() ? null : trimmed);
+  };
+
+  const handleReset = () => {
+    onSave(card.id, null);
+  };
+
+  const tabClasses = (active: boolean) =>
+    `px-3 py-1 rounded-pill text-tiny font-medium transition-colors ${active ? 'bg-primary text-white' : 'bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label={`Notes for ${card.displayName}`}>
+      <div className="bg-white rounded-card shadow-card w-full max-w-xl max-h-[90vh] overflow-y-auto p-6 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 p-1 text-text-muted hover:text-primary" aria-label="Close">
+          <X size={20} />
+        </button>
+        <h2 className="text-card-heading font-semibold mb-1 flex items-center gap-2"><NotebookPen size={22} /> Notes</h2>
+        <p className="text-tiny text-text-muted mb-4">
+          Mnemonics and field notes for <span className="font-medium text-primary">{card.displayName}</span>. They show on the back of the card and are searchable.
+        </p>
+
+        <form onSubmit={handleSave}>
+          <div className="flex gap-2 mb-2" role="tablist">
+            <button type="button" role="tab" aria-selected={!preview} onClick={() => setPreview(false)} className={tabClasses(!preview)}>Edit</button>
+            <button type="button" role="tab" aria-selected={preview} onClick={() => setPreview(true)} className={tabClasses(preview)}>Preview</button>
+          </div>
+          {preview ? (
+            <div className="min-h-[10rem] border border-border rounded-lg px-3 py-2 text-sm">
+              {text.trim() ? <NotesText text={text} linkClassName="text-accent underline hover:no-underline" /> : <p className="text-text-muted italic">No notes.</p>}
+            </div>
+          ) : (
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={7}
+              autoFocus
+              placeholder="e.g. Sounds like *drink-your-tea!*"
+              className="w-full border border-border rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus-visible:ring-1 focus-visible:ring-accent"
+              aria-label="Notes"
+            />
+          )}
+          <p className="text-xs text-text-muted mt-1">
+            Markdown: <code>**bold**</code>, <code>*italic*</code>, <code>`code`</code>, <code>- list item</code>, <code>[link](https://…)</code>. A blank line starts a new paragraph.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-2 mt-4">
+            {card.defaultNotes && card.notes !== null && (
+              <button type="button" onClick={handleReset} className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-pill text-tiny font-medium bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary transition-colors">
+                <RotateCcw size={14} /> Reset to default
+              </button>
+            )}
+            <div className="flex-grow" />
+            <button type="button" onClick={onClose} className="px-4 py-1.5 rounded-pill text-tiny font-medium text-text-muted hover:text-primary">Cancel</button>
+            <button type="submit" className="px-4 py-1.5 rounded-pill text-tiny font-medium bg-primary text-white hover:bg-primary-700 transition-colors">Save</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default NotesDialog;
@@ -0,0 +1,60 @@
+import React, { useMemo } from 'react';
+import { MarkdownInline, parseMarkdown } from '../utils/markdown';
+
+/**
+ * Notes Text Component Props
+ */
+interface NotesTextProps {
+  text: string; // Markdown
+  className?: string;
+  linkClassName?: string;
+}
+
+const renderInline = (runs: MarkdownInline[], linkClassName: string) =>
+  runs.map((run, i) => {
+    switch (run.kind) {
+      case 'strong':
+        return <strong key={i} className="font-semibold">{run.text}</strong>;
+      case 'em':
+        return <em key={i}>{run.text}</em>;
+      case 'code':
+        return <code key={i} className="px-1 rounded bg-black/10 font-mono text-[0.9em]">{run.text}</code>;
+      case 'link':
+        return (
+          <a key={i} href={run.href} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()} className={linkClassName}>
+            {run.text}
+          </a>
+        );
+      default:
+        return <React.Fragment key={i}>{run.text}</React.Fragment>;
+    }
+  });
+
+/**
+ * Renders card notes written in simple markdown.
+ */
+const NotesText: React.FC<NotesTextProps> = ({ text, className = '', linkClassName = 'underline hover:no-underline' }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return (
+    <div className={`space-y-1 ${className}`}>
+      {blocks.map((block, i) =>
+        block.kind === 'list' ? (
+          <ul key={i} className="list-disc pl-4">
+            {block.items.map((item, j) => <li key={j}>{renderInline(item, linkClassName)}</li>)}
+          </ul>
+        ) : (
+          <p key={i}>
+            {block.lines.map((line, j) => (
+              <React.Fragment key={j}>
+                {j > 0 && <br />}
+                {renderInline(line, linkClassName)}
+              </React.Fragment>
+            ))}
+          </p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default NotesText;
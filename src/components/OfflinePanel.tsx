@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { X, Download, Trash2, CloudOff, CheckCircle } from 'lucide-react';
+import { Card, Deck } from '../types';
+import { getDeckCards } from '../utils/deckUtils';
+import {
+  clearMediaCache,
+  downloadCardsMedia,
+  evictCardsMedia,
+  formatBytes,
+  getStorageUsage,
+  isOfflineMediaSupported,
+  requestPersistentStorage,
+  StorageUsage,
+  toOfflineCard,
+} from '../utils/offlineMedia';
+
+/**
+ * Offline Panel Component Props
+ */
+interface OfflinePanelProps {
+  cards: Card[];
+  decks: Deck[];
+  cachedMediaKeys: Set<string>;
+  onMediaChanged: () => void; // Called after downloads/evictions so the app can refresh its cache view
+  onClose: () => void;
+}
+
+const errorText = (err: unknown): string => (err instanceof Error ? err.message : String(err));
+
+/**
+ * Offline Panel - choose decks whose audio and images are downloaded for
+ * offline use, see storage usage and evict downloads.
+ */
+const OfflinePanel: React.FC<OfflinePanelProps> = ({ cards, decks, cachedMediaKeys, onMediaChanged, onClose }) => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [busyDeckId, setBusyDeckId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refreshUsage = useCallback(() => {
+    getStorageUsage().then(setUsage).catch(err => console.warn("Could not read storage usage:", err));
+  }, []);
+
+  useEffect(() => {
+    refreshUsage();
+  }, [refreshUsage, cachedMediaKeys]);
+
+  // "All birds" plus each user deck
+  const deckOptions = useMemo(
+    () => [{ id: '__all__', name: 'All birds', cards }, ...decks.map(deck => ({ id: deck.id, name: deck.name, cards: getDeckCards(cards, deck) }))],
+    [cards, decks]
+  );
+
+  // Cache Storage can fail (e.g. quota exceeded): show the error and never leave the panel busy
+  const handleDownload = useCallback(async (deckId: string, deckCards: Card[]) => {
+    setBusyDeckId(deckId);
+    setMessage(null);
+    try {
+      await requestPersistentStorage();
+      const failed = await downloadCardsMedia(deckCards, (done, total) => setProgress({ done, total }));
+      setMessage(failed.length > 0 ? `${failed.length} file(s) could not be downloaded and were skipped.` : 'Download complete.');
+    } catch (err) {
+      console.error('Error downloading:', err);
+      setMessage(`Download failed: ${errorText(err)}`);
+    } finally {
+      setProgress(null);
+      setBusyDeckId(null);
+      onMediaChanged();
+    }
+  }, [onMediaChanged]);
+
+  const handleEvict = useCallback(async (deckId: string, deckCards: Card[]) => {
+    setBusyDeckId(deckId);
+    setMessage(null);
+    try {
+      await evictCardsMedia(deckCards);
+      setMessage('Removed downloaded media.');
+    } catch (err) {
+      console.error('Error removing the downloads:', err);
+      setMessage(`Could not remove the downloads: ${errorText(err)}`);
+    } finally {
+      setBusyDeckId(null);
+      onMediaChanged();
+    }
+  }, [onMediaChanged]);
+
+  const handleClearAll = useCallback(async () => {
+    if (!window.confirm('Remove all downloaded audio and images?')) return;
+    setMessage(null);
+    try {
+      await clearMediaCache();
+      setMessage('All offline media removed.');
+    } catch (err) {
+      console.error('Error removing the offline media:', err);
+      setMessage(`Could not remove the offline media: ${errorText(err)}`);
+    } finally {
+      onMediaChanged();
+    }
+  }, [onMediaChanged]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Offline downloads">
+      <div className="bg-white rounded-card shadow-card w-full max-w-xl max-h-[90vh] overflow-y-auto p-6 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 p-1 text-text-muted hover:text-primary" aria-label="Close">
+          <X size={20} />
+        </button>
+        <h2 className="text-card-heading font-semibold mb-1 flex items-center gap-2"><CloudOff size={22} /> Offline Use</h2>
+        <p className="text-tiny text-text-muted mb-4">
+          Download a deck's recordings and photos to study without a connection. While offline, only downloaded cards are shown.
+        </p>
+
+        {!isOfflineMediaSupported() ? (
+          <p className="text-tiny text-red-700">This browser doesn't support offline storage.</p>
+        ) : (
+          <>
+            <ul className="border border-border rounded divide-y divide-border mb-4">
+              {deckOptions.map(option => {
+                const available = option.cards.filter(card => toOfflineCard(card, cachedMediaKeys) !== null).length;
+                const isComplete = option.cards.length > 0 && available === option.cards.length;
+                const isBusy = busyDeckId === option.id;
+                return (
+                  <li key={option.id} className="flex items-center gap-3 px-3 py-2">
+                    <div className="flex-grow min-w-0">
+                      <p className="font-medium truncate flex items-center gap-1">
+                        {option.name}
+                        {isComplete && <CheckCircle size={14} className="text-primary" />}
+                      </p>
+                      <p className="text-xs text-text-muted">
+                        {isBusy && progress ? `Downloading ${progress.done}/${progress.total}…` : `${available}/${option.cards.length} cards available offline`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleDownload(option.id, option.cards)}
+                      disabled={busyDeckId !== null || isComplete}
+                      className="p-1.5 rounded-full text-text-muted hover:text-primary hover:bg-primary/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                      aria-label={`Download ${option.name}`}
+                      title="Download for offline use"
+                    >
+                      <Download size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleEvict(option.id, option.cards)}
+                      disabled={busyDeckId !== null || available === 0}
+                      className="p-1.5 rounded-full text-text-muted hover:text-red-600 hover:bg-red-50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                      aria-label={`Remove downloads for ${option.name}`}
+                      title="Remove downloads"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {message && <p className="text-tiny text-text-muted mb-3">{message}</p>}
+
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-tiny text-text-muted">
+                {usage
+                  ? `Storage used: ${formatBytes(usage.usage)} of ${formatBytes(usage.quota)}`
+                  : 'Storage usage unavailable'}
+                {' · '}{cachedMediaKeys.size} files downloaded
+              </p>
+              <button
+                onClick={handleClearAll}
+                disabled={cachedMediaKeys.size === 0 || busyDeckId !== null}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-pill text-tiny font-medium bg-gray-200 text-text-muted hover:bg-red-50 hover:text-red-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Trash2 size={14} /> Remove all
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OfflinePanel;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Repeat, Volume2, X } from 'lucide-react';
+import { Clip, LoopRegion, PlaybackSettings } from '../types';
+import { PLAYBACK_RATES, REPEAT_COUNTS } from '../utils/playbackStore';
+
+/**
+ * Playback Controls Component Props
+ */
+interface PlaybackControlsProps {
+  settings: PlaybackSettings;
+  loopRegion: LoopRegion | null; // The user's loop, which overrides the clip
+  clip: Clip | null; // Curated clip from the mapping file
+  disabled: boolean;
+  onChangeSettings: (changes: Partial<PlaybackSettings>) => void;
+  onSetLoopPoint: (point: 'start' | 'end') => boolean;
+  onClearLoop: () => void;
+}
+
+// Formats seconds as m:ss.s
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+};
+
+/**
+ * Playback Controls - speed, repeat count, volume normalisation and an A-B
+ * loop for the study card's recording. Loops are remembered per recording
+ * and take precedence over the curated clip.
+ */
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({ settings, loopRegion, clip, disabled, onChangeSettings, onSetLoopPoint, onClearLoop }) => {
+  const [loopError, setLoopError] = useState<string | null>(null);
+
+  const handleSetLoopPoint = (point: 'start' | 'end') => {
+    setLoopError(onSetLoopPoint(point) ? null : 'Play to the spot first; the loop must end after it starts.');
+  };
+
+  const chipClasses = (isActive: boolean) =>
+    `px-2.5 py-1 rounded-pill text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+      isActive ? 'bg-primary text-white' : 'bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary'
+    }`;
+
+  return (
+    <div className="w-full max-w-lg mt-4 flex flex-col items-center gap-2 text-xs text-text-muted">
+      <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2">
+        <div className="flex items-center gap-1" role="radiogroup" aria-label="Playback speed">
+          <span className="mr-1">Speed</span>
+          {PLAYBACK_RATES.map(rate => (
+            <button
+              key={rate}
+              role="radio"
+              aria-checked={settings.rate === rate}
+              onClick={() => onChangeSettings({ rate })}
+              disabled={disabled}
+              className={chipClasses(settings.rate === rate)}
+            >
+              {rate}×
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-1">
+          <Repeat size={14} />
+          <span className="sr-only">Repeat</span>
+          <select
+            value={settings.repeatCount}
+            onChange={(e) => onChangeSettings({ repeatCount: Number(e.target.value) })}
+            disabled={disabled}
+            className="bg-gray-200 rounded-pill px-2 py-1 text-xs focus:outline-none focus-visible:ring-1 focus-visible:ring-accent"
+            title="How many times to play before stopping"
+          >
+            {REPEAT_COUNTS.map(count => (
+              <option key={count} value={count}>{count === 0 ? 'Repeat ∞' : `Play ${count}×`}</option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          onClick={() => onChangeSettings({ normalizeVolume: !settings.normalizeVolume })}
+          disabled={disabled}
+          className={`${chipClasses(settings.normalizeVolume)} inline-flex items-center gap-1`}
+          aria-pressed={settings.normalizeVolume}
+          title="Even out loud and quiet recordings"
+        >
+          <Volume2 size={14} /> Normalize
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-1">
+        <span className="mr-1">Loop</span>
+        <button onClick={() => handleSetLoopPoint('start')} disabled={disabled} className={chipClasses(false)} title="Loop from the current position">
+          Set A
+        </button>
+        <button onClick={() => handleSetLoopPoint('end')} disabled={disabled} className={chipClasses(false)} title="Loop up to the current position">
+          Set B
+        </button>
+        {loopRegion ? (
+          <>
+            <span className="ml-1 font-mono text-primary">{formatTime(loopRegion.start)} – {formatTime(loopRegion.end)}</span>
+            <button onClick={onClearLoop} className="p-1 rounded-full hover:text-red-600 hover:bg-red-50" aria-label="Clear loop" title={clip ? 'Clear loop (play the clip)' : 'Clear loop (play the whole recording)'}>
+              <X size={14} />
+            </button>
+          </>
+        ) : clip ? (
+          <span className="ml-1" title="Curated clip; set a loop to override it">
+            clip{clip.label && ` “${clip.label}”`} <span className="font-mono">{formatTime(clip.start)} – {formatTime(clip.end)}</span>
+          </span>
+        ) : (
+          <span className="ml-1">whole recording</span>
+        )}
+      </div>
+      {loopError && <p className="text-red-600">{loopError}</p>}
+    </div>
+  );
+};
+
+export default PlaybackControls;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { UserCircle, Users } from 'lucide-react';
+import { Profile } from '../types';
+
+/**
+ * Profile Switcher Component Props
+ */
+interface ProfileSwitcherProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitchProfile: (profileId: string) => void;
+  onManageProfiles: () => void;
+}
+
+/**
+ * Profile Switcher Component - the current learner, in the header
+ */
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, activeProfileId, onSwitchProfile, onManageProfiles }) => (
+  <div className="inline-flex items-center gap-1 text-tiny text-text-muted">
+    <UserCircle size={16} />
+    {profiles.length > 1 && (
+      <select
+        value={activeProfileId}
+        onChange={(e) => onSwitchProfile(e.target.value)}
+        className="max-w-[8rem] truncate border border-border rounded-pill bg-white px-3 py-1.5 text-filter-chip focus:outline-none focus:ring-1 focus:ring-accent"
+        aria-label="Profile"
+        title="Switch profile"
+      >
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+    )}
+    <button
+      onClick={onManageProfiles}
+      className="p-2 text-text-muted hover:text-primary transition-colors"
+      aria-label="Manage profiles"
+      title="Profiles"
+    >
+      <Users size={18} />
+    </button>
+  </div>
+);
+
+export default ProfileSwitcher;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { X, Users, UserPlus, RotateCcw, Trash2, Check } from 'lucide-react';
+import { Profile } from '../types';
+import { DEFAULT_PROFILE_ID } from '../utils/profileScope';
+import { copyProfileData, createProfile, resetProfileData } from '../utils/profileStore';
+
+/**
+ * Profiles Dialog Component Props
+ */
+interface ProfilesDialogProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  onChangeProfiles: (profiles: Profile[]) => void;
+  onSwitchProfile: (profileId: string) => void; // Reloads the app with that profile's data
+  onClose: () => void;
+}
+
+/**
+ * Profiles Dialog - learner profiles for shared devices: add one (empty or
+ * as a copy of another), switch, reset or delete. Card sources and personal
+ * recordings are shared; progress, decks and settings are not.
+ */
+const ProfilesDialog: React.FC<ProfilesDialogProps> = ({ profiles, activeProfileId, onChangeProfiles, onSwitchProfile, onClose }) => {
+  const [name, setName] = useState('');
+  const [copyFromId, setCopyFromId] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    const profile = createProfile(name);
+    if (copyFromId) copyProfileData(copyFromId, profile.id);
+    onChangeProfiles([...profiles, profile]);
+    console.log(`Added profile "${profile.name}"${copyFromId ? ` (copied from ${copyFromId})` : ''}.`);
+    setName('');
+    setCopyFromId('');
+  };
+
+  const handleReset = (profile: Profile) => {
+    if (!window.confirm(`Reset “${profile.name}”? All of its progress, decks and settings will be deleted.`)) return;
+    resetProfileData(profile.id);
+    console.log(`Reset profile "${profile.name}".`);
+    if (profile.id === activeProfileId) onSwitchProfile(profile.id);
+  };
+
+  const handleDelete = (profile: Profile) => {
+    if (!window.confirm(`Delete “${profile.name}” and all of its progress?`)) return;
+    resetProfileData(profile.id);
+    onChangeProfiles(profiles.filter(candidate => candidate.id !== profile.id));
+  };
+
+  const inputClasses = 'border border-border rounded-lg px-3 py-2 text-sm focus:outline-none focus-visible:ring-1 focus-visible:ring-accent';
+  const pillClasses = 'inline-flex items-center gap-1.5 px-3 py-1.5 rounded-pill text-tiny font-medium bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+  const iconButtonClasses = 'p-1.5 rounded-full text-text-muted transition-colors';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Profiles">
+      <div className="bg-white rounded-card shadow-card w-full max-w-xl max-h-[90vh] overflow-y-auto p-6 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 p-1 text-text-muted hover:text-primary" aria-label="Close">
+          <X size={20} />
+        </button>
+        <h2 className="text-card-heading font-semibold mb-1 flex items-center gap-2"><Users size={22} /> Profiles</h2>
+        <p className="text-tiny text-text-muted mb-4">
+          Everyone sharing this device can have their own progress, decks and settings. Card sources and recordings are shared.
+        </p>
+
+        <ul className="border border-border rounded divide-y divide-border mb-4">
+          {profiles.map(profile => {
+            const isActive = profile.id === activeProfileId;
+            return (
+              <li key={profile.id} className="flex items-center gap-2 px-3 py-2">
+                <p className="flex-grow min-w-0 truncate font-medium">
+                  {profile.name} {isActive && <span className="text-xs font-normal text-text-muted">(current)</span>}
+                </p>
+                {!isActive && (
+                  <button onClick={() => onSwitchProfile(profile.id)} className={`${iconButtonClasses} hover:text-primary hover:bg-primary/10`} aria-label={`Switch to ${profile.name}`} title="Switch to this profile">
+                    <Check size={16} />
+                  </button>
+                )}
+                <button onClick={() => handleReset(profile)} className={`${iconButtonClasses} hover:text-red-600 hover:bg-red-50`} aria-label={`Reset ${profile.name}`} title="Reset progress">
+                  <RotateCcw size={16} />
+                </button>
+                {!isActive && profile.id !== DEFAULT_PROFILE_ID && (
+                  <button onClick={() => handleDelete(profile)} className={`${iconButtonClasses} hover:text-red-600 hover:bg-red-50`} aria-label={`Delete ${profile.name}`} title="Delete profile">
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <form onSubmit={handleAdd} className="flex flex-col gap-2">
+          <label className="text-tiny font-medium flex items-center gap-1.5"><UserPlus size={14} /> Add a profile</label>
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className={inputClasses} required />
+          <div className="flex gap-2">
+            <select value={copyFromId} onChange={(e) => setCopyFromId(e.target.value)} className={`${inputClasses} flex-grow`} aria-label="Start from">
+              <option value="">Start fresh</option>
+              {profiles.map(profile => <option key={profile.id} value={profile.id}>Copy of {profile.name}</option>)}
+            </select>
+            <button type="submit" disabled={!name.trim()} className={pillClasses}>
+              <UserPlus size={14} /> Add
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilesDialog;
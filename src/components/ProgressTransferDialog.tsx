@@ -0,0 +1,159 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import { Download, Upload, X, AlertTriangle, FileSpreadsheet } from 'lucide-react';
+import { Card, Deck, StudyEvent } from '../types';
+import {
+  backupToCsv,
+  buildBackup,
+  diffImport,
+  ImportMode,
+  parseBackup,
+  ParsedBackup,
+} from '../utils/progressBackup';
+import { StoredStatuses } from '../utils/storageUtils';
+import { downloadFile, fileDateStamp } from '../utils/fileUtils';
+
+/**
+ * Progress Transfer Dialog Component Props
+ */
+interface ProgressTransferDialogProps {
+  cards: Card[];
+  decks: Deck[];
+  history: StudyEvent[];
+  onImport: (statuses: StoredStatuses, decks: Deck[], history: StudyEvent[], mode: ImportMode) => void;
+  onClose: () => void;
+}
+
+/**
+ * Progress Transfer Dialog - export progress to JSON/CSV and import it back
+ * with validation, a preview of the changes and merge/replace options.
+ */
+const ProgressTransferDialog: React.FC<ProgressTransferDialogProps> = ({ cards, decks, history, onImport, onClose }) => {
+  const [parsed, setParsed] = useState<ParsedBackup | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+
+  const changes = useMemo(
+    () => (parsed ? diffImport(cards, parsed.statuses, mode) : []),
+    [parsed, cards, mode]
+  );
+
+  const handleExportJson = useCallback(() => {
+    const backup = buildBackup(cards, decks, history);
+    downloadFile(`bird-flashcards-progress-${fileDateStamp()}.json`, JSON.stringify(backup, null, 2));
+  }, [cards, decks, history]);
+
+  const handleExportCsv = useCallback(() => {
+    downloadFile(`bird-flashcards-summary-${fileDateStamp()}.csv`, backupToCsv(cards), 'text/csv');
+  }, [cards]);
+
+  const handleFileChosen = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+    setFileName(file.name);
+    setParsed(parseBackup(await file.text(), cards));
+  }, [cards]);
+
+  const handleApply = useCallback(() => {
+    if (!parsed) return;
+    onImport(parsed.statuses, parsed.decks, parsed.history, mode);
+    onClose();
+  }, [parsed, mode, onImport, onClose]);
+
+  const acceptedCount = parsed ? Object.keys(parsed.statuses).length : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Backup and restore progress">
+      <div className="bg-white rounded-card shadow-card w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 p-1 text-text-muted hover:text-primary" aria-label="Close">
+          <X size={20} />
+        </button>
+        <h2 className="text-card-heading font-semibold mb-4">Backup &amp; Restore</h2>
+
+        <section className="mb-6">
+          <h3 className="font-medium mb-2">Export</h3>
+          <p className="text-tiny text-text-muted mb-3">
+            Save all card progress, review history, study log and decks to a file you can import in another browser.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={handleExportJson} className="inline-flex items-center gap-2 px-4 py-2 rounded-pill bg-primary text-white hover:bg-primary-700 transition-colors text-tiny font-medium">
+              <Download size={16} /> Progress file (.json)
+            </button>
+            <button onClick={handleExportCsv} className="inline-flex items-center gap-2 px-4 py-2 rounded-pill bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary transition-colors text-tiny font-medium">
+              <FileSpreadsheet size={16} /> Summary (.csv)
+            </button>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="font-medium mb-2">Import</h3>
+          <label className="inline-flex items-center gap-2 px-4 py-2 rounded-pill bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary transition-colors text-tiny font-medium cursor-pointer">
+            <Upload size={16} /> Choose progress file…
+            <input type="file" accept="application/json,.json" onChange={handleFileChosen} className="sr-only" />
+          </label>
+          {fileName && <span className="ml-3 text-tiny text-text-muted">{fileName}</span>}
+
+          {parsed && (
+            <div className="mt-4 space-y-4">
+              <p className="text-tiny">
+                {acceptedCount} card {acceptedCount === 1 ? 'entry' : 'entries'} and {parsed.decks.length} {parsed.decks.length === 1 ? 'deck' : 'decks'} and {parsed.history.length} study log events accepted
+                {parsed.exportedAt && <> · exported {new Date(parsed.exportedAt).toLocaleString()}</>}
+              </p>
+
+              {parsed.rejected.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded p-3">
+                  <p className="text-tiny font-medium text-red-700 flex items-center gap-1 mb-1">
+                    <AlertTriangle size={14} /> {parsed.rejected.length} rejected
+                  </p>
+                  <ul className="text-xs text-red-700 space-y-0.5 max-h-32 overflow-y-auto">
+                    {parsed.rejected.map(entry => (
+                      <li key={entry.key}><span className="font-mono">{entry.key}</span>: {entry.reason}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {acceptedCount > 0 && (
+                <>
+                  <div role="radiogroup" className="flex gap-4 text-tiny">
+                    <label className="flex items-center gap-1.5">
+                      <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="accent-primary" />
+                      Merge (only cards in the file change)
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                      <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="accent-primary" />
+                      Replace (cards not in the file are reset)
+                    </label>
+                  </div>
+
+                  <div>
+                    <p className="text-tiny font-medium mb-1">{changes.length} {changes.length === 1 ? 'card' : 'cards'} will change</p>
+                    {changes.length > 0 && (
+                      <ul className="text-xs border border-border rounded divide-y divide-border max-h-48 overflow-y-auto">
+                        {changes.map(change => (
+                          <li key={change.id} className="px-3 py-1.5">
+                            <span className="font-medium">{change.displayName}</span>
+                            <span className="text-text-muted"> — {change.changes.join(', ')}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  <button
+                    onClick={handleApply}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-pill bg-primary text-white hover:bg-primary-700 transition-colors text-tiny font-medium"
+                  >
+                    Apply import
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressTransferDialog;
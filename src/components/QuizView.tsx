@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Play, Pause, Check, X, RotateCcw, ArrowLeft, Trophy } from 'lucide-react';
+import { Card, RecordingType } from '../types';
+import { buildQuizRound, QuizQuestion, QuizResult, QUIZ_ROUND_SIZE } from '../utils/quizUtils';
+import BirdImage from './BirdImage';
+
+/**
+ * Quiz View Component Props
+ */
+interface QuizViewProps {
+  roundCards: Card[]; // Cards to be quizzed on (the current study filter)
+  allCards: Card[]; // All loaded cards, used for distractors
+  onAnswer: (cardId: string, correct: boolean, recordingType: RecordingType, chosenId: string) => void;
+  onExit: () => void;
+  roundSize?: number; // Questions per round (default QUIZ_ROUND_SIZE)
+  onFinish?: (results: QuizResult[]) => void; // Replaces the end-of-round summary, e.g. for assignments
+}
+
+/**
+ * Multiple-choice "name that bird" quiz.
+ * Plays each card's audio and records right/wrong automatically.
+ */
+const QuizView: React.FC<QuizViewProps> = ({ roundCards, allCards, onAnswer, onExit, roundSize = QUIZ_ROUND_SIZE, onFinish }) => {
+  // Questions are generated once per round so grading (which updates cards) doesn't reshuffle them
+  const [questions, setQuestions] = useState<QuizQuestion[]>(() => buildQuizRound(roundCards, allCards, roundSize));
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [results, setResults] = useState<QuizResult[]>([]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const question = questions[questionIndex];
+  const answered = results.length > questionIndex ? results[questionIndex] : null;
+  const isFinished = questions.length > 0 && results.length === questions.length && !question;
+
+  // Autoplay each question's audio
+  useEffect(() => {
+    const audioElement = audioRef.current;
+    if (!audioElement || !question) return;
+    audioElement.load();
+    audioElement.play().catch(error => {
+      console.warn("Quiz audio autoplay failed:", error);
+    });
+    return () => audioElement.pause();
+  }, [question]);
+
+  const handleChoose = useCallback((choice: Card) => {
+    if (!question || answered) return;
+    const correct = choice.id === question.card.id;
+    setResults(prev => [...prev, { card: question.card, chosen: choice, correct }]);
+    onAnswer(question.card.id, correct, question.recording.type, choice.id);
+  }, [question, answered, onAnswer]);
+
+  const handleNextQuestion = useCallback(() => {
+    if (onFinish && questionIndex + 1 >= questions.length) {
+      onFinish(results);
+      return;
+    }
+    setQuestionIndex(prev => prev + 1);
+  }, [onFinish, questionIndex, questions.length, results]);
+
+  const handleNewRound = useCallback(() => {
+    setQuestions(buildQuizRound(roundCards, allCards, roundSize));
+    setQuestionIndex(0);
+    setResults([]);
+  }, [roundCards, allCards, roundSize]);
+
+  const togglePlayPause = useCallback(() => {
+    if (!audioRef.current) return;
+    if (isPlaying) {
+      audioRef.current.pause();
+    } else {
+      audioRef.current.play().catch(err => console.error("Error playing quiz audio:", err));
+    }
+  }, [isPlaying]);
+
+  if (questions.length === 0) {
+    return <p className="text-text-muted mt-8 text-center">No cards available for a quiz with the current filter.</p>;
+  }
+
+  if (isFinished) {
+    const score = results.filter(result => result.correct).length;
+    const missed = results.filter(result => !result.correct);
+    return (
+      <div className="w-full max-w-lg mx-auto bg-white rounded-card shadow-card border border-border p-6 text-center">
+        <Trophy size={40} className="mx-auto text-primary mb-2" />
+        <h2 className="text-card-heading font-semibold mb-1">Round complete</h2>
+        <p className="text-subtitle text-text-muted mb-4">
+          {score} / {results.length} correct ({Math.round((score / results.length) * 100)}%)
+        </p>
+        {missed.length > 0 && (
+          <div className="text-left mb-6">
+            <p className="text-tiny font-medium text-text-muted mb-2">Missed (starred for review):</p>
+            <ul className="space-y-1">
+              {missed.map(result => (
+                <li key={result.card.id} className="text-tiny">
+                  <span className="font-medium">{result.card.displayName}</span>
+                  <span className="text-text-muted"> — you answered {result.chosen.displayName}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <div className="flex justify-center gap-3">
+          <button
+            onClick={handleNewRound}
+            className="inline-flex items-center gap-2 h-11 px-5 rounded-pill bg-primary text-white hover:bg-primary-700 transition-colors"
+          >
+            <RotateCcw size={18} /> New round
+          </button>
+          <button
+            onClick={onExit}
+            className="inline-flex items-center gap-2 h-11 px-5 rounded-pill bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary transition-colors"
+          >
+            <ArrowLeft size={18} /> Back to Study
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-lg mx-auto flex flex-col items-center">
+      <p className="text-tiny text-text-muted mb-4">
+        Question {questionIndex + 1} of {questions.length} · Score {results.filter(result => result.correct).length}
+      </p>
+
+      <div className="w-full bg-gray-100 rounded-card shadow-card p-6 flex flex-col items-center">
+        <audio
+          ref={audioRef}
+          src={question.recording.src}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+          onError={(e) => console.error("Quiz Audio Error:", e)}
+          preload="auto"
+        />
+        <h3 className="text-lg font-semibold mb-4 text-gray-600">Name that bird</h3>
+        <button
+          onClick={togglePlayPause}
+          className="w-20 h-20 rounded-full bg-primary text-white flex items-center justify-center hover:bg-primary-700 transition-colors shadow-lg mb-6"
+          aria-label={isPlaying ? "Pause audio" : "Play audio"}
+        >
+          {isPlaying ? <Pause size={40} strokeWidth={1.5} fill="currentColor" /> : <Play size={40} strokeWidth={1.5} fill="currentColor" className="ml-1" />}
+        </button>
+
+        <div className="w-full grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {question.choices.map(choice => {
+            const isAnswer = choice.id === question.card.id;
+            const isChosen = answered?.chosen.id === choice.id;
+            let stateClasses = 'bg-white border-border hover:border-primary hover:text-primary';
+            if (answered && isAnswer) stateClasses = 'bg-green-100 border-green-500 text-green-800';
+            else if (answered && isChosen) stateClasses = 'bg-red-100 border-red-500 text-red-800';
+            else if (answered) stateClasses = 'bg-white border-border opacity-60';
+            return (
+              <button
+                key={choice.id}
+                onClick={() => handleChoose(choice)}
+                disabled={!!answered}
+                className={`flex items-center justify-between gap-2 px-4 py-3 rounded-lg border text-left text-body font-medium transition-colors disabled:cursor-default ${stateClasses}`}
+              >
+                {choice.displayName}
+                {answered && isAnswer && <Check size={18} />}
+                {answered && isChosen && !isAnswer && <X size={18} />}
+              </button>
+            );
+          })}
+        </div>
+
+        {answered && (
+          <div className="w-full mt-6 flex items-center gap-4">
+            <div className="w-20 h-20 flex-shrink-0 rounded overflow-hidden bg-gray-200">
+              <BirdImage src={question.card.imgSrc} alt={question.card.displayName} className="w-full h-full object-cover" />
+            </div>
+            <p className={`flex-grow text-body font-medium ${answered.correct ? 'text-green-700' : 'text-red-700'}`}>
+              {answered.correct ? 'Correct!' : `It was the ${question.card.displayName}.`}
+            </p>
+            <button
+              onClick={handleNextQuestion}
+              className="inline-flex items-center h-11 px-5 rounded-pill bg-primary text-white hover:bg-primary-700 transition-colors"
+            >
+              {questionIndex + 1 < questions.length ? 'Next' : 'See score'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizView;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { CalendarDays, Shuffle, X } from 'lucide-react';
+import { Region } from '../types';
+import { REGION_LABELS } from '../utils/facetUtils';
+import { loadSeasonalRegion, MONTH_NAMES, SeasonalPreset } from '../utils/seasonalUtils';
+
+/**
+ * Seasonal Preset Control Component Props
+ */
+interface SeasonalPresetControlProps {
+  preset: SeasonalPreset | null; // Null when the preset is off
+  queueLength: number; // Cards in the resulting queue
+  onChange: (preset: SeasonalPreset | null) => void;
+}
+
+const selectClasses = "border border-border rounded-pill bg-white px-3 py-1.5 text-filter-chip text-text-muted focus:outline-none focus:ring-1 focus:ring-accent";
+
+const newSeed = () => Math.floor(Math.random() * 0x7fffffff);
+
+/**
+ * Seasonal Preset Control Component - "what's singing now": pick a region to
+ * study the birds likely to be heard there this month, least familiar first.
+ */
+const SeasonalPresetControl: React.FC<SeasonalPresetControlProps> = ({ preset, queueLength, onChange }) => {
+  const [region, setRegion] = useState<Region>(() => preset?.region ?? loadSeasonalRegion() ?? 'northeast');
+  const month = MONTH_NAMES[new Date().getMonth()];
+
+  const handleRegionChange = (newRegion: Region) => {
+    setRegion(newRegion);
+    if (preset) onChange({ region: newRegion, seed: preset.seed });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      <button
+        onClick={() => onChange(preset ? null : { region, seed: newSeed() })}
+        aria-pressed={!!preset}
+        className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-pill text-filter-chip font-medium transition-colors ${
+          preset ? 'bg-primary text-white' : 'bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary'
+        }`}
+        title="Study the birds likely to be heard in your region this month, least familiar first"
+      >
+        <CalendarDays size={16} /> What's singing now
+      </button>
+      <select
+        value={region}
+        onChange={(e) => handleRegionChange(e.target.value as Region)}
+        className={selectClasses}
+        aria-label="Your region"
+      >
+        {(Object.keys(REGION_LABELS) as Region[]).map(option => (
+          <option key={option} value={option}>{REGION_LABELS[option]}</option>
+        ))}
+      </select>
+      {preset && (
+        <>
+          <span className="text-tiny text-text-muted">
+            {queueLength} {queueLength === 1 ? 'bird' : 'birds'} around the {REGION_LABELS[preset.region]} in {month}
+          </span>
+          <button
+            onClick={() => onChange({ ...preset, seed: newSeed() })}
+            className="inline-flex items-center gap-1 px-2 py-1 rounded-pill text-filter-chip text-text-muted hover:text-primary transition-colors"
+            aria-label="Reshuffle the seasonal queue"
+          >
+            <Shuffle size={14} /> Reshuffle
+          </button>
+          <button
+            onClick={() => onChange(null)}
+            className="inline-flex items-center gap-1 px-2 py-1 rounded-pill text-filter-chip text-text-muted hover:text-primary transition-colors"
+            aria-label="Turn off the seasonal preset"
+          >
+            <X size={14} /> Off
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SeasonalPresetControl;
@@ -0,0 +1,86 @@
+import React, { useMemo } from 'react';
+import { X, Flag, RotateCcw } from 'lucide-react';
+import { Card, ReviewGrade, StudySession } from '../types';
+import { REVIEW_GRADES } from '../utils/scheduler';
+import { summarizeSession } from '../utils/studySession';
+
+/**
+ * Session Summary Dialog Component Props
+ */
+interface SessionSummaryDialogProps {
+  session: StudySession;
+  cards: Card[]; // For the names of missed cards
+  onStartNew: () => void;
+  onClose: () => void; // Keeps the current session going
+}
+
+const GRADE_LABELS: Record<ReviewGrade, string> = { again: 'Again', hard: 'Hard', good: 'Good', easy: 'Easy' };
+
+const MAX_MISSED_SHOWN = 8;
+
+/**
+ * Session Summary Dialog - how the current study session went, shown before
+ * ending it and starting a new one with a fresh card order.
+ */
+const SessionSummaryDialog: React.FC<SessionSummaryDialogProps> = ({ session, cards, onStartNew, onClose }) => {
+  const summary = useMemo(() => summarizeSession(session), [session]);
+  const missedNames = useMemo(() => {
+    const names = new Map(cards.map(card => [card.id, card.displayName]));
+    return summary.missedCardIds.map(id => names.get(id)).filter((name): name is string => !!name);
+  }, [summary, cards]);
+
+  const tiles = [
+    { label: 'Cards seen', value: String(summary.cardsSeen) },
+    { label: 'Reviews', value: String(summary.reviews) },
+    { label: 'Remembered', value: summary.accuracy === null ? '–' : `${Math.round(summary.accuracy * 100)}%` },
+    { label: 'Minutes', value: String(summary.minutes) },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Study session summary">
+      <div className="bg-white rounded-card shadow-card w-full max-w-xl max-h-[90vh] overflow-y-auto p-6 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 p-1 text-text-muted hover:text-primary" aria-label="Close">
+          <X size={20} />
+        </button>
+        <h2 className="text-card-heading font-semibold mb-1 flex items-center gap-2"><Flag size={22} /> This session</h2>
+        <p className="text-tiny text-text-muted mb-4">
+          Started {new Date(session.startedAt).toLocaleString()} · order #{session.seed}
+        </p>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4">
+          {tiles.map(tile => (
+            <div key={tile.label} className="border border-border rounded-lg p-3 text-center">
+              <p className="text-card-title font-bold text-primary">{tile.value}</p>
+              <p className="text-xs text-text-muted">{tile.label}</p>
+            </div>
+          ))}
+        </div>
+
+        {summary.reviews > 0 && (
+          <p className="text-tiny text-text-muted mb-3">
+            {REVIEW_GRADES.map(grade => `${GRADE_LABELS[grade]} ${summary.gradeCounts[grade]}`).join(' · ')}
+          </p>
+        )}
+
+        {missedNames.length > 0 && (
+          <div className="mb-4">
+            <p className="text-tiny font-medium mb-1">Missed</p>
+            <p className="text-tiny text-text-muted">
+              {missedNames.slice(0, MAX_MISSED_SHOWN).join(', ')}
+              {missedNames.length > MAX_MISSED_SHOWN && ` and ${missedNames.length - MAX_MISSED_SHOWN} more`}
+            </p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-1.5 rounded-pill text-tiny font-medium text-text-muted hover:text-primary">Keep going</button>
+          <button onClick={onStartNew} className="inline-flex items-center gap-1.5 px-4 py-1.5 rounded-pill text-tiny font-medium bg-primary text-white hover:bg-primary-700 transition-colors">
+            <RotateCcw size={14} /> Start a new session
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionSummaryDialog;
@@ -0,0 +1,189 @@
+import React, { useState, useCallback, useRef } from 'react';
+import { X, Package, Upload, Trash2, Globe, Plus, AlertCircle } from 'lucide-react';
+import { LoadedSource } from '../sources/cardSource';
+import { readBundleFile } from '../sources/bundleSource';
+import { deleteBundle, isBundleStorageSupported, saveBundle } from '../sources/bundleStore';
+import { createRestSourceConfig, getConfiguredRestSources, RestSourceConfig } from '../sources/restSource';
+import { isZipSupported } from '../utils/zipReader';
+
+/**
+ * Sources Dialog Component Props
+ */
+interface SourcesDialogProps {
+  sources: LoadedSource[];
+  restSources: RestSourceConfig[]; // Endpoints added by the user
+  onChangeRestSources: (sources: RestSourceConfig[]) => void;
+  onBundlesChanged: () => void; // Called after bundles are added or removed so the app reloads its cards
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<LoadedSource['kind'], string> = {
+  static: 'Built in',
+  bundle: 'Zip bundle',
+  rest: 'Web endpoint',
+  personal: 'Your recordings',
+};
+
+/**
+ * Sources Dialog - where cards come from: the built-in birds, deck bundles
+ * (zip files with audio, images and a bird_mapping.json, kept in the
+ * browser) and REST endpoints serving a manifest and mapping.
+ */
+const SourcesDialog: React.FC<SourcesDialogProps> = ({ sources, restSources, onChangeRestSources, onBundlesChanged, onClose }) => {
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [endpointUrl, setEndpointUrl] = useState('');
+  const [endpointName, setEndpointName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const configuredIds = new Set(getConfiguredRestSources().map(config => config.id));
+
+  const handleBundleFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const bundle = await readBundleFile(file);
+      await saveBundle(bundle);
+      setMessage({ text: `Added “${bundle.name}” (${Object.keys(bundle.files).length} files).`, isError: false });
+      onBundlesChanged();
+    } catch (err) {
+      console.error("Error adding bundle:", err);
+      setMessage({ text: err instanceof Error ? err.message : 'Could not read the bundle.', isError: true });
+    } finally {
+      setIsBusy(false);
+    }
+  }, [onBundlesChanged]);
+
+  const handleRemove = useCallback(async (source: LoadedSource) => {
+    if (!window.confirm(`Remove “${source.name}”? Your progress on its cards is kept in case you add it again.`)) return;
+    if (source.kind === 'rest') {
+      onChangeRestSources(restSources.filter(config => config.id !== source.id));
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await deleteBundle(source.id);
+      onBundlesChanged();
+    } catch (err) {
+      console.error("Error removing bundle:", err);
+      setMessage({ text: 'Could not remove the bundle.', isError: true });
+    } finally {
+      setIsBusy(false);
+    }
+  }, [restSources, onChangeRestSources, onBundlesChanged]);
+
+  const handleAddEndpoint = (e: React.FormEvent) => {
+    e.preventDefault();
+    let config: RestSourceConfig;
+    try {
+      config = createRestSourceConfig(endpointUrl, endpointName);
+    } catch {
+      setMessage({ text: 'That is not a valid URL.', isError: true });
+      return;
+    }
+    if (restSources.some(existing => existing.id === config.id) || configuredIds.has(config.id)) {
+      setMessage({ text: 'That endpoint is already added.', isError: true });
+      return;
+    }
+    onChangeRestSources([...restSources, config]);
+    setEndpointUrl('');
+    setEndpointName('');
+    setMessage(null);
+  };
+
+  const inputClasses = 'border border-border rounded-lg px-3 py-2 text-sm focus:outline-none focus-visible:ring-1 focus-visible:ring-accent';
+  const pillClasses = 'inline-flex items-center gap-1.5 px-3 py-1.5 rounded-pill text-tiny font-medium bg-gray-200 text-text-muted hover:bg-primary/10 hover:text-primary transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Card sources">
+      <div className="bg-white rounded-card shadow-card w-full max-w-xl max-h-[90vh] overflow-y-auto p-6 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 p-1 text-text-muted hover:text-primary" aria-label="Close">
+          <X size={20} />
+        </button>
+        <h2 className="text-card-heading font-semibold mb-1 flex items-center gap-2"><Package size={22} /> Card Sources</h2>
+        <p className="text-tiny text-text-muted mb-4">
+          Add your own recordings as a zip bundle (audio, images and a <code>bird_mapping.json</code>, optionally a <code>manifest.json</code>)
+          or from a web endpoint. Each source appears as its own deck.
+        </p>
+
+        <ul className="border border-border rounded divide-y divide-border mb-4">
+          {sources.map(source => {
+            const isRemovable = source.kind === 'bundle' || (source.kind === 'rest' && !configuredIds.has(source.id));
+            return (
+              <li key={source.id} className="flex items-center gap-3 px-3 py-2">
+                <div className="flex-grow min-w-0">
+                  <p className="font-medium truncate">{source.name}</p>
+                  <p className={`text-xs ${source.error ? 'text-red-700' : 'text-text-muted'}`}>
+                    {KIND_LABELS[source.kind]} · {source.error ? `Failed: ${source.error}` : `${source.cards.length} cards`}
+                  </p>
+                </div>
+                {isRemovable && (
+                  <button
+                    onClick={() => handleRemove(source)}
+                    disabled={isBusy}
+                    className="p-1.5 rounded-full text-text-muted hover:text-red-600 hover:bg-red-50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    aria-label={`Remove ${source.name}`}
+                    title="Remove source"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="mb-4">
+          <input ref={fileInputRef} type="file" accept=".zip,application/zip" onChange={handleBundleFile} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy || !isZipSupported() || !isBundleStorageSupported()}
+            className={pillClasses}
+            title={isZipSupported() && isBundleStorageSupported() ? 'Load a deck bundle from a .zip file' : "This browser can't store bundles"}
+          >
+            <Upload size={14} /> {isBusy ? 'Working…' : 'Add bundle (.zip)'}
+          </button>
+        </div>
+
+        <form onSubmit={handleAddEndpoint} className="flex flex-col gap-2">
+          <label className="text-tiny font-medium flex items-center gap-1.5"><Globe size={14} /> Add a web endpoint</label>
+          <input
+            type="url"
+            value={endpointUrl}
+            onChange={(e) => setEndpointUrl(e.target.value)}
+            placeholder="https://example.org/birds.json"
+            className={inputClasses}
+            required
+          />
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={endpointName}
+              onChange={(e) => setEndpointName(e.target.value)}
+              placeholder="Name (optional)"
+              className={`${inputClasses} flex-grow`}
+            />
+            <button type="submit" disabled={!endpointUrl.trim()} className={pillClasses}>
+              <Plus size={14} /> Add
+            </button>
+          </div>
+          <p className="text-xs text-text-muted">
+            The endpoint returns JSON with <code>manifest</code> and <code>mapping</code> (same shapes as the built-in files) and
+            optional <code>audioBaseUrl</code>/<code>imageBaseUrl</code>. Audio on another site has to allow CORS for waveforms and
+            field mode; the spectrogram and volume normalisation only work for audio served from this site.
+          </p>
+        </form>
+
+        {message && (
+          <p className={`text-tiny mt-3 flex items-center gap-1 ${message.isError ? 'text-red-700' : 'text-text-muted'}`}>
+            {message.isError && <AlertCircle size={14} />} {message.text}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SourcesDialog;
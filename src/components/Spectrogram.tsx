@@ -0,0 +1,76 @@
+import React, { useEffect, useRef } from 'react';
+import { canRouteAudio, getElementAnalyser, intensityToColor, isWebAudioSupported } from '../utils/audioAnalysis';
+
+// Highest frequency drawn; bird song rarely goes above this
+const MAX_FREQUENCY_HZ = 11000;
+
+/**
+ * Spectrogram Component Props
+ */
+interface SpectrogramProps {
+  audioElement: HTMLAudioElement | null;
+  src: string; // What the element plays; audio from another origin can't be analysed
+  isPlaying: boolean;
+  className?: string;
+}
+
+/**
+ * Spectrogram - live scrolling frequency/time plot of the playing audio.
+ * New columns are drawn at the right edge while older ones scroll left.
+ * Remount (e.g. key by src) to clear it for a new recording.
+ */
+const Spectrogram: React.FC<SpectrogramProps> = ({ audioElement, src, isPlaying, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isAvailable = isWebAudioSupported() && canRouteAudio(src);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !audioElement || !isPlaying || !isAvailable) return;
+
+    let analyser: AnalyserNode;
+    try {
+      analyser = getElementAnalyser(audioElement);
+    } catch (err) {
+      console.warn('Could not start spectrogram:', err);
+      return;
+    }
+    if (canvas.width !== canvas.clientWidth || canvas.height !== canvas.clientHeight) {
+      canvas.width = canvas.clientWidth;
+      canvas.height = canvas.clientHeight;
+      context.fillStyle = intensityToColor(0);
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    const bins = new Uint8Array(analyser.frequencyBinCount);
+    const nyquist = analyser.context.sampleRate / 2;
+    const visibleBins = Math.min(bins.length, Math.ceil((MAX_FREQUENCY_HZ / nyquist) * bins.length));
+    let frame = 0;
+
+    const draw = () => {
+      const { width, height } = canvas;
+      analyser.getByteFrequencyData(bins);
+      // Scroll one pixel left, then paint the newest column (low frequencies at the bottom)
+      context.drawImage(canvas, -1, 0);
+      for (let y = 0; y < height; y++) {
+        const bin = Math.floor(((height - 1 - y) / height) * visibleBins);
+        context.fillStyle = intensityToColor(bins[bin]);
+        context.fillRect(width - 1, y, 1, 1);
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [audioElement, isPlaying, isAvailable]);
+
+  if (!isAvailable) return null;
+
+  return (
+    <div className={`relative rounded overflow-hidden ${className}`} style={{ backgroundColor: intensityToColor(0) }}>
+      <canvas ref={canvasRef} className="w-full h-full" aria-label="Live spectrogram" />
+      <span className="absolute top-0.5 left-1 text-[9px] text-white/60 pointer-events-none">{Math.round(MAX_FREQUENCY_HZ / 1000)} kHz</span>
+    </div>
+  );
+};
+
+export default Spectrogram;
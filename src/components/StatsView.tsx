@@ -0,0 +1,148 @@
+import React, { useMemo } from 'react';
+import { Flame, Clock, Target, Layers } from 'lucide-react';
+import { Card, StudyEvent } from '../types';
+import { formatDuration, getDailyActivity, getMostConfused, getMostMissed, getStudyStreak, toDayKey } from '../utils/statsUtils';
+
+// Days shown in the per-day charts
+const CHART_DAYS = 14;
+// Days summarised in the totals
+const SUMMARY_DAYS = 30;
+
+/**
+ * Stats View Component Props
+ */
+interface StatsViewProps {
+  cards: Card[];
+  history: StudyEvent[];
+}
+
+/**
+ * Stats View - streaks, study time, cards studied per day, accuracy trend and
+ * the species learners confuse, all derived from the local study history.
+ */
+const StatsView: React.FC<StatsViewProps> = ({ cards, history }) => {
+  const namesById = useMemo(() => new Map(cards.map(card => [card.id, card.displayName])), [cards]);
+  const nameOf = (id: string) => namesById.get(id) ?? id;
+
+  const { recentDays, chartDays, streak, confused, missed } = useMemo(() => {
+    const now = new Date();
+    const days = getDailyActivity(history, SUMMARY_DAYS, now);
+    return {
+      recentDays: days,
+      chartDays: days.slice(-CHART_DAYS),
+      streak: getStudyStreak(history, now),
+      confused: getMostConfused(history),
+      missed: getMostMissed(history),
+    };
+  }, [history]);
+
+  const totals = recentDays.reduce(
+    (sum, day) => ({ answers: sum.answers + day.answers, correct: sum.correct + day.correct, timeSpentMs: sum.timeSpentMs + day.timeSpentMs }),
+    { answers: 0, correct: 0, timeSpentMs: 0 }
+  );
+  const today = recentDays[recentDays.length - 1];
+  const maxCardsStudied = Math.max(1, ...chartDays.map(day => day.cardsStudied));
+
+  if (history.length === 0) {
+    return <p className="text-text-muted mt-8 text-center">No study history yet. Play, flip and grade some cards and your stats will appear here.</p>;
+  }
+
+  const summaryTiles = [
+    { icon: <Flame size={18} />, label: 'Current streak', value: `${streak.current} ${streak.current === 1 ? 'day' : 'days'}`, detail: `Longest: ${streak.longest}` },
+    { icon: <Layers size={18} />, label: 'Cards today', value: String(today?.cardsStudied ?? 0), detail: `${today?.answers ?? 0} answers` },
+    { icon: <Target size={18} />, label: `Accuracy (${SUMMARY_DAYS}d)`, value: totals.answers > 0 ? `${Math.round((totals.correct / totals.answers) * 100)}%` : '—', detail: `${totals.answers} answers` },
+    { icon: <Clock size={18} />, label: `Time spent (${SUMMARY_DAYS}d)`, value: formatDuration(totals.timeSpentMs), detail: `Today: ${formatDuration(today?.timeSpentMs ?? 0)}` },
+  ];
+
+  const dayLabel = (date: string) => (date === toDayKey(new Date()) ? 'Today' : date.slice(5));
+
+  return (
+    <div className="w-full max-w-3xl mx-auto space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {summaryTiles.map(tile => (
+          <div key={tile.label} className="bg-white rounded-card shadow-card border border-border p-4">
+            <p className="text-xs text-text-muted flex items-center gap-1.5">{tile.icon} {tile.label}</p>
+            <p className="text-card-heading font-semibold mt-1">{tile.value}</p>
+            <p className="text-xs text-text-muted">{tile.detail}</p>
+          </div>
+        ))}
+      </div>
+
+      <section className="bg-white rounded-card shadow-card border border-border p-4">
+        <h2 className="font-medium mb-3">Cards studied per day</h2>
+        <div className="flex items-end gap-1 h-32" role="list">
+          {chartDays.map(day => (
+            <div key={day.date} role="listitem" className="flex-1 flex flex-col items-center justify-end h-full" title={`${day.date}: ${day.cardsStudied} cards, ${formatDuration(day.timeSpentMs)}`}>
+              <span className="text-[10px] text-text-muted">{day.cardsStudied || ''}</span>
+              <div className="w-full bg-primary rounded-t" style={{ height: `${(day.cardsStudied / maxCardsStudied) * 100}%` }} />
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-1 mt-1">
+          {chartDays.map(day => (
+            <span key={day.date} className="flex-1 text-center text-[10px] text-text-muted truncate">{dayLabel(day.date)}</span>
+          ))}
+        </div>
+      </section>
+
+      <section className="bg-white rounded-card shadow-card border border-border p-4">
+        <h2 className="font-medium mb-3">Accuracy trend</h2>
+        <div className="flex items-end gap-1 h-24" role="list">
+          {chartDays.map(day => {
+            const accuracy = day.answers > 0 ? day.correct / day.answers : null;
+            return (
+              <div key={day.date} role="listitem" className="flex-1 flex flex-col items-center justify-end h-full" title={accuracy === null ? `${day.date}: no answers` : `${day.date}: ${Math.round(accuracy * 100)}% of ${day.answers}`}>
+                {accuracy === null ? (
+                  <div className="w-full h-0.5 bg-gray-200" />
+                ) : (
+                  <div className={`w-full rounded-t ${accuracy >= 0.8 ? 'bg-primary' : accuracy >= 0.5 ? 'bg-accent' : 'bg-red-400'}`} style={{ height: `${Math.max(accuracy * 100, 4)}%` }} />
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex gap-1 mt-1">
+          {chartDays.map(day => (
+            <span key={day.date} className="flex-1 text-center text-[10px] text-text-muted truncate">{dayLabel(day.date)}</span>
+          ))}
+        </div>
+      </section>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <section className="bg-white rounded-card shadow-card border border-border p-4">
+          <h2 className="font-medium mb-2">Most confused</h2>
+          {confused.length === 0 ? (
+            <p className="text-tiny text-text-muted">No quiz mix-ups yet.</p>
+          ) : (
+            <ul className="text-tiny space-y-1">
+              {confused.map(pair => (
+                <li key={`${pair.cardId}|${pair.confusedWithId}`} className="flex justify-between gap-2">
+                  <span><span className="font-medium">{nameOf(pair.cardId)}</span> <span className="text-text-muted">heard as</span> {nameOf(pair.confusedWithId)}</span>
+                  <span className="text-text-muted">{pair.count}×</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="bg-white rounded-card shadow-card border border-border p-4">
+          <h2 className="font-medium mb-2">Most missed</h2>
+          {missed.length === 0 ? (
+            <p className="text-tiny text-text-muted">No misses yet.</p>
+          ) : (
+            <ul className="text-tiny space-y-1">
+              {missed.map(entry => (
+                <li key={entry.cardId} className="flex justify-between gap-2">
+                  <span className="font-medium">{nameOf(entry.cardId)}</span>
+                  <span className="text-text-muted">{entry.misses}×</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default StatsView;
@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { loadWaveformPeaks } from '../utils/audioAnalysis';
+
+// Canvas colours (match tailwind.config.js primary and border)
+const PLAYED_COLOR = '#3CA66F';
+const UNPLAYED_COLOR = '#C9D1CD';
+const REGION_COLOR = 'rgba(79, 180, 255, 0.25)'; // accent
+
+/**
+ * Waveform Component Props
+ */
+interface WaveformProps {
+  src: string;
+  progress: number; // Playback position, 0-1
+  region?: { start: number; end: number } | null; // Highlighted loop, as fractions 0-1
+  onSeek?: (fraction: number) => void; // Called with the clicked position, 0-1
+  className?: string;
+}
+
+/**
+ * Waveform - static amplitude overview of a recording with a playhead.
+ * Clicking seeks. The file is only decoded once the waveform scrolls into view.
+ */
+const Waveform: React.FC<WaveformProps> = ({ src, progress, region, onSeek, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+  const [isVisible, setIsVisible] = useState<boolean>(typeof IntersectionObserver === 'undefined');
+  const [hasError, setHasError] = useState<boolean>(false);
+
+  // Defer decoding until visible (the View All list has many rows)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (isVisible || !canvas) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) setIsVisible(true);
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [isVisible]);
+
+  useEffect(() => {
+    if (!isVisible) return;
+    let cancelled = false;
+    setPeaks(null);
+    setHasError(false);
+    loadWaveformPeaks(src)
+      .then(loaded => { if (!cancelled) setPeaks(loaded); })
+      .catch(err => {
+        console.warn(`Could not draw waveform for ${src}:`, err);
+        if (!cancelled) setHasError(true);
+      });
+    return () => { cancelled = true; };
+  }, [src, isVisible]);
+
+  // Compare by value so a new region object with the same bounds doesn't redraw
+  const regionStart = region?.start;
+  const regionEnd = region?.end;
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !peaks) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.clientWidth * ratio;
+    canvas.height = canvas.clientHeight * ratio;
+    const { width, height } = canvas;
+    const barWidth = width / peaks.length;
+    context.clearRect(0, 0, width, height);
+    if (regionStart !== undefined && regionEnd !== undefined) {
+      context.fillStyle = REGION_COLOR;
+      context.fillRect(regionStart * width, 0, (regionEnd - regionStart) * width, height);
+    }
+    peaks.forEach((peak, i) => {
+      const barHeight = Math.max(peak * height, ratio);
+      context.fillStyle = (i + 0.5) / peaks.length <= progress ? PLAYED_COLOR : UNPLAYED_COLOR;
+      context.fillRect(i * barWidth, (height - barHeight) / 2, Math.max(barWidth - ratio, ratio), barHeight);
+    });
+    // Playhead
+    context.fillStyle = '#1F2937';
+    context.fillRect(Math.min(progress, 1) * width - ratio / 2, 0, ratio, height);
+  }, [peaks, progress, regionStart, regionEnd]);
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.stopPropagation(); // Don't flip the card
+    if (!onSeek || !peaks) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1));
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <canvas
+        ref={canvasRef}
+        onClick={handleClick}
+        className={`w-full h-full ${onSeek && peaks ? 'cursor-pointer' : ''}`}
+        aria-label="Waveform (click to seek)"
+        title={onSeek ? 'Click to seek' : undefined}
+      />
+      {!peaks && (
+        <span className="absolute inset-0 flex items-center justify-center text-[10px] text-gray-400 pointer-events-none">
+          {hasError ? 'Waveform unavailable' : 'Loading waveform…'}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default Waveform;
@@ -3,3 +3,10 @@ export const AUDIO_DIR = "/audio/"; // Path relative to the public folder
 export const IMAGE_DIR = "/bird_images/"; // Path relative to the public folder
 export const MANIFEST_URL = `${AUDIO_DIR}manifest.json`; // Path to the manifest file
 export const MAPPING_URL = "/data/bird_mapping.json"; // Path to the new mapping file
+// Extra REST card sources, loaded for everyone (comma-separated URLs in REACT_APP_CARD_SOURCE_URLS)
+export const CARD_SOURCE_URLS: string[] = (process.env.REACT_APP_CARD_SOURCE_URLS ?? "")
+    .split(",")
+    .map(url => url.trim())
+    .filter(Boolean);
+// Fuse.js threshold shared by search and typed-answer grading (0 = exact, 1 = match anything)
+export const NAME_MATCH_THRESHOLD = 0.3;
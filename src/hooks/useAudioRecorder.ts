@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Long enough for a field recording, short enough to keep IndexedDB small
+export const MAX_RECORDING_SECONDS = 120;
+
+export interface AudioRecorder {
+  isSupported: boolean;
+  isRecording: boolean;
+  elapsed: number; // Seconds recorded so far
+  recording: Blob | null; // The finished recording
+  error: string | null;
+  start: () => Promise<void>;
+  stop: () => void;
+  reset: () => void;
+}
+
+/**
+ * Whether the browser can record from the microphone.
+ */
+export const isRecordingSupported = (): boolean =>
+  typeof window !== 'undefined' && 'MediaRecorder' in window && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Records audio from the microphone with MediaRecorder. Recording stops by
+ * itself after MAX_RECORDING_SECONDS; the microphone is released when it
+ * stops or the component unmounts.
+ * @returns {AudioRecorder} Recorder state and actions.
+ */
+export function useAudioRecorder(): AudioRecorder {
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [elapsed, setElapsed] = useState<number>(0);
+  const [recording, setRecording] = useState<Blob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const isUnmountedRef = useRef(false); // The microphone prompt can outlive the component
+
+  const releaseMicrophone = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  }, []);
+
+  // Stops without keeping the take: onstop would otherwise deliver it after a reset
+  const discard = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder?.state === 'recording') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    setIsRecording(false);
+    releaseMicrophone();
+  }, [releaseMicrophone]);
+
+  const start = useCallback(async () => {
+    if (!isRecordingSupported() || recorderRef.current?.state === 'recording') return;
+    setError(null);
+    setRecording(null);
+    setElapsed(0);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (isUnmountedRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      streamRef.current = stream;
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+      recorder.onstop = () => {
+        setRecording(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+        setIsRecording(false);
+        releaseMicrophone();
+      };
+      recorderRef.current = recorder;
+      recorder.start();
+      setIsRecording(true);
+    } catch (err) {
+      console.error("Error starting the recording:", err);
+      releaseMicrophone();
+      setError(err instanceof DOMException && err.name === 'NotAllowedError'
+        ? 'Microphone access was denied.'
+        : 'Could not start recording.');
+    }
+  }, [releaseMicrophone]);
+
+  const reset = useCallback(() => {
+    discard();
+    setRecording(null);
+    setElapsed(0);
+    setError(null);
+  }, [discard]);
+
+  // Count the seconds and stop at the limit
+  useEffect(() => {
+    if (!isRecording) return;
+    const startedAt = Date.now();
+    const timer = window.setInterval(() => {
+      const seconds = Math.floor((Date.now() - startedAt) / 1000);
+      setElapsed(seconds);
+      if (seconds >= MAX_RECORDING_SECONDS) stop();
+    }, 250);
+    return () => window.clearInterval(timer);
+  }, [isRecording, stop]);
+
+  // Never leave the microphone on
+  useEffect(() => {
+    isUnmountedRef.current = false;
+    return () => {
+      isUnmountedRef.current = true;
+      discard();
+    };
+  }, [discard]);
+
+  return { isSupported: isRecordingSupported(), isRecording, elapsed, recording, error, start, stop, reset };
+}
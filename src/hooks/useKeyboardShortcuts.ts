@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react';
+import { KeyBindings, ShortcutAction } from '../types';
+import { eventToBinding, findActionForBinding, isTypingTarget } from '../utils/keyBindings';
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+/**
+ * Runs the handler bound to each key press. Ignored while typing in a text
+ * field and when Ctrl/Alt/Meta are held, so browser shortcuts keep working.
+ * @param {KeyBindings} bindings - Key for each action.
+ * @param {ShortcutHandlers} handlers - Handlers for the actions currently available.
+ * @param {boolean} enabled - Set false to suspend shortcuts (e.g. while remapping keys).
+ */
+export function useKeyboardShortcuts(bindings: KeyBindings, handlers: ShortcutHandlers, enabled: boolean = true): void {
+  // Keep the latest handlers without re-registering the listener on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.altKey || event.metaKey || isTypingTarget(event.target)) return;
+      const action = findActionForBinding(bindings, eventToBinding(event));
+      const handler = action ? handlersRef.current[action] : undefined;
+      if (!handler) return;
+      event.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, enabled]);
+}
@@ -0,0 +1,221 @@
+import React, { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { LoopRegion, PlaybackSettings } from '../types';
+import { canRouteAudio, findElementGraph, getElementGraph, isWebAudioSupported, loadRecordingSummary, normalizationGain } from '../utils/audioAnalysis';
+import {
+  loadLoopRegions,
+  loadPlaybackSettings,
+  makeLoopRegion,
+  saveLoopRegions,
+  savePlaybackSettings,
+  StoredLoopRegions,
+} from '../utils/playbackStore';
+
+type PitchPreservingAudio = HTMLAudioElement & { preservesPitch?: boolean; webkitPreservesPitch?: boolean };
+
+export interface PlaybackControls {
+  isPlaying: boolean;
+  settings: PlaybackSettings;
+  loopRegion: LoopRegion | null; // Saved A-B loop of the current recording
+  activeRegion: LoopRegion | null; // What plays: the user's loop, else the curated clip, else null (whole file)
+  changeSettings: (changes: Partial<PlaybackSettings>) => void;
+  setLoopPoint: (point: 'start' | 'end') => boolean; // False if the resulting loop would be too short
+  clearLoop: () => void;
+  togglePlayPause: (e?: React.MouseEvent) => void;
+  restart: () => void; // Load and play the current recording from the top (or its loop start)
+  audioHandlers: { onPlay: () => void; onPause: () => void; onEnded: () => void };
+}
+
+/**
+ * Player logic for the study card's audio element: curated clips, A-B loops
+ * saved per recording (which override clips), pitch-preserving slow-down,
+ * repeat counts and volume normalisation.
+ * @param {RefObject<HTMLAudioElement>} audioRef - The card's audio element.
+ * @param {string | null} recordingId - Id of the current recording (loops are saved under it).
+ * @param {string | null} src - URL of the current recording.
+ * @param {LoopRegion | null} clip - Curated clip from the mapping file, or null for the whole file.
+ * @param {() => void} onPlay - Called when the learner starts playback, not on repeats (e.g. to log it).
+ * @returns {PlaybackControls} State, actions and the handlers to attach to the audio element.
+ */
+export function usePlaybackControls(
+  audioRef: RefObject<HTMLAudioElement>,
+  recordingId: string | null,
+  src: string | null,
+  clip: LoopRegion | null,
+  onPlay?: () => void
+): PlaybackControls {
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [settings, setSettings] = useState<PlaybackSettings>(loadPlaybackSettings);
+  const [loopRegions, setLoopRegions] = useState<StoredLoopRegions>(loadLoopRegions);
+  const playCountRef = useRef(0); // Completed plays of the loop/recording in the current run
+  // A region ending at the end of the file is seen by both the frame check and onEnded; count it once
+  const passFinishedRef = useRef(false);
+  const isRepeatingRef = useRef(false); // The next play event is an automatic repeat, not the user's
+
+  const loopRegion = (recordingId && loopRegions[recordingId]) || null;
+  const activeRegion = loopRegion ?? clip;
+
+  useEffect(() => {
+    savePlaybackSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    saveLoopRegions(loopRegions);
+  }, [loopRegions]);
+
+  // A new recording starts stopped, with a fresh repeat count
+  useEffect(() => {
+    setIsPlaying(false);
+    playCountRef.current = 0;
+    passFinishedRef.current = false;
+    isRepeatingRef.current = false;
+  }, [src]);
+
+  // Speed: load() resets playbackRate to defaultPlaybackRate, so set both
+  useEffect(() => {
+    const audio = audioRef.current as PitchPreservingAudio | null;
+    if (!audio) return;
+    audio.preservesPitch = true;
+    audio.webkitPreservesPitch = true;
+    audio.defaultPlaybackRate = settings.rate;
+    audio.playbackRate = settings.rate;
+  }, [audioRef, settings.rate, src]);
+
+  // Volume normalisation goes through a Web Audio gain node, so quiet recordings can be boosted too.
+  // The graph is only wired up once playback starts (a user gesture), and never for audio from another origin.
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !src || !isWebAudioSupported() || !canRouteAudio(src)) return;
+    if (!settings.normalizeVolume) {
+      const graph = findElementGraph(audio);
+      if (graph) graph.gain.gain.value = 1;
+      return;
+    }
+    if (!isPlaying) return;
+    let cancelled = false;
+    const graph = getElementGraph(audio);
+    loadRecordingSummary(src)
+      .then(summary => { if (!cancelled) graph.gain.gain.value = normalizationGain(summary); })
+      .catch(err => console.warn(`Could not measure loudness of ${src}:`, err));
+    return () => { cancelled = true; };
+  }, [audioRef, src, settings.normalizeVolume, isPlaying]);
+
+  // One play of the region (or whole recording) has finished: go again or stop
+  const handlePlayFinished = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio || passFinishedRef.current) return;
+    passFinishedRef.current = true;
+    playCountRef.current++;
+    const start = activeRegion?.start ?? 0;
+    if (settings.repeatCount === 0 || playCountRef.current < settings.repeatCount) {
+      audio.currentTime = start;
+      if (audio.paused) {
+        // The next pass starts with the play event
+        isRepeatingRef.current = true;
+        audio.play().catch(err => {
+          isRepeatingRef.current = false;
+          console.error("Error repeating audio:", err);
+        });
+      } else {
+        passFinishedRef.current = false;
+      }
+    } else {
+      playCountRef.current = 0;
+      audio.pause();
+      audio.currentTime = start;
+    }
+  }, [audioRef, activeRegion, settings.repeatCount]);
+
+  // timeupdate only fires a few times a second, so watch the region end every frame
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !isPlaying || !activeRegion) return;
+    let frame = 0;
+    const check = () => {
+      if (audio.currentTime >= activeRegion.end) handlePlayFinished();
+      frame = requestAnimationFrame(check);
+    };
+    frame = requestAnimationFrame(check);
+    return () => cancelAnimationFrame(frame);
+  }, [audioRef, isPlaying, activeRegion, handlePlayFinished]);
+
+  const handlePlay = useCallback(() => {
+    const audio = audioRef.current;
+    // Playing from outside the region jumps to its start
+    if (audio && activeRegion && (audio.currentTime < activeRegion.start || audio.currentTime >= activeRegion.end)) {
+      audio.currentTime = activeRegion.start;
+    }
+    passFinishedRef.current = false;
+    setIsPlaying(true);
+    // Only plays the user starts count as plays; repeats are part of the same listen
+    if (isRepeatingRef.current) {
+      isRepeatingRef.current = false;
+    } else {
+      onPlay?.();
+    }
+  }, [audioRef, activeRegion, onPlay]);
+
+  const handlePause = useCallback(() => setIsPlaying(false), []);
+
+  const togglePlayPause = useCallback((e?: React.MouseEvent) => {
+    e?.stopPropagation(); // Keep the click from flipping the card
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (isPlaying) {
+      audio.pause();
+    } else {
+      audio.play().catch(err => {
+        console.error("Error playing audio manually:", err);
+      });
+    }
+  }, [audioRef, isPlaying]);
+
+  const restart = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    playCountRef.current = 0;
+    // Important: Load the new source before trying to play
+    audio.load();
+    audio.play().catch(error => {
+      // Autoplay was prevented; the user can press play
+      console.warn("Audio autoplay failed:", error);
+    });
+  }, [audioRef]);
+
+  const changeSettings = useCallback((changes: Partial<PlaybackSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const setLoopPoint = useCallback((point: 'start' | 'end') => {
+    const audio = audioRef.current;
+    if (!audio || !recordingId || !isFinite(audio.duration)) return false;
+    // The other end defaults to the clip's (or the file's) bounds
+    const region = point === 'start'
+      ? makeLoopRegion(audio.currentTime, activeRegion?.end ?? audio.duration)
+      : makeLoopRegion(activeRegion?.start ?? 0, audio.currentTime);
+    if (!region) return false;
+    setLoopRegions(prev => ({ ...prev, [recordingId]: region }));
+    console.log(`Loop for ${recordingId}: ${region.start.toFixed(2)}s - ${region.end.toFixed(2)}s`);
+    return true;
+  }, [audioRef, recordingId, activeRegion]);
+
+  const clearLoop = useCallback(() => {
+    if (!recordingId) return;
+    setLoopRegions(prev => {
+      const { [recordingId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, [recordingId]);
+
+  return {
+    isPlaying,
+    settings,
+    loopRegion,
+    activeRegion,
+    changeSettings,
+    setLoopPoint,
+    clearLoop,
+    togglePlayPause,
+    restart,
+    audioHandlers: { onPlay: handlePlay, onPause: handlePause, onEnded: handlePlayFinished },
+  };
+}
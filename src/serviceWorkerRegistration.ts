@@ -0,0 +1,18 @@
+/**
+ * Registers the offline service worker (public/service-worker.js).
+ * Only done in production builds so the dev server's hot reloading isn't cached.
+ */
+export function register(): void {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${process.env.PUBLIC_URL}/service-worker.js`)
+      .then(registration => {
+        console.log(`Service worker registered with scope ${registration.scope}`);
+      })
+      .catch(error => {
+        console.error('Service worker registration failed:', error);
+      });
+  });
+}
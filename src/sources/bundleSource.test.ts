@@ -0,0 +1,27 @@
+import { TextDecoder } from 'util';
+import { bundleFromEntries } from './bundleSource';
+
+// jsdom has no TextDecoder
+Object.assign(global, { TextDecoder });
+
+const encode = (text: string) => new Uint8Array(Buffer.from(text));
+const mapping = { veery: { displayName: 'Veery', image: 'Veery.jpg', recordings: [{ file: 'Veery.mp3', type: 'song' }] } };
+
+test('bundle files are matched by name and the manifest defaults to the audio in the zip', () => {
+  const bundle = bundleFromEntries([
+    { name: 'my-birds/data/bird_mapping.json', data: encode(JSON.stringify(mapping)) },
+    { name: 'my-birds/audio/Veery.mp3', data: new Uint8Array([1, 2, 3]) },
+    { name: 'my-birds/images/Veery.jpg', data: new Uint8Array([4]) },
+    { name: 'my-birds/notes.txt', data: encode('ignored') },
+    { name: '__MACOSX/my-birds/audio/._Veery.mp3', data: new Uint8Array([0]) },
+  ], 'Backyard.zip');
+  expect(bundle.name).toBe('Backyard');
+  expect(bundle.manifest).toEqual(['Veery.mp3']);
+  expect(bundle.mapping).toEqual(mapping);
+  expect(Object.keys(bundle.files).sort()).toEqual(['Veery.jpg', 'Veery.mp3']);
+  expect(bundle.files['Veery.mp3'].type).toBe('audio/mpeg');
+});
+
+test('a bundle without a mapping file is rejected', () => {
+  expect(() => bundleFromEntries([{ name: 'Veery.mp3', data: new Uint8Array([1]) }], 'x.zip')).toThrow('bird_mapping.json');
+});
@@ -0,0 +1,123 @@
+import { readZip, ZipEntry } from "../utils/zipReader";
+import { CardSource } from "./cardSource";
+import { StoredBundle } from "./bundleStore";
+
+// Mapping file names accepted in a bundle, in order of preference
+export const BUNDLE_MAPPING_FILES = ["bird_mapping.json", "mapping.json"];
+export const BUNDLE_MANIFEST_FILE = "manifest.json";
+// Optional { "name": "..." } metadata
+export const BUNDLE_INFO_FILE = "bundle.json";
+
+const MIME_TYPES: Record<string, string> = {
+    mp3: "audio/mpeg",
+    wav: "audio/wav",
+    ogg: "audio/ogg",
+    oga: "audio/ogg",
+    m4a: "audio/mp4",
+    aac: "audio/aac",
+    flac: "audio/flac",
+    webm: "audio/webm",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    png: "image/png",
+    webp: "image/webp",
+    gif: "image/gif",
+};
+
+const extensionOf = (name: string): string => name.slice(name.lastIndexOf(".") + 1).toLowerCase();
+const baseName = (path: string): string => path.slice(path.lastIndexOf("/") + 1);
+
+/**
+ * Turns the files of a zip bundle into a stored bundle. Folders inside the
+ * zip don't matter: files are matched by name. Without a manifest.json, every
+ * audio file in the zip counts as listed.
+ * @param {ZipEntry[]} entries - The zip's files.
+ * @param {string} fileName - The zip's file name (default bundle name).
+ * @returns {StoredBundle} The bundle.
+ */
+export function bundleFromEntries(entries: ZipEntry[], fileName: string): StoredBundle {
+    const decoder = new TextDecoder();
+    const byName = new Map<string, ZipEntry>();
+    entries
+        .filter(entry => !entry.name.startsWith("__MACOSX/") && !baseName(entry.name).startsWith("."))
+        .forEach(entry => byName.set(baseName(entry.name), entry));
+
+    const readJson = (name: string): unknown => {
+        const entry = byName.get(name);
+        if (!entry) return undefined;
+        try {
+            return JSON.parse(decoder.decode(entry.data));
+        } catch {
+            throw new Error(`${name} in the bundle is not valid JSON.`);
+        }
+    };
+
+    const mappingFile = BUNDLE_MAPPING_FILES.find(name => byName.has(name));
+    if (!mappingFile) throw new Error(`The bundle has no ${BUNDLE_MAPPING_FILES.join(" or ")}.`);
+
+    const files: Record<string, Blob> = {};
+    byName.forEach((entry, name) => {
+        const type = MIME_TYPES[extensionOf(name)];
+        if (type) files[name] = new Blob([entry.data], { type });
+    });
+    const audioFiles = Object.keys(files).filter(name => files[name].type.startsWith("audio/"));
+    const manifest = readJson(BUNDLE_MANIFEST_FILE);
+    const info = readJson(BUNDLE_INFO_FILE) as { name?: unknown } | undefined;
+
+    return {
+        id: `bundle-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+        name: typeof info?.name === "string" && info.name.trim() ? info.name.trim() : fileName.replace(/\.zip$/i, ""),
+        addedAt: new Date().toISOString(),
+        manifest: Array.isArray(manifest) ? manifest : audioFiles,
+        mapping: readJson(mappingFile),
+        files,
+    };
+}
+
+/**
+ * Reads a deck bundle chosen with a file picker.
+ * @param {File} file - A .zip with audio, images and a mapping file.
+ * @returns {Promise<StoredBundle>} The bundle, ready to store.
+ */
+export async function readBundleFile(file: File): Promise<StoredBundle> {
+    return bundleFromEntries(await readZip(await file.arrayBuffer()), file.name);
+}
+
+/**
+ * A source serving a stored bundle's files from object URLs.
+ * @param {StoredBundle} bundle - The bundle.
+ * @returns {CardSource} The source; call dispose() to release the URLs.
+ */
+export function createBundleSource(bundle: StoredBundle): CardSource {
+    const urls = new Map<string, string>();
+    const urlFor = (file: string): string => {
+        let url = urls.get(file);
+        if (!url) {
+            const blob = bundle.files[file];
+            // Missing files get a URL that fails to load, like a 404 would
+            url = blob ? URL.createObjectURL(blob) : `about:blank#missing-${encodeURIComponent(file)}`;
+            urls.set(file, url);
+        }
+        return url;
+    };
+    const fileNames = Object.keys(bundle.files);
+    return {
+        id: bundle.id,
+        name: bundle.name,
+        kind: "bundle",
+        load: async () => ({
+            manifest: bundle.manifest,
+            mapping: bundle.mapping,
+            audioUrl: urlFor,
+            imageUrl: urlFor,
+            files: {
+                audio: new Set(fileNames.filter(name => bundle.files[name].type.startsWith("audio/"))),
+                images: new Set(fileNames.filter(name => bundle.files[name].type.startsWith("image/"))),
+            },
+        }),
+        dispose: () => {
+            urls.forEach(url => { if (url.startsWith("blob:")) URL.revokeObjectURL(url); });
+            urls.clear();
+        },
+    };
+}
@@ -0,0 +1,48 @@
+import { IndexedDbConfig, isIndexedDbSupported, withStore } from "../utils/indexedDb";
+
+// Deck bundles loaded from zip files, kept in IndexedDB (audio is too big for localStorage)
+
+export const BUNDLE_DB_NAME = "birdFlashcardBundles";
+const BUNDLE_STORE = "bundles";
+const BUNDLE_DB: IndexedDbConfig = { name: BUNDLE_DB_NAME, version: 1, stores: [BUNDLE_STORE] };
+
+export interface StoredBundle {
+    id: string;
+    name: string;
+    addedAt: string; // ISO timestamp
+    manifest: string[]; // Audio filenames
+    mapping: unknown; // Same shape as bird_mapping.json (validated on load)
+    files: Record<string, Blob>; // Audio and images by filename
+}
+
+/**
+ * Whether IndexedDB is available (it isn't in some private browsing modes).
+ */
+export const isBundleStorageSupported = isIndexedDbSupported;
+
+const withBundleStore = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+    withStore(BUNDLE_DB, BUNDLE_STORE, mode, run);
+
+/**
+ * Reads all stored bundles, oldest first.
+ * @returns {Promise<StoredBundle[]>} The bundles (empty if IndexedDB is unavailable).
+ */
+export async function loadBundles(): Promise<StoredBundle[]> {
+    if (!isBundleStorageSupported()) return [];
+    const bundles = await withBundleStore<StoredBundle[]>("readonly", store => store.getAll());
+    return bundles.sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+}
+
+/**
+ * Stores (or replaces) a bundle.
+ */
+export async function saveBundle(bundle: StoredBundle): Promise<void> {
+    await withBundleStore("readwrite", store => store.put(bundle));
+}
+
+/**
+ * Deletes a stored bundle.
+ */
+export async function deleteBundle(id: string): Promise<void> {
+    await withBundleStore("readwrite", store => store.delete(id));
+}
@@ -0,0 +1,150 @@
+import { Card, Deck, Recording } from "../types";
+import { DataReport, KnownFiles, validateBirdData } from "../utils/dataValidation";
+import { parseClips } from "../utils/recordingUtils";
+import { findStoredStatus, resolveCardStatus, StoredStatuses } from "../utils/storageUtils";
+
+// Where cards come from: the app's own files in public/, a zip bundle the
+// user loaded (kept in IndexedDB), a REST endpoint, or species the user
+// added with their own recordings. Every source provides
+// the same manifest + mapping pair, so one validation and card-building path
+// serves them all.
+
+export type CardSourceKind = "static" | "bundle" | "rest" | "personal";
+
+// Id of the built-in source; its cards keep their plain species ids
+export const STATIC_SOURCE_ID = "static";
+
+// Cards and recordings of other sources are namespaced as "<sourceId>/<id>"
+export const SOURCE_ID_SEPARATOR = "/";
+
+// What a source loads: the two data files plus how to turn filenames into URLs
+export interface SourceData {
+    manifest: unknown;
+    mapping: unknown;
+    audioUrl: (file: string) => string;
+    imageUrl: (file: string) => string;
+    files?: KnownFiles; // Files known to exist (bundles list their contents)
+}
+
+export interface CardSource {
+    id: string;
+    name: string;
+    kind: CardSourceKind;
+    load: () => Promise<SourceData>;
+    dispose?: () => void; // Releases object URLs and the like
+}
+
+export interface LoadedSource {
+    id: string;
+    name: string;
+    kind: CardSourceKind;
+    cards: Card[];
+    report: DataReport | null; // Null when the source could not be loaded
+    error: string | null;
+    // For checking files over the network; null when the source listed its files
+    audioUrl: ((file: string) => string) | null;
+    imageUrl: ((file: string) => string) | null;
+}
+
+/**
+ * Prefixes an id with its source, except for the built-in source.
+ */
+export const scopeId = (sourceId: string, id: string): string =>
+    sourceId === STATIC_SOURCE_ID ? id : `${sourceId}${SOURCE_ID_SEPARATOR}${id}`;
+
+/**
+ * Whether a card id belongs to a source other than the built-in one.
+ */
+export const isScopedId = (id: string): boolean => id.includes(SOURCE_ID_SEPARATOR);
+
+/**
+ * Creates one card per valid species (with its recordings that are in the
+ * manifest) and applies saved statuses.
+ * @param {CardSource} source - The source the data came from.
+ * @param {SourceData} data - The loaded data (for URLs).
+ * @param {DataReport} report - The validated data.
+ * @param {StoredStatuses} savedStatuses - Saved progress.
+ * @param {Date} now - The current time.
+ * @returns {Card[]} The source's cards.
+ */
+export function buildSourceCards(source: CardSource, data: SourceData, report: DataReport, savedStatuses: StoredStatuses, now: Date): Card[] {
+    const availableAudio = new Set(report.manifest);
+    return Object.entries(report.species).flatMap(([speciesId, mappingData]) => {
+        const recordings: Recording[] = mappingData.recordings
+            .filter(recording => availableAudio.has(recording.file))
+            .map(recording => ({
+                id: scopeId(source.id, recording.file),
+                audioFilename: recording.file,
+                src: data.audioUrl(recording.file),
+                type: recording.type ?? "song",
+                clips: parseClips(recording.clips, recording.file),
+                ...(source.kind === "personal" ? { isPersonal: true } : {}),
+            }));
+        if (recordings.length === 0) return [];
+
+        // Get status by species ID (or legacy filename); legacy entries are migrated into a schedule
+        const cardId = scopeId(source.id, speciesId);
+        const savedStatus = resolveCardStatus(
+            findStoredStatus(savedStatuses, cardId, recordings.map(recording => recording.id)),
+            now
+        );
+
+        return [{
+            id: cardId,
+            displayName: mappingData.displayName || "Unknown Bird",
+            imgSrc: mappingData.image ? data.imageUrl(mappingData.image) : null,
+            scientificName: mappingData.scientificName ?? null,
+            family: mappingData.family ?? null,
+            familyCommonName: mappingData.familyCommonName ?? null,
+            order: mappingData.order ?? null,
+            habitats: mappingData.habitats ?? [],
+            regions: mappingData.regions ?? [],
+            season: mappingData.season ?? null,
+            presence: mappingData.presence ?? {},
+            defaultNotes: mappingData.notes ?? null,
+            recordings,
+            ...(source.id === STATIC_SOURCE_ID ? {} : { sourceId: source.id }),
+            ...savedStatus,
+        }];
+    });
+}
+
+/**
+ * Loads, validates and builds the cards of one source. Failures are
+ * reported in the result rather than thrown, so one broken source doesn't
+ * hide the others.
+ * @param {CardSource} source - The source.
+ * @param {StoredStatuses} savedStatuses - Saved progress.
+ * @param {Date} now - The current time.
+ * @returns {Promise<LoadedSource>} Cards, validation report and any error.
+ */
+export async function loadCardSource(source: CardSource, savedStatuses: StoredStatuses, now: Date = new Date()): Promise<LoadedSource> {
+    const base = { id: source.id, name: source.name, kind: source.kind };
+    try {
+        const data = await source.load();
+        const report = validateBirdData(data.manifest, data.mapping, data.files);
+        const fatalIssue = report.issues.find(issue => issue.code === "invalidManifest" || issue.code === "invalidMapping");
+        if (fatalIssue) throw new Error(fatalIssue.message);
+        report.issues.forEach(issue => console.warn(`[${source.name}] ${issue.message}`));
+        const cards = buildSourceCards(source, data, report, savedStatuses, now);
+        // Bundles already had their files checked against their contents
+        return {
+            ...base, cards, report, error: null,
+            audioUrl: data.files?.audio ? null : data.audioUrl,
+            imageUrl: data.files?.images ? null : data.imageUrl,
+        };
+    } catch (err) {
+        console.error(`Error loading card source "${source.name}":`, err);
+        return { ...base, cards: [], report: null, error: err instanceof Error ? err.message : "An unknown error occurred", audioUrl: null, imageUrl: null };
+    }
+}
+
+/**
+ * Presents a loaded source as a read-only deck (external sources only).
+ */
+export const toSourceDeck = (source: LoadedSource): Deck => ({
+    id: `source:${source.id}`,
+    name: source.name,
+    cardIds: source.cards.map(card => card.id),
+    createdAt: new Date(0).toISOString(),
+});
@@ -0,0 +1,29 @@
+import { attachPersonalRecordings, createPersonalSource } from './personalSource';
+import { PersonalLibrary } from './personalStore';
+import { makeCard, makeRecording } from '../utils/testCards';
+
+const audio = new Blob([new Uint8Array([1])], { type: 'audio/webm' });
+const library: PersonalLibrary = {
+  species: [{ id: 'species-1', displayName: 'Backyard Mystery', createdAt: '2024-05-01T00:00:00.000Z', image: null }],
+  recordings: [
+    { id: 'recording-1', cardId: 'personal/species-1', type: 'song', createdAt: '2024-05-01T00:00:00.000Z', audio },
+    { id: 'recording-2', cardId: 'veery', type: 'call', createdAt: '2024-05-02T00:00:00.000Z', audio },
+  ],
+};
+
+test('personal species become a mapping that only lists their own recordings', async () => {
+  const data = await createPersonalSource(library).load();
+  expect(data.manifest).toEqual(['recording-1']);
+  expect(data.mapping).toEqual({
+    'species-1': { displayName: 'Backyard Mystery', recordings: [{ file: 'recording-1', type: 'song' }] },
+  });
+});
+
+test('recordings for other cards are appended to those cards', () => {
+  const veery = makeCard('veery', { displayName: 'Veery', recordings: [makeRecording('Veery.mp3')] });
+  const thrush = makeCard('wood-thrush', { displayName: 'Wood Thrush', recordings: [] });
+  const [withMine, untouched] = attachPersonalRecordings([veery, thrush], library.recordings, id => `blob:${id}`);
+  expect(withMine.recordings.map(recording => recording.id)).toEqual(['Veery.mp3', 'personal/recording-2']);
+  expect(withMine.recordings[1]).toMatchObject({ src: 'blob:recording-2', type: 'call', isPersonal: true });
+  expect(untouched).toBe(thrush);
+});
@@ -0,0 +1,96 @@
+import { Card, Recording } from "../types";
+import { CardSource, scopeId } from "./cardSource";
+import { PersonalLibrary, PersonalRecording } from "./personalStore";
+
+// Id of the source holding the user's own species; their recordings are scoped with it too
+export const PERSONAL_SOURCE_ID = "personal";
+
+const imageFileOf = (speciesId: string): string => `${speciesId}-image`;
+
+export interface PersonalCardSource extends CardSource {
+    audioUrl: (recordingId: string) => string; // Also serves recordings attached to other sources' cards
+}
+
+/**
+ * A source for the species the user added, built from the personal library
+ * as if it were a manifest and mapping. Audio and photos are served from
+ * object URLs.
+ * @param {PersonalLibrary} library - The stored recordings and species.
+ * @returns {PersonalCardSource} The source; call dispose() to release the URLs.
+ */
+export function createPersonalSource(library: PersonalLibrary): PersonalCardSource {
+    const blobs = new Map<string, Blob>();
+    library.recordings.forEach(recording => blobs.set(recording.id, recording.audio));
+    library.species.forEach(species => { if (species.image) blobs.set(imageFileOf(species.id), species.image); });
+
+    const urls = new Map<string, string>();
+    const urlFor = (file: string): string => {
+        let url = urls.get(file);
+        if (!url) {
+            const blob = blobs.get(file);
+            url = blob ? URL.createObjectURL(blob) : `about:blank#missing-${encodeURIComponent(file)}`;
+            urls.set(file, url);
+        }
+        return url;
+    };
+
+    // Only recordings of personal species belong in this source's manifest
+    const speciesCardIds = new Set(library.species.map(species => scopeId(PERSONAL_SOURCE_ID, species.id)));
+    const ownRecordings = library.recordings.filter(recording => speciesCardIds.has(recording.cardId));
+    const mapping = Object.fromEntries(library.species.map(species => {
+        const cardId = scopeId(PERSONAL_SOURCE_ID, species.id);
+        return [species.id, {
+            displayName: species.displayName,
+            ...(species.image ? { image: imageFileOf(species.id) } : {}),
+            recordings: ownRecordings
+                .filter(recording => recording.cardId === cardId)
+                .map(recording => ({ file: recording.id, type: recording.type })),
+        }];
+    }));
+
+    return {
+        id: PERSONAL_SOURCE_ID,
+        name: "My recordings",
+        kind: "personal",
+        audioUrl: urlFor,
+        load: async () => ({
+            manifest: ownRecordings.map(recording => recording.id),
+            mapping,
+            audioUrl: urlFor,
+            imageUrl: urlFor,
+            files: {
+                audio: new Set(ownRecordings.map(recording => recording.id)),
+                images: new Set(library.species.filter(species => species.image).map(species => imageFileOf(species.id))),
+            },
+        }),
+        dispose: () => {
+            urls.forEach(url => { if (url.startsWith("blob:")) URL.revokeObjectURL(url); });
+            urls.clear();
+        },
+    };
+}
+
+/**
+ * Adds personal recordings to the cards they were made for. Recordings for
+ * cards that aren't loaded (e.g. of a removed bundle) are left out.
+ * @param {Card[]} cards - All loaded cards.
+ * @param {PersonalRecording[]} recordings - The personal recordings.
+ * @param {Function} audioUrl - Turns a recording id into a playable URL.
+ * @returns {Card[]} The cards, with their personal recordings appended.
+ */
+export function attachPersonalRecordings(cards: Card[], recordings: PersonalRecording[], audioUrl: (recordingId: string) => string): Card[] {
+    return cards.map(card => {
+        const own = recordings.filter(recording => recording.cardId === card.id);
+        // Personal species already carry theirs
+        if (own.length === 0 || card.sourceId === PERSONAL_SOURCE_ID) return card;
+        const extra: Recording[] = own.map(recording => ({
+            id: scopeId(PERSONAL_SOURCE_ID, recording.id),
+            audioFilename: recording.id,
+            src: audioUrl(recording.id),
+            type: recording.type,
+            clips: [],
+            isPersonal: true,
+        }));
+        return { ...card, recordings: [...card.recordings, ...extra] };
+    });
+}
@@ -0,0 +1,87 @@
+import { RecordingType } from "../types";
+import { IndexedDbConfig, isIndexedDbSupported, withStore } from "../utils/indexedDb";
+
+// The user's own field recordings (and species they added for them), kept in IndexedDB
+
+export const PERSONAL_DB_NAME = "birdFlashcardPersonal";
+const RECORDING_STORE = "recordings";
+const SPECIES_STORE = "species";
+const PERSONAL_DB: IndexedDbConfig = { name: PERSONAL_DB_NAME, version: 1, stores: [RECORDING_STORE, SPECIES_STORE] };
+
+export interface PersonalRecording {
+    id: string;
+    cardId: string; // Card the recording belongs to: any loaded card, or "personal/<species id>"
+    type: RecordingType;
+    createdAt: string; // ISO timestamp
+    audio: Blob;
+}
+
+// A species the user added that none of the card sources has
+export interface PersonalSpecies {
+    id: string;
+    displayName: string;
+    createdAt: string; // ISO timestamp
+    image: Blob | null;
+}
+
+export interface PersonalLibrary {
+    recordings: PersonalRecording[];
+    species: PersonalSpecies[];
+}
+
+type PersonalStoreName = typeof RECORDING_STORE | typeof SPECIES_STORE;
+
+/**
+ * Whether IndexedDB is available (it isn't in some private browsing modes).
+ */
+export const isPersonalStorageSupported = isIndexedDbSupported;
+
+/**
+ * Creates an id for a new recording or species.
+ */
+export const createPersonalId = (prefix: string): string =>
+    `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const withPersonalStore = <T>(storeName: PersonalStoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+    withStore(PERSONAL_DB, storeName, mode, run);
+
+const byCreatedAt = (a: { createdAt: string }, b: { createdAt: string }): number => a.createdAt.localeCompare(b.createdAt);
+
+/**
+ * Reads all personal recordings and species, oldest first.
+ * @returns {Promise<PersonalLibrary>} The library (empty if IndexedDB is unavailable).
+ */
+export async function loadPersonalLibrary(): Promise<PersonalLibrary> {
+    if (!isPersonalStorageSupported()) return { recordings: [], species: [] };
+    const recordings = await withPersonalStore<PersonalRecording[]>(RECORDING_STORE, "readonly", store => store.getAll());
+    const species = await withPersonalStore<PersonalSpecies[]>(SPECIES_STORE, "readonly", store => store.getAll());
+    return { recordings: recordings.sort(byCreatedAt), species: species.sort(byCreatedAt) };
+}
+
+/**
+ * Stores (or replaces) a personal recording.
+ */
+export async function savePersonalRecording(recording: PersonalRecording): Promise<void> {
+    await withPersonalStore(RECORDING_STORE, "readwrite", store => store.put(recording));
+}
+
+/**
+ * Deletes a personal recording.
+ */
+export async function deletePersonalRecording(id: string): Promise<void> {
+    await withPersonalStore(RECORDING_STORE, "readwrite", store => store.delete(id));
+}
+
+/**
+ * Stores (or replaces) a personal species.
+ */
+export async function savePersonalSpecies(species: PersonalSpecies): Promise<void> {
+    await withPersonalStore(SPECIES_STORE, "readwrite", store => store.put(species));
+}
+
+/**
+ * Deletes a personal species (its recordings are kept until deleted themselves).
+ */
+export async function deletePersonalSpecies(id: string): Promise<void> {
+    await withPersonalStore(SPECIES_STORE, "readwrite", store => store.delete(id));
+}
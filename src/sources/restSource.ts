@@ -0,0 +1,121 @@
+import { CARD_SOURCE_URLS } from "../config";
+import { CardSource } from "./cardSource";
+
+// Key for localStorage
+export const REST_SOURCES_STORAGE_KEY = "birdFlashcardRestSources";
+
+// A REST endpoint added by the user or configured at build time
+export interface RestSourceConfig {
+    id: string;
+    name: string;
+    url: string;
+}
+
+/*
+ * An endpoint answers GET <url> with JSON:
+ *   {
+ *     "name": "Our field recordings",         (optional)
+ *     "manifest": ["Veery 1.mp3", ...],       (audio filenames)
+ *     "mapping": { ...same shape as bird_mapping.json... },
+ *     "audioBaseUrl": "https://.../audio/",   (optional, relative to <url>; default <url>)
+ *     "imageBaseUrl": "https://.../images/"   (optional, likewise)
+ *   }
+ * The endpoint, and audio on another origin, must allow CORS: waveforms, the
+ * data report and field mode fetch the files. Audio from another origin
+ * plays without the spectrogram or volume normalisation (see canRouteAudio).
+ */
+interface RestSourceResponse {
+    name?: unknown;
+    manifest?: unknown;
+    mapping?: unknown;
+    audioBaseUrl?: unknown;
+    imageBaseUrl?: unknown;
+}
+
+/**
+ * Derives a stable source id from an endpoint URL.
+ */
+export function restSourceId(url: string): string {
+    let hash = 0;
+    for (let i = 0; i < url.length; i++) hash = (hash * 31 + url.charCodeAt(i)) | 0;
+    return `rest-${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * Creates the config for a new endpoint.
+ * @param {string} url - The endpoint URL (absolute, or relative to the app).
+ * @param {string} name - Display name; defaults to the host.
+ * @returns {RestSourceConfig} The config.
+ */
+export function createRestSourceConfig(url: string, name?: string): RestSourceConfig {
+    const trimmedUrl = url.trim();
+    const fallbackName = new URL(trimmedUrl, window.location.href).host || trimmedUrl;
+    return { id: restSourceId(trimmedUrl), name: name?.trim() || fallbackName, url: trimmedUrl };
+}
+
+/**
+ * A source that fetches its manifest and mapping from a REST endpoint.
+ * @param {RestSourceConfig} config - The endpoint.
+ * @returns {CardSource} The source.
+ */
+export function createRestSource(config: RestSourceConfig): CardSource {
+    const endpoint = new URL(config.url, window.location.href);
+    return {
+        id: config.id,
+        name: config.name,
+        kind: "rest",
+        load: async () => {
+            const response = await fetch(endpoint.href, { headers: { Accept: "application/json" } });
+            if (!response.ok) throw new Error(`${config.name}: HTTP ${response.status}`);
+            const body: RestSourceResponse = await response.json();
+            const baseUrl = (value: unknown) => new URL(typeof value === "string" ? value : "", endpoint);
+            const audioBase = baseUrl(body.audioBaseUrl);
+            const imageBase = baseUrl(body.imageBaseUrl);
+            return {
+                manifest: body.manifest,
+                mapping: body.mapping,
+                audioUrl: file => new URL(encodeURIComponent(file), audioBase).href,
+                imageUrl: file => new URL(encodeURIComponent(file), imageBase).href,
+            };
+        },
+    };
+}
+
+/**
+ * Endpoints configured at build time (REACT_APP_CARD_SOURCE_URLS).
+ */
+export const getConfiguredRestSources = (): RestSourceConfig[] =>
+    CARD_SOURCE_URLS.map(url => createRestSourceConfig(url));
+
+const isValidRestSourceConfig = (value: unknown): value is RestSourceConfig => {
+    if (typeof value !== "object" || value === null) return false;
+    const config = value as Partial<RestSourceConfig>;
+    return typeof config.id === "string" && typeof config.name === "string" && typeof config.url === "string";
+};
+
+/**
+ * Reads the endpoints the user added.
+ * @returns {RestSourceConfig[]} The saved endpoints (invalid entries dropped).
+ */
+export function loadRestSources(): RestSourceConfig[] {
+    try {
+        const savedData = localStorage.getItem(REST_SOURCES_STORAGE_KEY);
+        if (!savedData) return [];
+        const parsed = JSON.parse(savedData);
+        return Array.isArray(parsed) ? parsed.filter(isValidRestSourceConfig) : [];
+    } catch (storageError) {
+        console.error("Error reading REST sources from localStorage:", storageError);
+        return [];
+    }
+}
+
+/**
+ * Persists the endpoints the user added.
+ */
+export function saveRestSources(sources: RestSourceConfig[]): void {
+    try {
+        localStorage.setItem(REST_SOURCES_STORAGE_KEY, JSON.stringify(sources));
+    } catch (storageError) {
+        console.error("Error saving REST sources to localStorage:", storageError);
+    }
+}
@@ -0,0 +1,28 @@
+import { AUDIO_DIR, IMAGE_DIR, MANIFEST_URL, MAPPING_URL } from "../config";
+import { CardSource, STATIC_SOURCE_ID } from "./cardSource";
+
+/**
+ * The app's own manifest and mapping in public/.
+ * @returns {CardSource} The built-in source.
+ */
+export function createStaticSource(): CardSource {
+    return {
+        id: STATIC_SOURCE_ID,
+        name: "Built-in birds",
+        kind: "static",
+        load: async () => {
+            const [manifestResponse, mappingResponse] = await Promise.all([
+                fetch(MANIFEST_URL),
+                fetch(MAPPING_URL)
+            ]);
+            if (!manifestResponse.ok) throw new Error(`Manifest fetch error! status: ${manifestResponse.status}`);
+            if (!mappingResponse.ok) throw new Error(`Mapping fetch error! status: ${mappingResponse.status}`);
+            return {
+                manifest: await manifestResponse.json(),
+                mapping: await mappingResponse.json(),
+                audioUrl: file => `${AUDIO_DIR}${file}`,
+                imageUrl: file => `${IMAGE_DIR}${file}`,
+            };
+        },
+    };
+}
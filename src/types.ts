@@ -1,17 +1,251 @@
 // --- Types & Interfaces ---
+// Kinds of vocalisation a recording can contain
+export type RecordingType = "song" | "call" | "drumming" | "alarm" | "juvenile";
+
+// A curated excerpt of a recording, in seconds, e.g. the best 5 seconds of a long field recording
+export interface ClipData {
+    start: number;
+    end: number;
+    label?: string; // e.g. "song", "call"
+}
+
+export interface RecordingData {
+    file: string; // Audio filename (must be listed in the manifest)
+    type: RecordingType;
+    clips?: ClipData[]; // Study mode plays one of these instead of the whole file
+}
+
+// Habitat, range and seasonal metadata used by the faceted filters
+export type Habitat = "forest" | "woodland" | "grassland" | "farmland" | "wetland" | "coastal" | "urban";
+export type Region = "northeast" | "southeast" | "midwest" | "great-plains";
+export type SeasonalStatus = "year-round" | "summer" | "winter" | "migrant";
+// Months (1-12) a species is around, per region of its range
+export type MonthlyPresence = Partial<Record<Region, number[]>>;
+
+// One species entry in bird_mapping.json, keyed by species id
 export interface BirdData {
     displayName: string;
     image: string | null; // Filename or null
+    scientificName?: string;
+    family?: string; // Scientific family, e.g. "Picidae"
+    familyCommonName?: string; // e.g. "Woodpeckers"
+    order?: string;
+    habitats?: Habitat[];
+    regions?: Region[];
+    season?: SeasonalStatus;
+    presence?: MonthlyPresence; // Regions without an entry fall back to the season's usual months
+    notes?: string; // Mnemonics and field notes (simple markdown)
+    recordings: RecordingData[];
 }
 
-export interface Card {
+export interface Recording {
     id: string; // Audio filename
     audioFilename: string;
+    src: string; // Full audio path
+    type: RecordingType;
+    clips: Clip[]; // Validated clips; empty means the whole file is played
+    isPersonal?: boolean; // Recorded or uploaded by the user
+}
+
+export interface Clip {
+    start: number;
+    end: number;
+    label: string | null;
+}
+
+// Per-recording-type review tally, so e.g. calls can be weaker than songs
+export interface RecordingTypeStats {
+    reviews: number;
+    correct: number;
+}
+
+// Spaced-repetition grades shown on the back of a card
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+export interface ReviewLogEntry {
+    reviewedAt: string; // ISO timestamp
+    grade: ReviewGrade;
+    interval: number; // Interval (days) scheduled by this review
+    ease: number; // Ease factor after this review
+}
+
+export interface CardSchedule {
+    ease: number; // SM-2 ease factor
+    interval: number; // Current interval in days (0 = relearning)
+    repetitions: number; // Consecutive successful reviews
+    lapses: number; // Times a reviewed card was forgotten
+    due: string; // ISO timestamp of next review
+    history: ReviewLogEntry[];
+}
+
+// Which way a card is reviewed. "soundToName" is the classic card (hear it, name it);
+// the others reverse it, each with its own schedule.
+export type CardDirection = "soundToName" | "nameToSound" | "photoToSound" | "soundToPhoto";
+
+// A card is one species; progress is tracked per review direction
+export interface Card {
+    id: string; // Species id (key in bird_mapping.json), prefixed "<sourceId>/" for cards from bundles and endpoints
+    sourceId?: string; // Card source (bundle or REST endpoint); absent for the built-in data
     displayName: string;
     imgSrc: string | null; // Full image path or null
-    learned: boolean;
+    scientificName: string | null;
+    family: string | null;
+    familyCommonName: string | null;
+    order: string | null;
+    habitats: Habitat[];
+    regions: Region[];
+    season: SeasonalStatus | null;
+    presence: MonthlyPresence;
+    defaultNotes: string | null; // Shipped with the data
+    notes: string | null; // The learner's own notes, replacing the default; null = use the default
+    learned: boolean; // Derived from schedule (interval past the learned threshold)
     starred: boolean;
+    schedule: CardSchedule; // The "soundToName" direction
+    directionSchedules: Partial<Record<CardDirection, CardSchedule>>; // The other directions, once studied
+    recordings: Recording[]; // At least one
+    recordingStats: Partial<Record<RecordingType, RecordingTypeStats>>;
 }
 
 // Define filter modes
-export type FilterMode = "all" | "unlearned" | "learned" | "starred";
+export type FilterMode = "all" | "due" | "unlearned" | "learned" | "starred";
+
+// Metadata facets; these compose with the filter mode (null = any)
+export interface FacetFilters {
+    family: string | null;
+    habitat: Habitat | null;
+    region: Region | null;
+    season: SeasonalStatus | null;
+}
+
+// Top-level views of the app
+export type ViewMode = "study" | "viewAll" | "quiz" | "stats" | "drill" | "dataReport" | "classroom" | "assignment" | "field";
+
+// How the study card is answered: flip to self-grade, or type the name first
+export type AnswerMode = "reveal" | "typed";
+
+export interface TypedAnswerResult {
+    input: string; // What the learner typed
+    score: number; // 0-1 partial credit
+    verdict: "correct" | "partial" | "incorrect";
+    matchedWords: number;
+    totalWords: number;
+    confusedWith?: string; // Another species' name the answer matches at least as well
+}
+
+// User-created named subset of cards
+export interface Deck {
+    id: string;
+    name: string;
+    cardIds: string[]; // Species ids
+    createdAt: string; // ISO timestamp
+}
+
+// A learner sharing the device; progress, decks and settings are kept per profile
+export interface Profile {
+    id: string;
+    name: string;
+    createdAt: string; // ISO timestamp
+}
+
+// Keyboard-shortcut actions available in study mode
+export type ShortcutAction =
+    | "playPause"
+    | "next"
+    | "previous"
+    | "flip"
+    | "toggleStarred"
+    | "toggleLearned"
+    | "shuffle"
+    | "nextFilter"
+    | "previousFilter"
+    | "gradeAgain"
+    | "gradeHard"
+    | "gradeGood"
+    | "gradeEasy"
+    | "showHelp";
+
+export type KeyBindings = Record<ShortcutAction, string>;
+
+// Study actions recorded in the learning history
+export type StudyEventType = "play" | "flip" | "grade" | "toggleLearned" | "toggleStarred" | "quizAnswer" | "drillAnswer" | "fieldAnswer";
+
+export interface StudyEvent {
+    at: string; // ISO timestamp
+    type: StudyEventType;
+    cardId: string; // Species id
+    grade?: ReviewGrade; // "grade" events
+    correct?: boolean; // "quizAnswer", "drillAnswer" and "fieldAnswer" events
+    chosenId?: string; // "quizAnswer", "drillAnswer" and "fieldAnswer" events: the species picked instead, if wrong
+}
+
+// A user-chosen A-B loop within a recording, in seconds
+export interface LoopRegion {
+    start: number;
+    end: number;
+}
+
+export interface PlaybackSettings {
+    rate: number; // 1, 0.75 or 0.5 (pitch is preserved)
+    repeatCount: number; // Plays of the loop/recording before stopping; 0 = until paused
+    normalizeVolume: boolean;
+}
+
+// Field conditions: how hard the mix is, and the background noise it is made with
+export type SoundscapeDifficulty = "easy" | "medium" | "hard";
+export type NoiseKind = "wind" | "traffic" | "rain";
+
+// Species that sound alike, drilled against each other
+export interface ConfusionGroup {
+    id: string;
+    name: string;
+    cardIds: string[]; // Species ids, at least two
+    source: "user" | "detected"; // Detected groups come from quiz mistakes and aren't saved until the user keeps them
+}
+
+// A set of cards a teacher hands out, as a file or link
+export interface Assignment {
+    id: string;
+    title: string;
+    cardIds: string[];
+    dueDate: string | null; // "YYYY-MM-DD", or null for no due date
+    createdAt: string; // ISO timestamp
+    key: string; // Hex HMAC key the results are signed with
+}
+
+export interface AssignmentAnswer {
+    cardId: string;
+    chosenId: string;
+    correct: boolean;
+}
+
+// A student's results for an assignment, signed with the assignment's key
+export interface AssignmentResult {
+    assignmentId: string;
+    assignmentTitle: string;
+    studentName: string;
+    completedAt: string; // ISO timestamp
+    answers: AssignmentAnswer[];
+    score: number; // Correct answers
+    signature: string; // Hex HMAC-SHA-256 of the other fields
+}
+
+// Results as kept by the teacher after importing
+export interface ImportedResult extends AssignmentResult {
+    verified: boolean; // Signature matched the assignment's key: unchanged since signing, not proof of the sender
+    importedAt: string; // ISO timestamp
+}
+
+// A run through the study deck, resumed after a reload until the learner starts a new one
+export interface StudySession {
+    id: string;
+    seed: number; // Card order, see orderSessionCards
+    startedAt: string; // ISO timestamp
+    filter: FilterMode;
+    deckId: string | null;
+    currentCardId: string | null; // Where the learner is
+    seenCardIds: string[];
+    // Tallies rather than every review, so the saved session stays small however long it runs
+    gradeCounts: Record<ReviewGrade, number>;
+    missCounts: Record<string, number>; // "again" grades per card id
+    lastReviewAt: string | null; // ISO timestamp
+}
@@ -0,0 +1,18 @@
+import { seededShuffle, shuffleArray } from './arrayUtils';
+import { createRng } from './random';
+
+const LETTERS = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+
+test('a seed always gives the same order', () => {
+  expect(seededShuffle(LETTERS, 1)).toEqual(['c', 'b', 'g', 'h', 'e', 'd', 'a', 'f']);
+  expect(seededShuffle(LETTERS, 42)).toEqual(['c', 'h', 'b', 'a', 'g', 'f', 'd', 'e']);
+  expect(shuffleArray(LETTERS, createRng(42))).toEqual(seededShuffle(LETTERS, 42));
+});
+
+test('shuffling keeps every item and leaves the input alone', () => {
+  const input = [...LETTERS];
+  const shuffled = seededShuffle(input, 7);
+  expect(input).toEqual(LETTERS);
+  expect([...shuffled].sort()).toEqual(LETTERS);
+  expect(seededShuffle([], 7)).toEqual([]);
+});
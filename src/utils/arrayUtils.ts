@@ -1,12 +1,15 @@
+import { createRng, Rng } from "./random";
+
 /**
  * Fisher-Yates (aka Knuth) Shuffle Algorithm.
  * @param {Array<T>} array - The array to shuffle.
+ * @param {Rng} rng - Random source; pass a seeded one for a reproducible order.
  * @returns {Array<T>} A new shuffled array.
  */
-export function shuffleArray<T>(array: T[]): T[] {
+export function shuffleArray<T>(array: T[], rng: Rng = Math.random): T[] {
     const shuffledArray = [...array]; // Create a copy
     for (let i = shuffledArray.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
+        const j = Math.floor(rng() * (i + 1));
         [shuffledArray[i], shuffledArray[j]] = [
             shuffledArray[j],
             shuffledArray[i],
@@ -14,3 +17,13 @@ export function shuffleArray<T>(array: T[]): T[] {
     }
     return shuffledArray;
 }
+
+/**
+ * Shuffles with a seeded generator: the same input and seed always give the same order.
+ * @param {Array<T>} array - The array to shuffle.
+ * @param {number} seed - Any 32-bit integer.
+ * @returns {Array<T>} A new shuffled array.
+ */
+export function seededShuffle<T>(array: T[], seed: number): T[] {
+    return shuffleArray(array, createRng(seed));
+}
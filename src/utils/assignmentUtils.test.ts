@@ -0,0 +1,60 @@
+import { TextEncoder } from 'util';
+import { webcrypto } from 'crypto';
+import { ImportedResult } from '../types';
+import {
+  assignmentToLink,
+  buildRoster,
+  createAssignment,
+  createSignedResult,
+  importResultFile,
+  isLate,
+  parseAssignmentLink,
+  resultToFile,
+} from './assignmentUtils';
+
+// jsdom has neither TextEncoder nor crypto.subtle
+Object.assign(global, { TextEncoder });
+Object.defineProperty(window, 'crypto', { value: webcrypto });
+
+const answers = [
+  { cardId: 'veery', chosenId: 'veery', correct: true },
+  { cardId: 'wood-thrush', chosenId: 'hermit-thrush', correct: false },
+];
+
+test('assignments survive the round trip through a link', () => {
+  const assignment = createAssignment('Thrushes', ['veery', 'wood-thrush'], '2024-05-10');
+  const link = assignmentToLink(assignment, 'https://birds.example/');
+  expect(parseAssignmentLink(new URL(link).hash)).toEqual(assignment);
+  expect(parseAssignmentLink('#assignment=%7Bbroken')).toBeNull();
+});
+
+test('signed results verify, and edited ones do not', async () => {
+  const assignment = createAssignment('Thrushes', ['veery', 'wood-thrush'], null);
+  const result = await createSignedResult(assignment, 'Ada', answers);
+  expect(result.score).toBe(1);
+
+  const imported = await importResultFile(resultToFile(result), [assignment]);
+  expect(imported.verified).toBe(true);
+
+  const edited = resultToFile({ ...result, score: 2 });
+  expect((await importResultFile(edited, [assignment])).verified).toBe(false);
+  await expect(importResultFile(resultToFile(result), [])).rejects.toThrow('not one of your assignments');
+});
+
+test('results after the due date are late', () => {
+  expect(isLate({ dueDate: '2024-05-10' }, new Date(2024, 4, 10, 23, 59).toISOString())).toBe(false);
+  expect(isLate({ dueDate: '2024-05-10' }, new Date(2024, 4, 11, 0, 1).toISOString())).toBe(true);
+  expect(isLate({ dueDate: null }, new Date().toISOString())).toBe(false);
+});
+
+test('the roster keeps each student’s latest result per assignment', () => {
+  const base = { assignmentId: 'a1', assignmentTitle: 'Thrushes', answers, signature: '', verified: true, importedAt: '2024-05-12T00:00:00.000Z' };
+  const results: ImportedResult[] = [
+    { ...base, studentName: 'ada', completedAt: '2024-05-09T10:00:00.000Z', score: 1 },
+    { ...base, studentName: 'Ada ', completedAt: '2024-05-10T10:00:00.000Z', score: 2 },
+    { ...base, studentName: 'Bo', completedAt: '2024-05-09T10:00:00.000Z', score: 0 },
+  ];
+  const roster = buildRoster(results);
+  expect(roster.map(row => row.studentName)).toEqual(['ada', 'Bo']);
+  expect(roster[0].results.a1.score).toBe(2);
+});
@@ -0,0 +1,295 @@
+import { Assignment, AssignmentAnswer, AssignmentResult, ImportedResult } from "../types";
+import { profileKey } from "./profileScope";
+
+// Classroom mode without a server: the teacher shares an assignment as a file
+// or link, students send back a results file signed with the assignment's
+// key, and the teacher imports the results into a roster. The key travels
+// with the assignment, so the signature catches edited files rather than
+// determined cheating.
+
+export const ASSIGNMENT_FORMAT = "bird-flashcards-assignment";
+export const RESULTS_FORMAT = "bird-flashcards-results";
+export const ASSIGNMENT_VERSION = 1;
+// Hash parameter carrying a URL-encoded assignment, e.g. "#assignment=%7B..."
+export const ASSIGNMENT_LINK_PARAM = "assignment";
+
+export const ASSIGNMENTS_STORAGE_KEY = "birdFlashcardAssignments";
+export const ASSIGNMENT_RESULTS_STORAGE_KEY = "birdFlashcardAssignmentResults";
+
+export interface RosterRow {
+    studentName: string;
+    results: Record<string, ImportedResult>; // Latest result per assignment id
+}
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+const fromHex = (hex: string): Uint8Array => new Uint8Array((hex.match(/../g) ?? []).map(pair => parseInt(pair, 16)));
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === "string");
+
+/**
+ * Creates an assignment with a fresh id and signing key.
+ * @param {string} title - Shown to students.
+ * @param {string[]} cardIds - The cards to quiz on.
+ * @param {string | null} dueDate - "YYYY-MM-DD", or null.
+ * @param {Date} now - Creation time.
+ * @returns {Assignment} The assignment.
+ */
+export function createAssignment(title: string, cardIds: string[], dueDate: string | null, now: Date = new Date()): Assignment {
+    return {
+        id: `assignment-${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+        title: title.trim(),
+        cardIds,
+        dueDate: dueDate || null,
+        createdAt: now.toISOString(),
+        key: toHex(window.crypto.getRandomValues(new Uint8Array(32))),
+    };
+}
+
+/**
+ * Checks the shape of an assignment read from a file or link.
+ */
+export function isValidAssignment(value: unknown): value is Assignment {
+    if (typeof value !== "object" || value === null) return false;
+    const assignment = value as Partial<Assignment>;
+    return (
+        typeof assignment.id === "string" && !!assignment.id &&
+        typeof assignment.title === "string" &&
+        isStringArray(assignment.cardIds) && assignment.cardIds.length > 0 &&
+        (assignment.dueDate === null || (typeof assignment.dueDate === "string" && /^\d{4}-\d{2}-\d{2}$/.test(assignment.dueDate))) &&
+        typeof assignment.createdAt === "string" &&
+        typeof assignment.key === "string" && /^[0-9a-f]{64}$/.test(assignment.key)
+    );
+}
+
+/**
+ * Serialises an assignment for an assignment file.
+ */
+export const assignmentToFile = (assignment: Assignment): string =>
+    JSON.stringify({ format: ASSIGNMENT_FORMAT, version: ASSIGNMENT_VERSION, assignment }, null, 2);
+
+/**
+ * Builds a link that opens the app straight into the assignment.
+ * @param {Assignment} assignment - The assignment.
+ * @param {string} baseUrl - The app's address (without a hash).
+ * @returns {string} The link.
+ */
+export const assignmentToLink = (assignment: Assignment, baseUrl: string): string =>
+    `${baseUrl}#${ASSIGNMENT_LINK_PARAM}=${encodeURIComponent(JSON.stringify(assignment))}`;
+
+/**
+ * Reads an assignment file.
+ * @param {string} text - The file contents.
+ * @returns {Assignment} The assignment.
+ * @throws {Error} If the file isn't a valid assignment.
+ */
+export function parseAssignmentFile(text: string): Assignment {
+    let parsed: { format?: unknown; assignment?: unknown };
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error("The file is not valid JSON.");
+    }
+    if (parsed?.format !== ASSIGNMENT_FORMAT || !isValidAssignment(parsed.assignment)) {
+        throw new Error("The file is not a bird flashcards assignment.");
+    }
+    return parsed.assignment;
+}
+
+/**
+ * Reads an assignment from a location hash like "#assignment=...".
+ * @param {string} hash - window.location.hash.
+ * @returns {Assignment | null} The assignment, or null if there is none (or it's broken).
+ */
+export function parseAssignmentLink(hash: string): Assignment | null {
+    const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(ASSIGNMENT_LINK_PARAM);
+    if (!encoded) return null;
+    try {
+        const parsed: unknown = JSON.parse(encoded);
+        return isValidAssignment(parsed) ? parsed : null;
+    } catch (error) {
+        console.error("Error reading assignment link:", error);
+        return null;
+    }
+}
+
+/**
+ * Whether a completion time is after the end of the due date (local time).
+ */
+export function isLate(assignment: Pick<Assignment, "dueDate">, completedAt: string): boolean {
+    if (!assignment.dueDate) return false;
+    const [year, month, day] = assignment.dueDate.split("-").map(Number);
+    return Date.parse(completedAt) >= new Date(year, month - 1, day + 1).getTime();
+}
+
+/**
+ * The signed content of a result: every field but the signature, in a fixed order.
+ */
+const signedPayload = (result: Omit<AssignmentResult, "signature">): string =>
+    JSON.stringify([result.assignmentId, result.assignmentTitle, result.studentName, result.completedAt, result.score,
+        result.answers.map(answer => [answer.cardId, answer.chosenId, answer.correct])]);
+
+async function hmacKey(hexKey: string, usage: "sign" | "verify"): Promise<CryptoKey> {
+    return window.crypto.subtle.importKey("raw", fromHex(hexKey), { name: "HMAC", hash: "SHA-256" }, false, [usage]);
+}
+
+/**
+ * Builds a student's signed results.
+ * @param {Assignment} assignment - The assignment taken.
+ * @param {string} studentName - The student.
+ * @param {AssignmentAnswer[]} answers - One answer per question.
+ * @param {Date} now - Completion time.
+ * @returns {Promise<AssignmentResult>} The results.
+ */
+export async function createSignedResult(assignment: Assignment, studentName: string, answers: AssignmentAnswer[], now: Date = new Date()): Promise<AssignmentResult> {
+    const unsigned = {
+        assignmentId: assignment.id,
+        assignmentTitle: assignment.title,
+        studentName: studentName.trim(),
+        completedAt: now.toISOString(),
+        answers,
+        score: answers.filter(answer => answer.correct).length,
+    };
+    const signature = await window.crypto.subtle.sign("HMAC", await hmacKey(assignment.key, "sign"), new TextEncoder().encode(signedPayload(unsigned)));
+    return { ...unsigned, signature: toHex(new Uint8Array(signature)) };
+}
+
+/**
+ * Checks a result's signature against the assignment's key.
+ * @returns {Promise<boolean>} True if the result wasn't changed since it was signed.
+ */
+export async function verifyResult(result: AssignmentResult, key: string): Promise<boolean> {
+    const { signature, ...unsigned } = result;
+    if (!/^[0-9a-f]{64}$/.test(signature)) return false;
+    return window.crypto.subtle.verify("HMAC", await hmacKey(key, "verify"), fromHex(signature), new TextEncoder().encode(signedPayload(unsigned)));
+}
+
+/**
+ * Serialises results for the student to hand in.
+ */
+export const resultToFile = (result: AssignmentResult): string =>
+    JSON.stringify({ format: RESULTS_FORMAT, version: ASSIGNMENT_VERSION, result }, null, 2);
+
+/**
+ * Checks the shape of a results entry.
+ */
+function isValidResult(value: unknown): value is AssignmentResult {
+    if (typeof value !== "object" || value === null) return false;
+    const result = value as Partial<AssignmentResult>;
+    return (
+        typeof result.assignmentId === "string" &&
+        typeof result.assignmentTitle === "string" &&
+        typeof result.studentName === "string" && !!result.studentName.trim() &&
+        typeof result.completedAt === "string" && !isNaN(Date.parse(result.completedAt)) &&
+        typeof result.score === "number" &&
+        typeof result.signature === "string" &&
+        Array.isArray(result.answers) &&
+        result.answers.every(answer =>
+            typeof answer === "object" && answer !== null &&
+            typeof answer.cardId === "string" && typeof answer.chosenId === "string" && typeof answer.correct === "boolean"
+        )
+    );
+}
+
+/**
+ * Reads a student's results file and checks it against the teacher's assignments.
+ * @param {string} text - The file contents.
+ * @param {Assignment[]} assignments - The teacher's assignments.
+ * @param {Date} now - Import time.
+ * @returns {Promise<ImportedResult>} The results, marked verified or not.
+ * @throws {Error} If the file isn't a results file for one of the assignments.
+ */
+export async function importResultFile(text: string, assignments: Assignment[], now: Date = new Date()): Promise<ImportedResult> {
+    let parsed: { format?: unknown; result?: unknown };
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error("The file is not valid JSON.");
+    }
+    if (parsed?.format !== RESULTS_FORMAT || !isValidResult(parsed.result)) {
+        throw new Error("The file is not a bird flashcards results file.");
+    }
+    const result = parsed.result;
+    const assignment = assignments.find(candidate => candidate.id === result.assignmentId);
+    if (!assignment) throw new Error(`“${result.assignmentTitle}” is not one of your assignments.`);
+    return { ...result, verified: await verifyResult(result, assignment.key), importedAt: now.toISOString() };
+}
+
+/**
+ * Adds imported results, replacing earlier results of the same student for
+ * the same assignment.
+ */
+export function mergeResults(current: ImportedResult[], imported: ImportedResult[]): ImportedResult[] {
+    const keyOf = (result: ImportedResult) => `${result.assignmentId}|${result.studentName.trim().toLowerCase()}`;
+    const byKey = new Map(current.map(result => [keyOf(result), result]));
+    imported.forEach(result => byKey.set(keyOf(result), result));
+    return Array.from(byKey.values());
+}
+
+/**
+ * Groups results into one row per student (names compared case-insensitively).
+ * @param {ImportedResult[]} results - The imported results.
+ * @returns {RosterRow[]} Rows sorted by student name.
+ */
+export function buildRoster(results: ImportedResult[]): RosterRow[] {
+    const rows = new Map<string, RosterRow>();
+    results.forEach(result => {
+        const key = result.studentName.trim().toLowerCase();
+        const row = rows.get(key) ?? { studentName: result.studentName.trim(), results: {} };
+        const existing = row.results[result.assignmentId];
+        if (!existing || existing.completedAt < result.completedAt) row.results[result.assignmentId] = result;
+        rows.set(key, row);
+    });
+    return Array.from(rows.values()).sort((a, b) => a.studentName.localeCompare(b.studentName));
+}
+
+/**
+ * Loads the teacher's assignments.
+ */
+export const loadAssignments = (): Assignment[] => {
+    try {
+        const savedData = localStorage.getItem(profileKey(ASSIGNMENTS_STORAGE_KEY));
+        const parsed: unknown = savedData ? JSON.parse(savedData) : [];
+        return Array.isArray(parsed) ? parsed.filter(isValidAssignment) : [];
+    } catch (error) {
+        console.error("Error loading assignments from localStorage:", error);
+        return [];
+    }
+};
+
+/**
+ * Saves the teacher's assignments.
+ */
+export const saveAssignments = (assignments: Assignment[]): void => {
+    try {
+        localStorage.setItem(profileKey(ASSIGNMENTS_STORAGE_KEY), JSON.stringify(assignments));
+    } catch (error) {
+        console.error("Error saving assignments to localStorage:", error);
+    }
+};
+
+/**
+ * Loads the imported results.
+ */
+export const loadImportedResults = (): ImportedResult[] => {
+    try {
+        const savedData = localStorage.getItem(profileKey(ASSIGNMENT_RESULTS_STORAGE_KEY));
+        const parsed: unknown = savedData ? JSON.parse(savedData) : [];
+        return Array.isArray(parsed)
+            ? parsed.filter((result): result is ImportedResult => isValidResult(result) && typeof (result as ImportedResult).verified === "boolean")
+            : [];
+    } catch (error) {
+        console.error("Error loading assignment results from localStorage:", error);
+        return [];
+    }
+};
+
+/**
+ * Saves the imported results.
+ */
+export const saveImportedResults = (results: ImportedResult[]): void => {
+    try {
+        localStorage.setItem(profileKey(ASSIGNMENT_RESULTS_STORAGE_KEY), JSON.stringify(results));
+    } catch (error) {
+        console.error("Error saving assignment results to localStorage:", error);
+    }
+};
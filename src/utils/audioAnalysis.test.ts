@@ -0,0 +1,40 @@
+import { canRouteAudio, computeLevels, computePeaks, MAX_NORMALIZATION_GAIN, normalizationGain, TARGET_RMS } from './audioAnalysis';
+
+const fakeBuffer = (...channels: number[][]) => ({
+  numberOfChannels: channels.length,
+  length: channels[0].length,
+  getChannelData: (i: number) => Float32Array.from(channels[i]),
+}) as unknown as AudioBuffer;
+
+test('peaks take the loudest sample of any channel, normalised to the loudest slice', () => {
+  const peaks = computePeaks(fakeBuffer([0.1, -0.2, 0, 0.05], [0, 0, -0.4, 0]), 2);
+  expect(peaks[0]).toBeCloseTo(0.5);
+  expect(peaks[1]).toBeCloseTo(1);
+});
+
+test('levels are the peak and RMS over all channels, and zero for silence or no samples', () => {
+  const levels = computeLevels(fakeBuffer([0.5, -0.5], [0, -1]));
+  expect(levels.peak).toBe(1);
+  expect(levels.rms).toBeCloseTo(Math.sqrt(1.5 / 4));
+  expect(computeLevels(fakeBuffer([0, 0, 0]))).toEqual({ peak: 0, rms: 0 });
+  expect(computeLevels(fakeBuffer([]))).toEqual({ peak: 0, rms: 0 });
+});
+
+test('normalisation reaches the target loudness unless that would clip or boost too much', () => {
+  expect(normalizationGain({ peak: 0.2, rms: 0.05 })).toBeCloseTo(TARGET_RMS / 0.05);
+  expect(normalizationGain({ peak: 0.5, rms: 0.3 })).toBeCloseTo(TARGET_RMS / 0.3); // Turned down
+  // A recording already peaking at full scale can't be raised
+  expect(normalizationGain({ peak: 1, rms: 0.02 })).toBe(1);
+  expect(normalizationGain({ peak: 0.8, rms: 0.05 })).toBeCloseTo(1 / 0.8);
+  // A very quiet recording is capped
+  expect(normalizationGain({ peak: 0.01, rms: 0.001 })).toBe(MAX_NORMALIZATION_GAIN);
+  // Silence is left alone
+  expect(normalizationGain({ peak: 0, rms: 0 })).toBe(1);
+});
+
+test('only audio from this origin is routed through Web Audio', () => {
+  expect(canRouteAudio('/audio/Veery%201.mp3')).toBe(true);
+  expect(canRouteAudio(`${window.location.origin}/audio/Veery.mp3`)).toBe(true);
+  expect(canRouteAudio('blob:http://localhost/1234')).toBe(true);
+  expect(canRouteAudio('https://recordings.example.org/veery.mp3')).toBe(false);
+});
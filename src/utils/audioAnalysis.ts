@@ -0,0 +1,220 @@
+// Web Audio helpers: waveform/spectrogram visualisations and volume normalisation
+
+// Number of bars in a waveform
+export const WAVEFORM_BUCKETS = 160;
+// Frequency resolution of the spectrogram analyser (half this many bins)
+export const SPECTROGRAM_FFT_SIZE = 1024;
+
+// Volume normalisation aims for this RMS level (about -20 dBFS)...
+export const TARGET_RMS = 0.1;
+// ...without boosting very quiet recordings (mostly noise) more than this
+export const MAX_NORMALIZATION_GAIN = 4;
+
+type AudioContextConstructor = typeof AudioContext;
+
+export interface RecordingSummary {
+    peaks: number[]; // WAVEFORM_BUCKETS values, 0-1, normalised to the loudest slice
+    peak: number; // Loudest sample, 0-1
+    rms: number; // Overall loudness, 0-1
+}
+
+// Nodes an audio element is routed through: source -> gain -> analyser -> speakers
+export interface ElementAudioGraph {
+    source: MediaElementAudioSourceNode;
+    gain: GainNode;
+    analyser: AnalyserNode;
+}
+
+let sharedContext: AudioContext | null = null;
+// A media element can only be wired into Web Audio once, so keep its nodes
+const elementGraphs = new WeakMap<HTMLMediaElement, ElementAudioGraph>();
+// Recordings are decoded once per file
+const summaryCache = new Map<string, Promise<RecordingSummary>>();
+
+/**
+ * Whether the browser supports the Web Audio API.
+ */
+export const isWebAudioSupported = (): boolean =>
+    typeof window !== "undefined" && ("AudioContext" in window || "webkitAudioContext" in window);
+
+/**
+ * Whether an audio element playing this URL can be routed through Web Audio.
+ * Audio from another origin plays fine in an element, but a media element
+ * source only outputs silence for it, so the spectrogram and volume
+ * normalisation leave such recordings alone.
+ * @param {string} src - The recording URL.
+ * @returns {boolean} True for same-origin, blob: and data: URLs.
+ */
+export function canRouteAudio(src: string): boolean {
+    try {
+        const url = new URL(src, window.location.href);
+        return url.protocol === "blob:" || url.protocol === "data:" || url.origin === window.location.origin;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Returns the app's shared AudioContext, creating it on first use.
+ */
+export function getAudioContext(): AudioContext {
+    if (!sharedContext) {
+        const Context: AudioContextConstructor =
+            window.AudioContext ?? (window as unknown as { webkitAudioContext: AudioContextConstructor }).webkitAudioContext;
+        sharedContext = new Context();
+    }
+    return sharedContext;
+}
+
+/**
+ * Computes the peak amplitude (0-1) of each slice of a recording.
+ * @param {AudioBuffer} buffer - Decoded audio.
+ * @param {number} buckets - Number of slices.
+ * @returns {number[]} One peak per slice.
+ */
+export function computePeaks(buffer: AudioBuffer, buckets: number): number[] {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+    const samplesPerBucket = Math.max(1, Math.floor(buffer.length / buckets));
+    const peaks: number[] = [];
+    for (let bucket = 0; bucket < buckets; bucket++) {
+        const start = bucket * samplesPerBucket;
+        const end = Math.min(start + samplesPerBucket, buffer.length);
+        let peak = 0;
+        channels.forEach(data => {
+            for (let i = start; i < end; i++) peak = Math.max(peak, Math.abs(data[i]));
+        });
+        peaks.push(peak);
+    }
+    // Normalise so quiet recordings still show a readable shape
+    const max = Math.max(...peaks, 0.01);
+    return peaks.map(peak => peak / max);
+}
+
+/**
+ * Measures the loudest sample and the RMS level across all channels.
+ * @param {AudioBuffer} buffer - Decoded audio.
+ * @returns {{ peak: number; rms: number }} Levels between 0 and 1.
+ */
+export function computeLevels(buffer: AudioBuffer): { peak: number; rms: number } {
+    let peak = 0;
+    let sumOfSquares = 0;
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let i = 0; i < data.length; i++) {
+            peak = Math.max(peak, Math.abs(data[i]));
+            sumOfSquares += data[i] * data[i];
+        }
+    }
+    const sampleCount = buffer.length * buffer.numberOfChannels;
+    return { peak, rms: sampleCount > 0 ? Math.sqrt(sumOfSquares / sampleCount) : 0 };
+}
+
+/**
+ * Gain that brings a recording to TARGET_RMS without clipping its peaks.
+ * @param {{ peak: number; rms: number }} levels - The recording's levels.
+ * @returns {number} Linear gain (1 = unchanged).
+ */
+export function normalizationGain({ peak, rms }: { peak: number; rms: number }): number {
+    if (rms <= 0 || peak <= 0) return 1;
+    return Math.min(TARGET_RMS / rms, 1 / peak, MAX_NORMALIZATION_GAIN);
+}
+
+/**
+ * Downloads and decodes a recording (not cached; decoded audio is large).
+ * @param {string} src - The recording URL.
+ * @returns {Promise<AudioBuffer>} The decoded audio.
+ */
+export function loadAudioBuffer(src: string): Promise<AudioBuffer> {
+    return fetch(src)
+        .then(response => {
+            if (!response.ok) throw new Error(`HTTP ${response.status} for ${src}`);
+            return response.arrayBuffer();
+        })
+        .then(data => getAudioContext().decodeAudioData(data));
+}
+
+/**
+ * Downloads and decodes a recording and summarises it (cached per URL).
+ * @param {string} src - The recording URL.
+ * @returns {Promise<RecordingSummary>} Waveform peaks and loudness.
+ */
+export function loadRecordingSummary(src: string): Promise<RecordingSummary> {
+    let summary = summaryCache.get(src);
+    if (!summary) {
+        summary = loadAudioBuffer(src)
+            .then(buffer => ({ peaks: computePeaks(buffer, WAVEFORM_BUCKETS), ...computeLevels(buffer) }));
+        // Don't cache failures, so the recording can be retried (e.g. once back online)
+        summary.catch(() => summaryCache.delete(src));
+        summaryCache.set(src, summary);
+    }
+    return summary;
+}
+
+/**
+ * Downloads and decodes a recording and returns its waveform peaks (cached per URL).
+ * @param {string} src - The recording URL.
+ * @returns {Promise<number[]>} WAVEFORM_BUCKETS peaks between 0 and 1.
+ */
+export function loadWaveformPeaks(src: string): Promise<number[]> {
+    return loadRecordingSummary(src).then(summary => summary.peaks);
+}
+
+/**
+ * Routes a media element through a gain node and an analyser (once per element).
+ * The element keeps playing to the speakers through the shared context.
+ * @param {HTMLMediaElement} element - The audio element.
+ * @returns {ElementAudioGraph} The element's nodes.
+ */
+export function getElementGraph(element: HTMLMediaElement): ElementAudioGraph {
+    let graph = elementGraphs.get(element);
+    if (!graph) {
+        const context = getAudioContext();
+        const source = context.createMediaElementSource(element);
+        const gain = context.createGain();
+        const analyser = context.createAnalyser();
+        analyser.fftSize = SPECTROGRAM_FFT_SIZE;
+        analyser.smoothingTimeConstant = 0;
+        source.connect(gain);
+        gain.connect(analyser);
+        analyser.connect(context.destination);
+        graph = { source, gain, analyser };
+        elementGraphs.set(element, graph);
+    }
+    // Contexts start suspended until a user gesture; playback is one
+    if (graph.source.context.state === "suspended") {
+        (graph.source.context as AudioContext).resume().catch(err => console.warn("Could not resume audio context:", err));
+    }
+    return graph;
+}
+
+/**
+ * Returns the analyser a media element is routed through, wiring it up if needed.
+ */
+export const getElementAnalyser = (element: HTMLMediaElement): AnalyserNode => getElementGraph(element).analyser;
+
+/**
+ * Returns the element's graph only if it has already been wired up.
+ */
+export const findElementGraph = (element: HTMLMediaElement): ElementAudioGraph | undefined => elementGraphs.get(element);
+
+/**
+ * Disconnects an element's nodes, e.g. when its audio element is unmounted.
+ */
+export function releaseElementGraph(element: HTMLMediaElement): void {
+    const graph = elementGraphs.get(element);
+    if (!graph) return;
+    graph.source.disconnect();
+    graph.gain.disconnect();
+    graph.analyser.disconnect();
+    elementGraphs.delete(element);
+}
+
+/**
+ * Maps an intensity (0-255) to a spectrogram colour, from dark blue through green to yellow.
+ */
+export function intensityToColor(value: number): string {
+    const t = value / 255;
+    const hue = 240 - t * 180; // 240 (blue) -> 60 (yellow)
+    const lightness = 8 + t * 52;
+    return `hsl(${hue}, 90%, ${lightness}%)`;
+}
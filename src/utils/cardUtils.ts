@@ -0,0 +1,34 @@
+import { Card, RecordingType, ReviewGrade } from "../types";
+import { applyGrade, isScheduleLearned } from "./scheduler";
+
+/**
+ * Applies a review grade to a card: reschedules the species and, when the
+ * recording type is known, tallies the result for that type.
+ * @param {Card} card - The card that was reviewed.
+ * @param {ReviewGrade} grade - The review grade.
+ * @param {RecordingType} recordingType - Type of the recording that was played, if known.
+ * @param {Date} now - The time of the review.
+ * @returns {Card} The updated card.
+ */
+export function gradeCard(card: Card, grade: ReviewGrade, recordingType?: RecordingType, now: Date = new Date()): Card {
+    const schedule = applyGrade(card.schedule, grade, now);
+    const updated: Card = { ...card, schedule, learned: isScheduleLearned(schedule) };
+    if (recordingType) {
+        const stats = card.recordingStats[recordingType] ?? { reviews: 0, correct: 0 };
+        updated.recordingStats = {
+            ...card.recordingStats,
+            [recordingType]: {
+                reviews: stats.reviews + 1,
+                correct: stats.correct + (grade === "again" ? 0 : 1),
+            },
+        };
+    }
+    return updated;
+}
+
+/**
+ * The notes shown for a card: the learner's own, else the shipped default.
+ * @param {Card} card - The card.
+ * @returns {string} The notes (markdown), or "" if there are none.
+ */
+export const getCardNotes = (card: Card): string => card.notes ?? card.defaultNotes ?? "";
@@ -0,0 +1,26 @@
+import { StudyEvent } from '../types';
+import { DEFAULT_CONFUSION_GROUPS, detectConfusionGroups } from './confusionUtils';
+import { makeCard } from './testCards';
+
+const card = (id: string, displayName: string) => makeCard(id, { displayName });
+const cards = [card('veery', 'Veery'), card('wood-thrush', 'Wood Thrush'), card('hermit-thrush', 'Hermit Thrush'), card('house-wren', 'House Wren'), card('carolina-wren', 'Carolina Wren')];
+
+const miss = (cardId: string, chosenId: string): StudyEvent => ({ at: '2026-05-01T08:00:00.000Z', type: 'quizAnswer', cardId, correct: false, chosenId });
+
+test('pairs confused at least twice merge into detected groups', () => {
+  const history = [
+    miss('veery', 'wood-thrush'),
+    miss('wood-thrush', 'veery'),
+    miss('wood-thrush', 'hermit-thrush'),
+    { ...miss('hermit-thrush', 'wood-thrush'), type: 'drillAnswer' as const },
+    miss('house-wren', 'carolina-wren'), // Only once
+  ];
+  expect(detectConfusionGroups(history, cards, [])).toEqual([
+    { id: 'detected-hermit-thrush+veery+wood-thrush', name: 'Hermit Thrush vs Veery vs Wood Thrush', cardIds: ['hermit-thrush', 'veery', 'wood-thrush'], source: 'detected' },
+  ]);
+});
+
+test('groups the user already has are not suggested again', () => {
+  const history = [miss('veery', 'wood-thrush'), miss('veery', 'wood-thrush')];
+  expect(detectConfusionGroups(history, cards, DEFAULT_CONFUSION_GROUPS)).toEqual([]);
+});
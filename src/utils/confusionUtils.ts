@@ -0,0 +1,216 @@
+import { Card, ConfusionGroup, LoopRegion, Recording, StudyEvent } from "../types";
+import { isChoiceAnswer } from "./historyStore";
+import { pickClip, pickRecording } from "./recordingUtils";
+import { StoredLoopRegions } from "./playbackStore";
+import { profileKey } from "./profileScope";
+
+// Key for localStorage
+export const CONFUSION_GROUPS_STORAGE_KEY = "birdFlashcardConfusionGroups";
+
+export const DRILL_ROUND_SIZE = 10;
+// Recordings without a clip or saved loop are cut to their first seconds in drills
+export const DRILL_SNIPPET_SECONDS = 8;
+// A pair must be mixed up at least this often before it is suggested as a group
+export const MIN_MISTAKES_TO_DETECT = 2;
+
+// Classic look-alike (sound-alike) sets, offered until the user edits their groups
+export const DEFAULT_CONFUSION_GROUPS: ConfusionGroup[] = [
+    { id: "default-woodpeckers", name: "Downy vs Hairy Woodpecker", cardIds: ["downy-woodpecker", "hairy-woodpecker"], source: "user" },
+    { id: "default-flycatchers", name: "Eastern Wood-Pewee vs Eastern Phoebe", cardIds: ["eastern-wood-pewee", "eastern-phoebe"], source: "user" },
+    { id: "default-thrushes", name: "Hermit Thrush, Wood Thrush & Veery", cardIds: ["hermit-thrush", "wood-thrush", "veery"], source: "user" },
+];
+
+// One recording as played in a drill: a clip, saved loop, or the start of the file
+export interface DrillClip {
+    card: Card;
+    recording: Recording;
+    region: LoopRegion;
+}
+
+export type DrillQuestion =
+    | { kind: "sameOrDifferent"; first: DrillClip; second: DrillClip; isSame: boolean }
+    | { kind: "whichOne"; first: DrillClip; second: DrillClip; target: Card };
+
+/**
+ * Creates a user-defined confusion group.
+ * @param {string} name - The group name.
+ * @param {string[]} cardIds - Species ids (at least two).
+ * @returns {ConfusionGroup} The new group.
+ */
+export function createConfusionGroup(name: string, cardIds: string[]): ConfusionGroup {
+    return {
+        id: `group-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+        name: name.trim(),
+        cardIds,
+        source: "user",
+    };
+}
+
+/**
+ * Returns the loaded cards of a group (species missing from the mapping are skipped).
+ */
+export function getGroupCards(cards: Card[], group: ConfusionGroup): Card[] {
+    const ids = new Set(group.cardIds);
+    return cards.filter(card => ids.has(card.id));
+}
+
+/**
+ * Suggests confusion groups from quiz and drill mistakes. Pairs mixed up at
+ * least MIN_MISTAKES_TO_DETECT times (in either direction) are joined, and
+ * overlapping pairs merge into one group. Groups already covered by one of
+ * the user's groups are left out.
+ * @param {StudyEvent[]} history - The learning history.
+ * @param {Card[]} cards - Loaded cards (for names).
+ * @param {ConfusionGroup[]} existing - The user's groups.
+ * @returns {ConfusionGroup[]} Detected groups, most species first.
+ */
+export function detectConfusionGroups(history: StudyEvent[], cards: Card[], existing: ConfusionGroup[]): ConfusionGroup[] {
+    const namesById = new Map(cards.map(card => [card.id, card.displayName]));
+    const pairCounts = new Map<string, number>();
+    history.forEach(event => {
+        if (!isChoiceAnswer(event) || event.correct || !event.chosenId) return;
+        if (!namesById.has(event.cardId) || !namesById.has(event.chosenId) || event.cardId === event.chosenId) return;
+        const key = [event.cardId, event.chosenId].sort().join("|");
+        pairCounts.set(key, (pairCounts.get(key) ?? 0) + 1);
+    });
+
+    // Union-find over the frequently confused pairs
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+        const root = parent.get(id) ?? id;
+        if (root === id) return id;
+        const top = find(root);
+        parent.set(id, top);
+        return top;
+    };
+    pairCounts.forEach((count, key) => {
+        if (count < MIN_MISTAKES_TO_DETECT) return;
+        const [a, b] = key.split("|");
+        const rootB = find(b);
+        parent.set(rootB, rootB);
+        parent.set(find(a), rootB);
+    });
+
+    const members = new Map<string, string[]>();
+    parent.forEach((_, id) => {
+        const root = find(id);
+        members.set(root, [...(members.get(root) ?? []), id]);
+    });
+
+    const isCovered = (ids: string[]) => existing.some(group => ids.every(id => group.cardIds.includes(id)));
+    return Array.from(members.values())
+        .filter(ids => ids.length >= 2 && !isCovered(ids))
+        .map(ids => ids.sort())
+        .map(ids => ({
+            id: `detected-${ids.join("+")}`,
+            name: ids.map(id => namesById.get(id) ?? id).join(" vs "),
+            cardIds: ids,
+            source: "detected" as const,
+        }))
+        .sort((a, b) => b.cardIds.length - a.cardIds.length);
+}
+
+const randomItem = <T,>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+/**
+ * Chooses what to play of a card: the user's saved loop, else a curated clip,
+ * else the first DRILL_SNIPPET_SECONDS of a recording.
+ */
+function toDrillClip(card: Card, loopRegions: StoredLoopRegions, avoidRecordingId?: string): DrillClip {
+    const recording = pickRecording(card.recordings, avoidRecordingId);
+    const region = loopRegions[recording.id] ?? pickClip(recording.clips) ?? { start: 0, end: DRILL_SNIPPET_SECONDS };
+    return { card, recording, region };
+}
+
+/**
+ * Builds a drill round for a confusion group. Questions alternate at random
+ * between "same or different bird?" and "which one is the X?".
+ * @param {Card[]} groupCards - The group's cards (at least two).
+ * @param {StoredLoopRegions} loopRegions - The user's saved loops.
+ * @param {number} size - Number of questions.
+ * @returns {DrillQuestion[]} The questions.
+ */
+export function buildDrillRound(groupCards: Card[], loopRegions: StoredLoopRegions, size: number = DRILL_ROUND_SIZE): DrillQuestion[] {
+    if (groupCards.length < 2) return [];
+    return Array.from({ length: size }, (): DrillQuestion => {
+        const firstCard = randomItem(groupCards);
+        const otherCard = randomItem(groupCards.filter(card => card.id !== firstCard.id));
+        const first = toDrillClip(firstCard, loopRegions);
+        if (Math.random() < 0.5) {
+            const isSame = Math.random() < 0.5;
+            // "Same" pairs use a different recording of the species when there is one
+            const second = isSame ? toDrillClip(firstCard, loopRegions, first.recording.id) : toDrillClip(otherCard, loopRegions);
+            return { kind: "sameOrDifferent", first, second, isSame };
+        }
+        return { kind: "whichOne", first, second: toDrillClip(otherCard, loopRegions), target: randomItem([firstCard, otherCard]) };
+    });
+}
+
+/**
+ * Lists the cards a drill answer is graded on: both species for "same or
+ * different", only the named species for "which one".
+ * @param {DrillQuestion} question - The question answered.
+ * @returns {DrillClip[]} The clips whose cards (and recording types) get the grade.
+ */
+export function getGradedClips(question: DrillQuestion): DrillClip[] {
+    if (question.kind === "whichOne") {
+        return [question.first.card.id === question.target.id ? question.first : question.second];
+    }
+    return question.isSame ? [question.first] : [question.first, question.second];
+}
+
+/**
+ * The species a wrong answer mixed the first graded card up with, so drill
+ * mistakes count towards "most confused" and group detection like quiz ones.
+ * @param {DrillQuestion} question - The question answered wrongly.
+ * @returns {string | null} Card id, or null when only one species was played.
+ */
+export function getMixedUpCardId(question: DrillQuestion): string | null {
+    if (question.kind === "whichOne") {
+        return question.first.card.id === question.target.id ? question.second.card.id : question.first.card.id;
+    }
+    return question.isSame ? null : question.second.card.id;
+}
+
+/**
+ * Checks the shape of a stored confusion group.
+ */
+function isValidConfusionGroup(value: unknown): value is ConfusionGroup {
+    if (typeof value !== "object" || value === null) return false;
+    const group = value as Partial<ConfusionGroup>;
+    return (
+        typeof group.id === "string" &&
+        typeof group.name === "string" &&
+        Array.isArray(group.cardIds) && group.cardIds.length >= 2 &&
+        group.cardIds.every(id => typeof id === "string")
+    );
+}
+
+/**
+ * Reads the user's confusion groups; the defaults are used until groups are saved.
+ * @returns {ConfusionGroup[]} The groups.
+ */
+export function loadConfusionGroups(): ConfusionGroup[] {
+    try {
+        const savedData = localStorage.getItem(profileKey(CONFUSION_GROUPS_STORAGE_KEY));
+        if (!savedData) return DEFAULT_CONFUSION_GROUPS;
+        const parsed = JSON.parse(savedData);
+        return Array.isArray(parsed)
+            ? parsed.filter(isValidConfusionGroup).map(group => ({ ...group, source: "user" as const }))
+            : DEFAULT_CONFUSION_GROUPS;
+    } catch (storageError) {
+        console.error("Error reading confusion groups from localStorage:", storageError);
+        return DEFAULT_CONFUSION_GROUPS;
+    }
+}
+
+/**
+ * Persists the user's confusion groups.
+ */
+export function saveConfusionGroups(groups: ConfusionGroup[]): void {
+    try {
+        localStorage.setItem(profileKey(CONFUSION_GROUPS_STORAGE_KEY), JSON.stringify(groups));
+    } catch (storageError) {
+        console.error("Error saving confusion groups to localStorage:", storageError);
+    }
+}
@@ -0,0 +1,39 @@
+import { looksMisspelled, validateBirdData } from './dataValidation';
+
+const species = (displayName: string, files: string[], image: string | null = null) => ({
+  displayName,
+  image,
+  recordings: files.map(file => ({ file, type: 'song' })),
+});
+
+test('report covers unmapped audio, skipped cards, duplicates and schema errors', () => {
+  const report = validateBirdData(
+    ['Veery.mp3', 'Wood Thrush.mp3', 'Mystery.mp3', 'Missing.mp3'],
+    {
+      veery: species('Veery', ['Veery.mp3'], 'Veery.jpg'),
+      'wood-thrush': species('Wood Thrush', ['Wood Thrush.mp3', 'Wood Thrush call.mp3']),
+      'wood-thrush-2': species('Wood thrush', ['Missing.mp3']),
+      'hermit-thrush': species('Hermit Thrush', ['Hermit Thrush.mp3']),
+      broken: { image: 3, recordings: 'none' },
+    },
+    { audio: new Set(['Veery.mp3', 'Wood Thrush.mp3', 'Mystery.mp3']), images: new Set() }
+  );
+  const codes = report.issues.map(issue => `${issue.severity}:${issue.code}:${issue.speciesId ?? issue.file}`);
+  expect(codes).toEqual(expect.arrayContaining([
+    'error:invalidSpecies:broken',
+    'error:duplicateDisplayName:wood-thrush-2',
+    'warning:missingAudio:wood-thrush',
+    'warning:missingAudio:hermit-thrush',
+    'warning:missingImage:veery',
+    'error:missingAudioFile:Missing.mp3',
+    'warning:unmappedAudio:Mystery.mp3',
+  ]));
+  expect(report.skippedCards.map(card => card.speciesId)).toEqual(['hermit-thrush', 'broken']);
+  expect(Object.keys(report.species)).not.toContain('broken');
+});
+
+test('file names a letter swap away from the display name are flagged', () => {
+  expect(looksMisspelled('Bleted Kingfisher.mp3', 'Belted Kingfisher')).toBe(true);
+  expect(looksMisspelled('Blackcapped_Chickadee.jpg', 'Black-capped Chickadee')).toBe(false);
+  expect(looksMisspelled('Blue Jay.mp3', 'Belted Kingfisher')).toBe(false);
+});
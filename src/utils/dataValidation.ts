@@ -0,0 +1,274 @@
+import { BirdData, Habitat, Region, SeasonalStatus } from "../types";
+import { HABITAT_LABELS, REGION_LABELS, SEASON_LABELS } from "./facetUtils";
+import { normalizeName } from "./nameMatching";
+import { RECORDING_TYPES } from "./recordingUtils";
+
+// Checks for the manifest and bird mapping, shared by the app, the data
+// report view and scripts/validate-data.js (which runs before every build).
+
+// File names this close to the species' display name (in edits) are probably typos
+export const MISSPELLING_MAX_DISTANCE = 2;
+
+export type DataIssueSeverity = "error" | "warning";
+
+export type DataIssueCode =
+    | "invalidManifest"
+    | "invalidMapping"
+    | "invalidSpecies"
+    | "invalidClip"
+    | "unmappedAudio"
+    | "missingAudio"
+    | "missingAudioFile"
+    | "missingImage"
+    | "duplicateDisplayName"
+    | "duplicateRecording"
+    | "possibleMisspelling";
+
+export interface DataIssue {
+    severity: DataIssueSeverity;
+    code: DataIssueCode;
+    message: string;
+    speciesId?: string;
+    file?: string;
+}
+
+// A species in the mapping that can't become a card
+export interface SkippedCard {
+    speciesId: string;
+    displayName: string;
+    reason: string;
+}
+
+export interface DataReport {
+    manifest: string[]; // Valid manifest entries
+    species: Record<string, BirdData>; // Species entries that passed the schema checks
+    skippedCards: SkippedCard[];
+    issues: DataIssue[];
+}
+
+// Files known to exist, when the caller can check (the build script reads the public folder)
+export interface KnownFiles {
+    audio?: Set<string>;
+    images?: Set<string>;
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === "string");
+
+/**
+ * Edit distance between two strings, counting a swap of neighbouring
+ * letters ("Bleted" / "Belted") as one edit.
+ */
+export function editDistance(a: string, b: string): number {
+    const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return rows[a.length][b.length];
+}
+
+/**
+ * Whether a file name looks like a misspelling of the display name: close,
+ * but not equal once case, spacing, hyphens and the extension are ignored.
+ * @param {string} file - Audio or image file name, e.g. "Bleted_Kingfisher.jpg".
+ * @param {string} displayName - The species' display name.
+ * @returns {boolean} True for a likely typo.
+ */
+export function looksMisspelled(file: string, displayName: string): boolean {
+    const base = file.replace(/\.[^.]+$/, "");
+    const fileName = normalizeName(base).replace(/ /g, "");
+    const expected = normalizeName(displayName).replace(/ /g, "");
+    if (fileName === expected) return false;
+    return editDistance(fileName, expected) <= MISSPELLING_MAX_DISTANCE;
+}
+
+/**
+ * Checks one species entry against the mapping schema.
+ * @returns {string[]} Problems found (empty when the entry is usable).
+ */
+function checkSpeciesSchema(data: unknown): string[] {
+    if (typeof data !== "object" || data === null || Array.isArray(data)) return ["entry is not an object"];
+    const entry = data as Record<string, unknown>;
+    const problems: string[] = [];
+    if (typeof entry.displayName !== "string" || !entry.displayName.trim()) problems.push("displayName must be a non-empty string");
+    if (entry.image !== null && entry.image !== undefined && typeof entry.image !== "string") problems.push("image must be a filename or null");
+    if (!Array.isArray(entry.recordings)) {
+        problems.push("recordings must be an array");
+    } else {
+        entry.recordings.forEach((recording, index) => {
+            const { file, type } = (recording ?? {}) as Record<string, unknown>;
+            if (typeof file !== "string" || !file) problems.push(`recording #${index + 1} needs a file`);
+            if (type !== undefined && !RECORDING_TYPES.includes(type as never)) problems.push(`recording #${index + 1} has unknown type "${String(type)}"`);
+        });
+    }
+    ["scientificName", "family", "familyCommonName", "order", "notes"].forEach(key => {
+        if (entry[key] !== undefined && typeof entry[key] !== "string") problems.push(`${key} must be a string`);
+    });
+    const checkValues = (key: string, allowed: Record<string, string>) => {
+        if (entry[key] === undefined) return;
+        if (!isStringArray(entry[key])) {
+            problems.push(`${key} must be an array of strings`);
+            return;
+        }
+        (entry[key] as string[]).filter(value => !(value in allowed)).forEach(value => problems.push(`unknown ${key.replace(/s$/, "")} "${value}"`));
+    };
+    checkValues("habitats", HABITAT_LABELS as Record<Habitat, string>);
+    checkValues("regions", REGION_LABELS as Record<Region, string>);
+    if (entry.season !== undefined && !(typeof entry.season === "string" && entry.season in (SEASON_LABELS as Record<SeasonalStatus, string>))) {
+        problems.push(`unknown season "${String(entry.season)}"`);
+    }
+    if (entry.presence !== undefined) {
+        if (typeof entry.presence !== "object" || entry.presence === null || Array.isArray(entry.presence)) {
+            problems.push("presence must map regions to months");
+        } else {
+            Object.entries(entry.presence as Record<string, unknown>).forEach(([region, months]) => {
+                if (!(region in REGION_LABELS)) problems.push(`unknown presence region "${region}"`);
+                if (!Array.isArray(months) || !months.every(month => Number.isInteger(month) && month >= 1 && month <= 12)) {
+                    problems.push(`presence for "${region}" must be a list of months (1-12)`);
+                }
+            });
+        }
+    }
+    return problems;
+}
+
+/**
+ * Validates the audio manifest and the bird mapping against each other (and
+ * against the files on disk, when known). Errors are broken data that would
+ * ship (unreadable entries, dead audio links, ambiguous names); warnings are
+ * likely mistakes the app works around, e.g. by skipping a card.
+ * @param {unknown} manifest - Parsed manifest.json (expected: array of filenames).
+ * @param {unknown} mapping - Parsed bird_mapping.json (expected: species id -> BirdData).
+ * @param {KnownFiles} files - Audio and image files that exist, if known.
+ * @returns {DataReport} Usable data, skipped cards and all issues found.
+ */
+export function validateBirdData(manifest: unknown, mapping: unknown, files: KnownFiles = {}): DataReport {
+    const issues: DataIssue[] = [];
+    const skippedCards: SkippedCard[] = [];
+    const species: Record<string, BirdData> = {};
+
+    let validManifest: string[] = [];
+    if (!Array.isArray(manifest)) {
+        issues.push({ severity: "error", code: "invalidManifest", message: "The manifest must be an array of audio filenames." });
+    } else {
+        validManifest = manifest.filter((entry): entry is string => typeof entry === "string" && entry.length > 0);
+        if (validManifest.length !== manifest.length) {
+            issues.push({ severity: "error", code: "invalidManifest", message: `${manifest.length - validManifest.length} manifest entries are not filenames.` });
+        }
+    }
+    if (typeof mapping !== "object" || mapping === null || Array.isArray(mapping)) {
+        issues.push({ severity: "error", code: "invalidMapping", message: "The bird mapping must be an object keyed by species id." });
+        return { manifest: validManifest, species, skippedCards, issues };
+    }
+
+    const manifestFiles = new Set(validManifest);
+    const mappedFiles = new Map<string, string>(); // File -> species that uses it
+    const speciesByName = new Map<string, string>(); // Normalised display name -> species id
+
+    Object.entries(mapping as Record<string, unknown>).forEach(([speciesId, data]) => {
+        const schemaProblems = checkSpeciesSchema(data);
+        const rawName = (data as { displayName?: unknown } | null)?.displayName;
+        const displayName = typeof rawName === "string" && rawName.trim() ? rawName : speciesId;
+        if (schemaProblems.length > 0) {
+            issues.push({ severity: "error", code: "invalidSpecies", speciesId, message: `${speciesId}: ${schemaProblems.join("; ")}.` });
+            skippedCards.push({ speciesId, displayName, reason: "invalid entry in the bird mapping" });
+            return;
+        }
+        const entry = data as BirdData;
+
+        const nameKey = normalizeName(entry.displayName);
+        const otherId = speciesByName.get(nameKey);
+        if (otherId) {
+            issues.push({ severity: "error", code: "duplicateDisplayName", speciesId, message: `${speciesId} and ${otherId} are both named "${entry.displayName}".` });
+        } else {
+            speciesByName.set(nameKey, speciesId);
+        }
+
+        const unlisted: string[] = []; // Recordings missing from the manifest
+        entry.recordings.forEach(recording => {
+            const owner = mappedFiles.get(recording.file);
+            if (owner && owner !== speciesId) {
+                issues.push({ severity: "error", code: "duplicateRecording", speciesId, file: recording.file, message: `${recording.file} is used by both ${owner} and ${speciesId}.` });
+            }
+            mappedFiles.set(recording.file, speciesId);
+
+            if (!manifestFiles.has(recording.file)) unlisted.push(recording.file);
+            if (looksMisspelled(recording.file, entry.displayName)) {
+                issues.push({ severity: "warning", code: "possibleMisspelling", speciesId, file: recording.file, message: `"${recording.file}" looks like a misspelling of "${entry.displayName}".` });
+            }
+            if (recording.clips !== undefined && (!Array.isArray(recording.clips) || recording.clips.some(clip => !(typeof clip?.start === "number" && typeof clip.end === "number" && clip.start >= 0 && clip.end > clip.start)))) {
+                issues.push({ severity: "warning", code: "invalidClip", speciesId, file: recording.file, message: `${recording.file} has clips without a valid start/end; they are ignored.` });
+            }
+        });
+
+        if (entry.image && looksMisspelled(entry.image, entry.displayName)) {
+            issues.push({ severity: "warning", code: "possibleMisspelling", speciesId, file: entry.image, message: `"${entry.image}" looks like a misspelling of "${entry.displayName}".` });
+        }
+
+        if (unlisted.length === entry.recordings.length) {
+            issues.push({ severity: "warning", code: "missingAudio", speciesId, message: `${speciesId}: none of its recordings (${unlisted.join(", ") || "none listed"}) are in the manifest, so its card is skipped.` });
+            skippedCards.push({ speciesId, displayName: entry.displayName, reason: "no audio in the manifest" });
+        } else if (unlisted.length > 0) {
+            issues.push({ severity: "warning", code: "missingAudio", speciesId, message: `${speciesId}: ${unlisted.join(", ")} ${unlisted.length === 1 ? "is" : "are"} not in the manifest.` });
+        }
+        species[speciesId] = entry;
+    });
+
+    if (files.images) issues.push(...checkImages(species, files.images));
+    if (files.audio) issues.push(...checkAudioFiles(validManifest, files.audio));
+    validManifest
+        .filter(file => !mappedFiles.has(file))
+        .forEach(file => issues.push({ severity: "warning", code: "unmappedAudio", file, message: `${file} is in the manifest but no species uses it.` }));
+
+    return { manifest: validManifest, species, skippedCards, issues };
+}
+
+/**
+ * Reports species whose image file doesn't exist (the card falls back to a placeholder).
+ * @param {Record<string, BirdData>} species - Valid species entries.
+ * @param {Set<string>} images - Image files that exist.
+ * @returns {DataIssue[]} One warning per missing image.
+ */
+export function checkImages(species: Record<string, BirdData>, images: Set<string>): DataIssue[] {
+    return Object.entries(species)
+        .filter(([, entry]) => entry.image && !images.has(entry.image))
+        .map(([speciesId, entry]) => ({
+            severity: "warning" as const,
+            code: "missingImage" as const,
+            speciesId,
+            file: entry.image ?? undefined,
+            message: `${speciesId}: image ${entry.image} does not exist.`,
+        }));
+}
+
+/**
+ * Reports manifest entries whose audio file doesn't exist.
+ * @param {string[]} manifest - Valid manifest entries.
+ * @param {Set<string>} audio - Audio files that exist.
+ * @returns {DataIssue[]} One error per missing file.
+ */
+export function checkAudioFiles(manifest: string[], audio: Set<string>): DataIssue[] {
+    return manifest
+        .filter(file => !audio.has(file))
+        .map(file => ({
+            severity: "error" as const,
+            code: "missingAudioFile" as const,
+            file,
+            message: `${file} is in the manifest but the file does not exist.`,
+        }));
+}
+
+/**
+ * Counts the errors and warnings in a report.
+ */
+export const countIssues = (issues: DataIssue[]): Record<DataIssueSeverity, number> => ({
+    error: issues.filter(issue => issue.severity === "error").length,
+    warning: issues.filter(issue => issue.severity === "warning").length,
+});
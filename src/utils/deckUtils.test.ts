@@ -0,0 +1,35 @@
+import { createDeck, getDeckCards, getDeckStats } from './deckUtils';
+import { DECKS_STORAGE_KEY, isValidDeck, loadStoredDecks, saveStoredDecks } from './storageUtils';
+import { profileKey } from './profileScope';
+import { makeCard } from './testCards';
+
+const cards = ['veery', 'wood-thrush', 'hermit-thrush'].map(id => makeCard(id));
+
+test('a deck keeps the study order of the cards and no deck means all of them', () => {
+  const deck = createDeck('  Thrushes ', ['hermit-thrush', 'veery', 'dodo']);
+  expect(deck.name).toBe('Thrushes');
+  expect(isValidDeck(deck)).toBe(true);
+  expect(getDeckCards(cards, deck).map(card => card.id)).toEqual(['veery', 'hermit-thrush']);
+  expect(getDeckCards(cards, undefined)).toBe(cards);
+});
+
+test('deck stats count learned, due and starred cards', () => {
+  const later = { ...cards[1].schedule, due: '2999-01-01T00:00:00.000Z' };
+  const deckCards = [
+    { ...cards[0], starred: true },
+    { ...cards[1], learned: true, schedule: later },
+    cards[2],
+  ];
+  expect(getDeckStats(deckCards)).toEqual({ total: 3, learned: 1, due: 2, starred: 1 });
+  expect(getDeckStats([])).toEqual({ total: 0, learned: 0, due: 0, starred: 0 });
+});
+
+test('saved decks drop invalid entries and an active deck that no longer exists', () => {
+  const deck = createDeck('Thrushes', ['veery']);
+  saveStoredDecks({ decks: [deck], activeDeckId: deck.id });
+  expect(loadStoredDecks()).toEqual({ decks: [deck], activeDeckId: deck.id });
+
+  localStorage.setItem(profileKey(DECKS_STORAGE_KEY), JSON.stringify({ decks: [deck, { name: 'broken' }], activeDeckId: 'deck-gone' }));
+  expect(loadStoredDecks()).toEqual({ decks: [deck], activeDeckId: null });
+  localStorage.clear();
+});
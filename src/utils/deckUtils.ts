@@ -0,0 +1,54 @@
+import { Card, Deck } from "../types";
+import { isDueToday } from "./scheduler";
+
+export interface DeckStats {
+    total: number;
+    learned: number;
+    due: number;
+    starred: number;
+}
+
+/**
+ * Creates a new deck from a selection of cards.
+ * @param {string} name - The deck name.
+ * @param {string[]} cardIds - Species ids in the deck.
+ * @returns {Deck} The new deck.
+ */
+export function createDeck(name: string, cardIds: string[]): Deck {
+    return {
+        id: `deck-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+        name: name.trim(),
+        cardIds,
+        createdAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Returns the cards that belong to a deck, in the order of `cards`.
+ * @param {Card[]} cards - All loaded cards.
+ * @param {Deck | undefined} deck - The deck, or undefined for all cards.
+ * @returns {Card[]} The deck's cards.
+ */
+export function getDeckCards(cards: Card[], deck: Deck | undefined): Card[] {
+    if (!deck) return cards;
+    const ids = new Set(deck.cardIds);
+    return cards.filter(card => ids.has(card.id));
+}
+
+/**
+ * Summarises progress for a set of cards.
+ * @param {Card[]} cards - The cards (e.g. a deck's cards).
+ * @returns {DeckStats} Learned/due/starred counts.
+ */
+export function getDeckStats(cards: Card[]): DeckStats {
+    const now = new Date();
+    return cards.reduce<DeckStats>(
+        (stats, card) => ({
+            total: stats.total + 1,
+            learned: stats.learned + (card.learned ? 1 : 0),
+            due: stats.due + (isDueToday(card.schedule, now) ? 1 : 0),
+            starred: stats.starred + (card.starred ? 1 : 0),
+        }),
+        { total: 0, learned: 0, due: 0, starred: 0 }
+    );
+}
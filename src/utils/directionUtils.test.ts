@@ -0,0 +1,36 @@
+import { createSchedule } from './scheduler';
+import { buildDirectionChoices, canStudyInDirection, getDirectionSchedule, gradeCardInDirection, toDirectionView } from './directionUtils';
+import { toStoredStatuses, validateStoredStatus } from './storageUtils';
+import { makeCard as makeTestCard } from './testCards';
+
+const now = new Date('2024-05-01T12:00:00Z');
+
+const makeCard = (id: string, imgSrc: string | null = `/images/${id}.jpg`) => makeTestCard(id, { imgSrc, schedule: createSchedule(now) });
+
+test('each direction keeps its own schedule', () => {
+  const card = gradeCardInDirection(makeCard('veery'), 'nameToSound', 'good', 'song', now);
+  expect(card.schedule).toEqual(createSchedule(now));
+  expect(card.recordingStats).toEqual({});
+  expect(getDirectionSchedule(card, 'nameToSound', now).interval).toBe(1);
+  expect(toDirectionView(card, 'nameToSound', now).schedule.interval).toBe(1);
+  expect(getDirectionSchedule(card, 'soundToPhoto', now).interval).toBe(0);
+
+  const stored = toStoredStatuses([card]).veery;
+  expect(validateStoredStatus(stored)).toBeNull();
+  expect(stored.directionSchedules?.nameToSound?.interval).toBe(1);
+  expect(toStoredStatuses([makeCard('veery')]).veery).not.toHaveProperty('directionSchedules');
+});
+
+test('reverse cards offer the right recording or photo among other species', () => {
+  const card = makeCard('veery');
+  const pool = [card, makeCard('wood-thrush'), makeCard('hermit-thrush'), makeCard('ovenbird', null)];
+
+  const sounds = buildDirectionChoices(card, '/audio/veery-2.mp3', pool, 'nameToSound');
+  expect(sounds).toHaveLength(3);
+  expect(sounds.filter(choice => choice.correct).map(choice => choice.src)).toEqual(['/audio/veery-2.mp3']);
+
+  const photos = buildDirectionChoices(card, '/audio/veery.mp3', pool, 'soundToPhoto');
+  expect(photos.map(choice => choice.card.id).sort()).toEqual(['hermit-thrush', 'veery', 'wood-thrush']);
+  expect(buildDirectionChoices(card, '/audio/veery.mp3', pool, 'soundToName')).toEqual([]);
+  expect(canStudyInDirection(pool[3], 'photoToSound')).toBe(false);
+});
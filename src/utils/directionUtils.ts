@@ -0,0 +1,171 @@
+import { Card, CardDirection, CardSchedule, RecordingType, ReviewGrade } from "../types";
+import { gradeCard } from "./cardUtils";
+import { profileKey } from "./profileScope";
+import { pickQuizChoices } from "./quizUtils";
+import { pickRecording } from "./recordingUtils";
+import { applyGrade, createSchedule, isScheduleLearned } from "./scheduler";
+
+// Key for the study direction picked last
+export const CARD_DIRECTION_STORAGE_KEY = "birdFlashcardCardDirection";
+
+export const DEFAULT_CARD_DIRECTION: CardDirection = "soundToName";
+
+export const CARD_DIRECTIONS: CardDirection[] = ["soundToName", "nameToSound", "photoToSound", "soundToPhoto"];
+
+export const CARD_DIRECTION_LABELS: Record<CardDirection, string> = {
+    soundToName: "Sound → name",
+    nameToSound: "Name → sound",
+    photoToSound: "Photo → sound",
+    soundToPhoto: "Sound → photo",
+};
+
+// Answers offered on a reverse card (incl. the correct one)
+export const DIRECTION_CHOICE_COUNT = 3;
+
+// One answer on a reverse card: a recording to play, or a photo to pick
+export interface DirectionChoice {
+    card: Card;
+    src: string; // Audio for sound answers, image for photo answers
+    correct: boolean;
+}
+
+/**
+ * Whether the front of the card plays a recording.
+ */
+export const hasSoundPrompt = (direction: CardDirection): boolean =>
+    direction === "soundToName" || direction === "soundToPhoto";
+
+/**
+ * Whether the card is answered by picking one of several recordings.
+ */
+export const hasSoundAnswers = (direction: CardDirection): boolean =>
+    direction === "nameToSound" || direction === "photoToSound";
+
+/**
+ * Whether the card is answered by picking from choices rather than self-graded.
+ */
+export const hasChoiceAnswers = (direction: CardDirection): boolean => direction !== DEFAULT_CARD_DIRECTION;
+
+/**
+ * Whether a card can be studied in a direction; the photo directions need a photo.
+ */
+export const canStudyInDirection = (card: Card, direction: CardDirection): boolean =>
+    direction === "photoToSound" || direction === "soundToPhoto" ? card.imgSrc !== null : true;
+
+/**
+ * Gets a card's schedule for one direction. Directions never studied start fresh.
+ * @param {Card} card - The card.
+ * @param {CardDirection} direction - The review direction.
+ * @param {Date} now - The current time.
+ * @returns {CardSchedule} The schedule.
+ */
+export function getDirectionSchedule(card: Card, direction: CardDirection, now: Date = new Date()): CardSchedule {
+    if (direction === DEFAULT_CARD_DIRECTION) return card.schedule;
+    return card.directionSchedules[direction] ?? createSchedule(now);
+}
+
+/**
+ * Replaces a card's schedule for one direction.
+ * @param {Card} card - The card.
+ * @param {CardDirection} direction - The review direction.
+ * @param {CardSchedule} schedule - The new schedule.
+ * @returns {Card} The updated card.
+ */
+export function setDirectionSchedule(card: Card, direction: CardDirection, schedule: CardSchedule): Card {
+    if (direction === DEFAULT_CARD_DIRECTION) return { ...card, schedule, learned: isScheduleLearned(schedule) };
+    return { ...card, directionSchedules: { ...card.directionSchedules, [direction]: schedule } };
+}
+
+/**
+ * Applies a review grade in one direction. Recording-type tallies only count
+ * the classic direction, where the learner names what they hear.
+ * @param {Card} card - The card that was reviewed.
+ * @param {CardDirection} direction - The direction it was reviewed in.
+ * @param {ReviewGrade} grade - The review grade.
+ * @param {RecordingType} recordingType - Type of the recording that was played, if known.
+ * @param {Date} now - The time of the review.
+ * @returns {Card} The updated card.
+ */
+export function gradeCardInDirection(
+    card: Card,
+    direction: CardDirection,
+    grade: ReviewGrade,
+    recordingType?: RecordingType,
+    now: Date = new Date()
+): Card {
+    if (direction === DEFAULT_CARD_DIRECTION) return gradeCard(card, grade, recordingType, now);
+    return setDirectionSchedule(card, direction, applyGrade(getDirectionSchedule(card, direction, now), grade, now));
+}
+
+/**
+ * Presents a card as studied in a direction: `schedule` and `learned` are that
+ * direction's, so filters, queues and deck stats work unchanged. Use it for
+ * display only; updates go through the card ids.
+ * @param {Card} card - The card.
+ * @param {CardDirection} direction - The review direction.
+ * @param {Date} now - The current time.
+ * @returns {Card} The card as seen in that direction.
+ */
+export function toDirectionView(card: Card, direction: CardDirection, now: Date = new Date()): Card {
+    if (direction === DEFAULT_CARD_DIRECTION) return card;
+    const schedule = getDirectionSchedule(card, direction, now);
+    return { ...card, schedule, learned: isScheduleLearned(schedule) };
+}
+
+/**
+ * Picks the answers for a reverse card: the card's own recording or photo plus
+ * distractors from other species.
+ * @param {Card} card - The card being studied.
+ * @param {string} answerAudioSrc - The card's recording to offer as the right answer.
+ * @param {Card[]} pool - All loaded cards to draw distractors from.
+ * @param {CardDirection} direction - The review direction.
+ * @returns {DirectionChoice[]} The shuffled choices; none for the classic direction.
+ */
+export function buildDirectionChoices(
+    card: Card,
+    answerAudioSrc: string,
+    pool: Card[],
+    direction: CardDirection
+): DirectionChoice[] {
+    if (hasSoundAnswers(direction)) {
+        return pickQuizChoices(card, pool, DIRECTION_CHOICE_COUNT).map(choice => ({
+            card: choice,
+            src: choice.id === card.id ? answerAudioSrc : pickRecording(choice.recordings).src,
+            correct: choice.id === card.id,
+        }));
+    }
+    if (direction === "soundToPhoto" && card.imgSrc) {
+        const withPhotos = pool.filter(candidate => candidate.imgSrc !== null);
+        return pickQuizChoices(card, withPhotos, DIRECTION_CHOICE_COUNT).map(choice => ({
+            card: choice,
+            src: choice.imgSrc as string,
+            correct: choice.id === card.id,
+        }));
+    }
+    return [];
+}
+
+/**
+ * Reads the saved study direction.
+ * @returns {CardDirection} The direction, or the classic one if none is saved.
+ */
+export const loadCardDirection = (): CardDirection => {
+    try {
+        const saved = localStorage.getItem(profileKey(CARD_DIRECTION_STORAGE_KEY));
+        return CARD_DIRECTIONS.find(direction => direction === saved) ?? DEFAULT_CARD_DIRECTION;
+    } catch (error) {
+        console.error("Error reading the card direction from localStorage:", error);
+        return DEFAULT_CARD_DIRECTION;
+    }
+};
+
+/**
+ * Saves the study direction.
+ */
+export const saveCardDirection = (direction: CardDirection): void => {
+    try {
+        localStorage.setItem(profileKey(CARD_DIRECTION_STORAGE_KEY), direction);
+    } catch (error) {
+        console.error("Error saving the card direction to localStorage:", error);
+    }
+};
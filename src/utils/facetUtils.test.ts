@@ -0,0 +1,27 @@
+import { applyFacetFilters, EMPTY_FACETS, getFamilyOptions, hasActiveFacets } from './facetUtils';
+import { makeCard } from './testCards';
+
+const cards = [
+  makeCard('downy-woodpecker', { family: 'Picidae', familyCommonName: 'Woodpeckers', habitats: ['forest', 'urban'], regions: ['northeast'], season: 'year-round' }),
+  makeCard('veery', { family: 'Turdidae', familyCommonName: 'Thrushes', habitats: ['forest'], regions: ['northeast', 'midwest'], season: 'summer' }),
+  makeCard('killdeer', { family: 'Charadriidae', familyCommonName: null, habitats: ['grassland'], regions: ['midwest'], season: 'summer' }),
+  makeCard('mystery'),
+];
+
+test('unset facets match everything and set facets combine', () => {
+  expect(hasActiveFacets(EMPTY_FACETS)).toBe(false);
+  expect(applyFacetFilters(cards, EMPTY_FACETS)).toBe(cards);
+  const ids = (facets: Partial<typeof EMPTY_FACETS>) => applyFacetFilters(cards, { ...EMPTY_FACETS, ...facets }).map(card => card.id);
+  expect(ids({ habitat: 'forest' })).toEqual(['downy-woodpecker', 'veery']);
+  expect(ids({ habitat: 'forest', region: 'midwest' })).toEqual(['veery']);
+  expect(ids({ season: 'summer', family: 'Charadriidae' })).toEqual(['killdeer']);
+  expect(ids({ region: 'southeast' })).toEqual([]);
+});
+
+test('family options use the common name when there is one, sorted by label', () => {
+  expect(getFamilyOptions(cards)).toEqual([
+    { value: 'Charadriidae', label: 'Charadriidae' },
+    { value: 'Turdidae', label: 'Thrushes' },
+    { value: 'Picidae', label: 'Woodpeckers' },
+  ]);
+});
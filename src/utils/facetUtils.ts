@@ -0,0 +1,63 @@
+import { Card, FacetFilters, Habitat, Region, SeasonalStatus } from "../types";
+
+export const EMPTY_FACETS: FacetFilters = { family: null, habitat: null, region: null, season: null };
+
+export const HABITAT_LABELS: Record<Habitat, string> = {
+    forest: "Forest",
+    woodland: "Woodland & edges",
+    grassland: "Grassland",
+    farmland: "Farmland",
+    wetland: "Wetland",
+    coastal: "Coastal",
+    urban: "Suburban & urban",
+};
+
+export const REGION_LABELS: Record<Region, string> = {
+    northeast: "Northeast",
+    southeast: "Southeast",
+    midwest: "Midwest",
+    "great-plains": "Great Plains",
+};
+
+export const SEASON_LABELS: Record<SeasonalStatus, string> = {
+    "year-round": "Year-round residents",
+    summer: "Summer residents",
+    winter: "Winter residents",
+    migrant: "Migrants",
+};
+
+/**
+ * Whether any facet is set.
+ */
+export const hasActiveFacets = (facets: FacetFilters): boolean =>
+    Object.values(facets).some(value => value !== null);
+
+/**
+ * Filters cards by the selected metadata facets. Unset facets match everything.
+ * @param {Card[]} cards - The cards to filter.
+ * @param {FacetFilters} facets - The selected facets.
+ * @returns {Card[]} The matching cards, in their original order.
+ */
+export function applyFacetFilters(cards: Card[], facets: FacetFilters): Card[] {
+    if (!hasActiveFacets(facets)) return cards;
+    return cards.filter(card =>
+        (facets.family === null || card.family === facets.family) &&
+        (facets.habitat === null || card.habitats.includes(facets.habitat)) &&
+        (facets.region === null || card.regions.includes(facets.region)) &&
+        (facets.season === null || card.season === facets.season)
+    );
+}
+
+/**
+ * Lists the families present in the cards, labelled by common name
+ * (e.g. "Woodpeckers"), for the family facet.
+ * @param {Card[]} cards - The loaded cards.
+ * @returns {{ value: string; label: string }[]} Family options sorted by label.
+ */
+export function getFamilyOptions(cards: Card[]): { value: string; label: string }[] {
+    const families = new Map<string, string>();
+    cards.forEach(card => {
+        if (card.family) families.set(card.family, card.familyCommonName ?? card.family);
+    });
+    return Array.from(families, ([value, label]) => ({ value, label })).sort((a, b) => a.label.localeCompare(b.label));
+}
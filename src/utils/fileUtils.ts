@@ -0,0 +1,22 @@
+/**
+ * Triggers a browser download of in-memory content.
+ * @param {string} filename - Suggested file name.
+ * @param {string | Blob} content - The file contents.
+ * @param {string} mimeType - MIME type used when `content` is a string.
+ */
+export const downloadFile = (filename: string, content: string | Blob, mimeType: string = "application/json"): void => {
+    const blob = typeof content === "string" ? new Blob([content], { type: mimeType }) : content;
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Date stamp for exported file names, e.g. "2024-05-01".
+ */
+export const fileDateStamp = (date: Date = new Date()): string => date.toISOString().slice(0, 10);
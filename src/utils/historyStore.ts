@@ -0,0 +1,94 @@
+import { StudyEvent, StudyEventType } from "../types";
+import { REVIEW_GRADES } from "./scheduler";
+import { profileKey } from "./profileScope";
+
+// Key for localStorage
+export const HISTORY_STORAGE_KEY = "birdFlashcardHistory";
+// Oldest events are dropped beyond this to bound localStorage usage
+export const MAX_STUDY_EVENTS = 5000;
+
+const STUDY_EVENT_TYPES: StudyEventType[] = ["play", "flip", "grade", "toggleLearned", "toggleStarred", "quizAnswer", "drillAnswer", "fieldAnswer"];
+
+/**
+ * Checks the shape of a stored or imported history event.
+ */
+export function isValidStudyEvent(value: unknown): value is StudyEvent {
+    if (typeof value !== "object" || value === null) return false;
+    const event = value as Partial<StudyEvent>;
+    return (
+        typeof event.at === "string" && !isNaN(Date.parse(event.at)) &&
+        STUDY_EVENT_TYPES.includes(event.type as StudyEventType) &&
+        typeof event.cardId === "string" &&
+        (event.grade === undefined || REVIEW_GRADES.includes(event.grade)) &&
+        (event.correct === undefined || typeof event.correct === "boolean") &&
+        (event.chosenId === undefined || typeof event.chosenId === "string")
+    );
+}
+
+/**
+ * Whether an event is a multiple-choice answer (quiz, drill or field conditions).
+ */
+export const isChoiceAnswer = (event: StudyEvent): boolean =>
+    event.type === "quizAnswer" || event.type === "drillAnswer" || event.type === "fieldAnswer";
+
+/**
+ * Creates a history event stamped with the current time.
+ * @param {StudyEventType} type - What the learner did.
+ * @param {string} cardId - The species it applied to.
+ * @param {Partial<StudyEvent>} details - Extra fields (grade, correct, chosenId).
+ * @param {Date} now - Timestamp of the event.
+ * @returns {StudyEvent} The event.
+ */
+export function createStudyEvent(type: StudyEventType, cardId: string, details: Pick<StudyEvent, "grade" | "correct" | "chosenId"> = {}, now: Date = new Date()): StudyEvent {
+    return { at: now.toISOString(), type, cardId, ...details };
+}
+
+/**
+ * Appends events, keeping only the most recent MAX_STUDY_EVENTS.
+ */
+export function appendStudyEvents(history: StudyEvent[], events: StudyEvent[]): StudyEvent[] {
+    return [...history, ...events].slice(-MAX_STUDY_EVENTS);
+}
+
+/**
+ * Merges two histories, dropping exact duplicates and keeping time order.
+ */
+export function mergeHistories(current: StudyEvent[], imported: StudyEvent[]): StudyEvent[] {
+    const seen = new Set<string>();
+    return [...current, ...imported]
+        .filter(event => {
+            const key = `${event.at}|${event.type}|${event.cardId}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .sort((a, b) => a.at.localeCompare(b.at))
+        .slice(-MAX_STUDY_EVENTS);
+}
+
+/**
+ * Reads the learning history, skipping malformed events.
+ * @returns {StudyEvent[]} Events, oldest first.
+ */
+export function loadHistory(): StudyEvent[] {
+    try {
+        const savedData = localStorage.getItem(profileKey(HISTORY_STORAGE_KEY));
+        if (!savedData) return [];
+        const parsed = JSON.parse(savedData);
+        return Array.isArray(parsed) ? parsed.filter(isValidStudyEvent) : [];
+    } catch (storageError) {
+        console.error("Error reading study history from localStorage:", storageError);
+        return [];
+    }
+}
+
+/**
+ * Persists the learning history.
+ */
+export function saveHistory(history: StudyEvent[]): void {
+    try {
+        localStorage.setItem(profileKey(HISTORY_STORAGE_KEY), JSON.stringify(history));
+    } catch (storageError) {
+        console.error("Error saving study history to localStorage:", storageError);
+    }
+}
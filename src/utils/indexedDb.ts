@@ -0,0 +1,56 @@
+// Small IndexedDB helpers shared by the stores that keep blobs (bundles, personal recordings)
+
+// A database whose object stores are all keyed by "id"
+export interface IndexedDbConfig {
+    name: string;
+    version: number;
+    stores: string[];
+}
+
+/**
+ * Whether IndexedDB is available (it isn't in some private browsing modes).
+ */
+export const isIndexedDbSupported = (): boolean => typeof window !== "undefined" && "indexedDB" in window;
+
+/**
+ * Opens a database, creating any missing stores on first use or upgrade.
+ * @param {IndexedDbConfig} config - The database.
+ * @returns {Promise<IDBDatabase>} The open database; the caller closes it.
+ */
+export function openDb(config: IndexedDbConfig): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(config.name, config.version);
+        request.onupgradeneeded = () => {
+            config.stores.forEach(name => {
+                if (!request.result.objectStoreNames.contains(name)) {
+                    request.result.createObjectStore(name, { keyPath: "id" });
+                }
+            });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Runs one request against a store and closes the database afterwards.
+ * @param {IndexedDbConfig} config - The database.
+ * @param {string} storeName - One of its stores.
+ * @param {IDBTransactionMode} mode - "readonly" or "readwrite".
+ * @param {Function} run - Makes the request.
+ * @returns {Promise<T>} The request's result, once the transaction has completed.
+ */
+export async function withStore<T>(config: IndexedDbConfig, storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb(config);
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const transaction = db.transaction(storeName, mode);
+            const request = run(transaction.objectStore(storeName));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error ?? request.error);
+            transaction.onabort = () => reject(transaction.error ?? new Error(`${config.name}: transaction aborted.`));
+        });
+    } finally {
+        db.close();
+    }
+}
@@ -0,0 +1,16 @@
+import { DEFAULT_KEY_BINDINGS, KEY_BINDINGS_STORAGE_KEY, loadKeyBindings, rebind } from './keyBindings';
+
+afterEach(() => localStorage.clear());
+
+test('rebinding to a key already in use swaps the two actions', () => {
+  const updated = rebind(DEFAULT_KEY_BINDINGS, 'flip', 's');
+  expect(updated.flip).toBe('s');
+  expect(updated.toggleStarred).toBe(DEFAULT_KEY_BINDINGS.flip);
+});
+
+test('missing or invalid saved bindings fall back to defaults', () => {
+  localStorage.setItem(KEY_BINDINGS_STORAGE_KEY, JSON.stringify({ next: 'n', previous: 5 }));
+  const bindings = loadKeyBindings();
+  expect(bindings.next).toBe('n');
+  expect(bindings.previous).toBe(DEFAULT_KEY_BINDINGS.previous);
+});
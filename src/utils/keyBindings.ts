@@ -0,0 +1,124 @@
+import { ShortcutAction, KeyBindings } from "../types";
+import { profileKey } from "./profileScope";
+
+// Key for localStorage
+export const KEY_BINDINGS_STORAGE_KEY = "birdFlashcardKeyBindings";
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+    playPause: " ",
+    next: "ArrowRight",
+    previous: "ArrowLeft",
+    flip: "f",
+    toggleStarred: "s",
+    toggleLearned: "m",
+    shuffle: "r",
+    nextFilter: "ArrowDown",
+    previousFilter: "ArrowUp",
+    gradeAgain: "1",
+    gradeHard: "2",
+    gradeGood: "3",
+    gradeEasy: "4",
+    showHelp: "?",
+};
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+    playPause: "Play / pause audio",
+    next: "Next card",
+    previous: "Previous card",
+    flip: "Flip card",
+    toggleStarred: "Star / unstar",
+    toggleLearned: "Mark learned / not learned",
+    shuffle: "Shuffle deck",
+    nextFilter: "Next filter",
+    previousFilter: "Previous filter",
+    gradeAgain: "Grade: Again",
+    gradeHard: "Grade: Hard",
+    gradeGood: "Grade: Good",
+    gradeEasy: "Grade: Easy",
+    showHelp: "Show keyboard shortcuts",
+};
+
+/**
+ * Converts a keyboard event into a binding string. Letters are lowercased so
+ * bindings don't depend on caps lock; Shift is implied by the key itself ("?").
+ * @param {KeyboardEvent} event - The keydown event.
+ * @returns {string} The binding, e.g. "f", " ", "ArrowRight".
+ */
+export const eventToBinding = (event: KeyboardEvent): string =>
+    event.key.length === 1 ? event.key.toLowerCase() : event.key;
+
+/**
+ * Formats a binding for display, e.g. " " -> "Space", "ArrowRight" -> "→".
+ */
+export const formatBinding = (binding: string): string => {
+    const names: Record<string, string> = {
+        " ": "Space",
+        ArrowRight: "→",
+        ArrowLeft: "←",
+        ArrowUp: "↑",
+        ArrowDown: "↓",
+        Escape: "Esc",
+    };
+    return names[binding] ?? (binding.length === 1 ? binding.toUpperCase() : binding);
+};
+
+/**
+ * Whether a keyboard event comes from somewhere the user is typing text,
+ * in which case shortcuts must not fire.
+ */
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+    if (!(target instanceof HTMLElement)) return false;
+    const tagName = target.tagName;
+    return tagName === "INPUT" || tagName === "TEXTAREA" || tagName === "SELECT" || target.isContentEditable;
+};
+
+/**
+ * Finds the action bound to a key.
+ */
+export const findActionForBinding = (bindings: KeyBindings, binding: string): ShortcutAction | undefined =>
+    (Object.keys(bindings) as ShortcutAction[]).find(action => bindings[action] === binding);
+
+/**
+ * Rebinds an action. If another action already uses the key, the two swap keys.
+ * @param {KeyBindings} bindings - Current bindings.
+ * @param {ShortcutAction} action - The action to rebind.
+ * @param {string} binding - The new key.
+ * @returns {KeyBindings} The updated bindings.
+ */
+export const rebind = (bindings: KeyBindings, action: ShortcutAction, binding: string): KeyBindings => {
+    const conflict = findActionForBinding(bindings, binding);
+    const updated = { ...bindings, [action]: binding };
+    if (conflict && conflict !== action) updated[conflict] = bindings[action];
+    return updated;
+};
+
+/**
+ * Reads saved bindings, falling back to defaults for missing or invalid entries.
+ * @returns {KeyBindings} The bindings.
+ */
+export const loadKeyBindings = (): KeyBindings => {
+    try {
+        const savedData = localStorage.getItem(profileKey(KEY_BINDINGS_STORAGE_KEY));
+        if (!savedData) return DEFAULT_KEY_BINDINGS;
+        const parsed = JSON.parse(savedData);
+        const bindings = { ...DEFAULT_KEY_BINDINGS };
+        (Object.keys(DEFAULT_KEY_BINDINGS) as ShortcutAction[]).forEach(action => {
+            if (typeof parsed?.[action] === "string" && parsed[action]) bindings[action] = parsed[action];
+        });
+        return bindings;
+    } catch (storageError) {
+        console.error("Error reading key bindings from localStorage:", storageError);
+        return DEFAULT_KEY_BINDINGS;
+    }
+};
+
+/**
+ * Persists key bindings.
+ */
+export const saveKeyBindings = (bindings: KeyBindings): void => {
+    try {
+        localStorage.setItem(profileKey(KEY_BINDINGS_STORAGE_KEY), JSON.stringify(bindings));
+    } catch (storageError) {
+        console.error("Error saving key bindings to localStorage:", storageError);
+    }
+};
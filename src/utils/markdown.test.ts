@@ -0,0 +1,24 @@
+import { parseInline, parseMarkdown } from './markdown';
+
+test('inline formatting becomes runs, and only web links are clickable', () => {
+  expect(parseInline('Sounds like **drink** *your* `tea`')).toEqual([
+    { kind: 'text', text: 'Sounds like ' },
+    { kind: 'strong', text: 'drink' },
+    { kind: 'text', text: ' ' },
+    { kind: 'em', text: 'your' },
+    { kind: 'text', text: ' ' },
+    { kind: 'code', text: 'tea' },
+  ]);
+  expect(parseInline('[Macaulay](https://www.macaulaylibrary.org) [x](javascript:void)')).toEqual([
+    { kind: 'link', text: 'Macaulay', href: 'https://www.macaulaylibrary.org' },
+    { kind: 'text', text: ' ' },
+    { kind: 'text', text: 'x' },
+  ]);
+});
+
+test('blank lines split paragraphs and dashes make lists', () => {
+  expect(parseMarkdown('Song: *fee-bee*\nCall: *chick-a-dee*\n\n- one\n- two').map(block => block.kind)).toEqual(['paragraph', 'list']);
+  const [paragraph, list] = parseMarkdown('a\nb\n\n- one\n* two');
+  expect(paragraph.kind === 'paragraph' && paragraph.lines).toHaveLength(2);
+  expect(list.kind === 'list' && list.items).toEqual([[{ kind: 'text', text: 'one' }], [{ kind: 'text', text: 'two' }]]);
+});
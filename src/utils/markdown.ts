@@ -0,0 +1,69 @@
+// A small markdown subset for card notes: paragraphs, line breaks, "- " lists,
+// **bold**, *italic* (or _italic_), `code` and [links](https://...).
+// It produces a tree rather than HTML, so notes can never inject markup.
+
+export type MarkdownInline =
+    | { kind: "text" | "strong" | "em" | "code"; text: string }
+    | { kind: "link"; text: string; href: string };
+
+export type MarkdownBlock =
+    | { kind: "paragraph"; lines: MarkdownInline[][] }
+    | { kind: "list"; items: MarkdownInline[][] };
+
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\*[^*\s][^*]*\*|_[^_\s][^_]*_|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/;
+const LIST_ITEM_PATTERN = /^\s*[-*]\s+/;
+// Only web links are clickable; anything else (e.g. javascript:) stays text
+const SAFE_HREF_PATTERN = /^https?:\/\//i;
+
+/**
+ * Splits a line into plain and formatted runs.
+ * @param {string} line - One line of markdown.
+ * @returns {MarkdownInline[]} The runs, in order.
+ */
+export function parseInline(line: string): MarkdownInline[] {
+    return line.split(INLINE_PATTERN).filter(Boolean).map((part): MarkdownInline => {
+        if (part.startsWith("**") && part.endsWith("**") && part.length > 4) return { kind: "strong", text: part.slice(2, -2) };
+        if (part.startsWith("`") && part.endsWith("`") && part.length > 2) return { kind: "code", text: part.slice(1, -1) };
+        if (/^(\*[^*]+\*|_[^_]+_)$/.test(part)) return { kind: "em", text: part.slice(1, -1) };
+        const link = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(part);
+        if (link) {
+            return SAFE_HREF_PATTERN.test(link[2]) ? { kind: "link", text: link[1], href: link[2] } : { kind: "text", text: link[1] };
+        }
+        return { kind: "text", text: part };
+    });
+}
+
+/**
+ * Parses notes into blocks. Blank lines separate paragraphs; consecutive
+ * "- " lines form a list.
+ * @param {string} text - The notes.
+ * @returns {MarkdownBlock[]} The blocks, in order.
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    let current: MarkdownBlock | null = null;
+    text.replace(/\r\n?/g, "\n").split("\n").forEach(line => {
+        if (!line.trim()) {
+            current = null;
+            return;
+        }
+        if (LIST_ITEM_PATTERN.test(line)) {
+            const item = parseInline(line.replace(LIST_ITEM_PATTERN, "").trim());
+            if (current?.kind === "list") {
+                current.items.push(item);
+            } else {
+                current = { kind: "list", items: [item] };
+                blocks.push(current);
+            }
+            return;
+        }
+        const inline = parseInline(line.trim());
+        if (current?.kind === "paragraph") {
+            current.lines.push(inline);
+        } else {
+            current = { kind: "paragraph", lines: [inline] };
+            blocks.push(current);
+        }
+    });
+    return blocks;
+}
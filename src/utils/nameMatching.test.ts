@@ -0,0 +1,40 @@
+import { gradeTypedAnswer } from './nameMatching';
+
+test('hyphen, spacing and case differences are fully correct', () => {
+  expect(gradeTypedAnswer('Black capped chickadee', 'Black-capped Chickadee').verdict).toBe('correct');
+  expect(gradeTypedAnswer('blackcapped chickadee', 'Black-capped Chickadee').verdict).toBe('correct');
+});
+
+test('small typos are tolerated', () => {
+  expect(gradeTypedAnswer('Blak-caped Chikadee', 'Black-capped Chickadee').verdict).toBe('correct');
+  expect(gradeTypedAnswer('Nothern Cardnal', 'Northern Cardinal').verdict).toBe('correct');
+});
+
+test('missing words earn partial credit', () => {
+  const missing = gradeTypedAnswer('chickadee', 'Black-capped Chickadee');
+  expect(missing.verdict).toBe('partial');
+  expect(missing.score).toBeCloseTo(1 / 3);
+});
+
+test('a close match to another species is incorrect, not partial', () => {
+  const names = ['Downy Woodpecker', 'Hairy Woodpecker', 'Pileated Woodpecker'];
+  const lookAlike = gradeTypedAnswer('Hairy Woodpecker', 'Downy Woodpecker', names);
+  expect(lookAlike.verdict).toBe('incorrect');
+  expect(lookAlike.confusedWith).toBe('Hairy Woodpecker');
+  expect(gradeTypedAnswer('Hairy Woodpeker', 'Downy Woodpecker', names).verdict).toBe('incorrect');
+
+  // A missing word is still a near miss when no other bird fits better
+  expect(gradeTypedAnswer('Downy', 'Downy Woodpecker', names).verdict).toBe('partial');
+});
+
+test('an answer that fits another species only as well is still partial', () => {
+  const woodpecker = gradeTypedAnswer('Woodpecker', 'Downy Woodpecker', ['Downy Woodpecker', 'Hairy Woodpecker']);
+  expect(woodpecker.verdict).toBe('partial');
+  expect(woodpecker.confusedWith).toBeUndefined();
+  expect(gradeTypedAnswer('thrush', 'Wood Thrush', ['Wood Thrush', 'Hermit Thrush']).verdict).toBe('partial');
+});
+
+test('unrelated answers are incorrect', () => {
+  expect(gradeTypedAnswer('Blue Jay', 'Wood Thrush').verdict).toBe('incorrect');
+  expect(gradeTypedAnswer('', 'Wood Thrush').verdict).toBe('incorrect');
+});
@@ -0,0 +1,91 @@
+import Fuse from "fuse.js";
+import { NAME_MATCH_THRESHOLD } from "../config";
+import { ReviewGrade, TypedAnswerResult } from "../types";
+
+/**
+ * Normalises a bird name for comparison: lowercase, hyphens and punctuation
+ * become spaces, whitespace is collapsed.
+ * @param {string} name - The raw name.
+ * @returns {string} The normalised name, e.g. "Black-capped Chickadee" -> "black capped chickadee".
+ */
+export const normalizeName = (name: string): string =>
+    name
+        .toLowerCase()
+        .replace(/[-_'’.,]/g, " ")
+        .replace(/[^a-z0-9 ]/g, "")
+        .replace(/\s+/g, " ")
+        .trim();
+
+/**
+ * Grades a typed answer against the correct display name.
+ * Each word of the correct name is fuzzy-matched (with the same Fuse.js
+ * threshold as the card search) against the typed words, so typos, hyphen vs
+ * space differences and missing words give partial credit. An answer that
+ * matches another species better (e.g. "Hairy Woodpecker" for a
+ * Downy Woodpecker) names the wrong bird and is incorrect.
+ * @param {string} input - What the learner typed.
+ * @param {string} displayName - The correct name.
+ * @param {string[]} otherNames - Display names of the other cards.
+ * @returns {TypedAnswerResult} The score (0-1) and verdict.
+ */
+export const gradeTypedAnswer = (input: string, displayName: string, otherNames: string[] = []): TypedAnswerResult => {
+    const result = scoreTypedAnswer(input, displayName);
+    if (result.verdict !== "partial") return result;
+    const expected = normalizeName(displayName);
+    const confusedWith = otherNames
+        .filter(name => normalizeName(name) !== expected)
+        .map(name => ({ name, score: scoreTypedAnswer(input, name).score }))
+        .filter(other => other.score > result.score)
+        .sort((a, b) => b.score - a.score)[0];
+    return confusedWith ? { ...result, verdict: "incorrect", confusedWith: confusedWith.name } : result;
+};
+
+// Word-by-word score against one name
+const scoreTypedAnswer = (input: string, displayName: string): TypedAnswerResult => {
+    const typed = normalizeName(input);
+    const expected = normalizeName(displayName);
+    const expectedWords = expected.split(" ").filter(Boolean);
+    const totalWords = expectedWords.length;
+
+    // Exact match, or the same letters with different spacing ("blackcapped chickadee")
+    if (typed === expected || (typed && typed.replace(/ /g, "") === expected.replace(/ /g, ""))) {
+        return { input, score: 1, verdict: "correct", matchedWords: totalWords, totalWords };
+    }
+
+    const typedWords = typed.split(" ").filter(Boolean);
+    if (typedWords.length === 0) {
+        return { input, score: 0, verdict: "incorrect", matchedWords: 0, totalWords };
+    }
+
+    // Match each expected word against the remaining typed words (each typed word used once)
+    const remaining = [...typedWords];
+    let matchedWords = 0;
+    expectedWords.forEach(word => {
+        const fuse = new Fuse(remaining, { threshold: NAME_MATCH_THRESHOLD, includeScore: true });
+        const [best] = fuse.search(word);
+        if (best) {
+            matchedWords++;
+            remaining.splice(best.refIndex, 1);
+        }
+    });
+
+    // Extra words that matched nothing (e.g. a different species' prefix) cost credit too
+    const score = matchedWords / Math.max(totalWords, matchedWords + remaining.length);
+    const verdict = score === 1 ? "correct" : score > 0 ? "partial" : "incorrect";
+    return { input, score, verdict, matchedWords, totalWords };
+};
+
+/**
+ * Maps a typed-answer verdict onto a scheduler grade.
+ */
+export const gradeForTypedAnswer = (result: TypedAnswerResult): ReviewGrade => {
+    switch (result.verdict) {
+        case "correct":
+            return "good";
+        case "partial":
+            return "hard";
+        case "incorrect":
+        default:
+            return "again";
+    }
+};
@@ -0,0 +1,128 @@
+import { Card } from "../types";
+
+// Must match MEDIA_CACHE in public/service-worker.js
+export const MEDIA_CACHE_NAME = "bird-media-v1";
+
+export interface StorageUsage {
+    usage: number; // Bytes used by this origin
+    quota: number; // Bytes available to this origin
+}
+
+/**
+ * Whether the Cache Storage API is available (it isn't on plain http or in old browsers).
+ */
+export const isOfflineMediaSupported = (): boolean => typeof window !== "undefined" && "caches" in window;
+
+/**
+ * Normalises a media URL to the pathname form used as cache key.
+ * @param {string} src - A media URL such as "/audio/Blue Jay.mp3".
+ * @returns {string} The encoded pathname, e.g. "/audio/Blue%20Jay.mp3".
+ */
+export const toCacheKey = (src: string): string => new URL(src, window.location.origin).pathname;
+
+// Media from deck bundles is served from object URLs and is always available
+const isLocalMedia = (src: string): boolean => src.startsWith("blob:");
+
+/**
+ * Lists every media URL the card needs offline: its recordings and image.
+ */
+const getCardMediaUrls = (card: Card): string[] => [
+    ...card.recordings.map(recording => recording.src),
+    ...(card.imgSrc ? [card.imgSrc] : []),
+].filter(src => !isLocalMedia(src));
+
+/**
+ * Reads the set of media URLs (cache keys) currently downloaded.
+ * @returns {Promise<Set<string>>} Cached pathnames.
+ */
+export async function getCachedMediaKeys(): Promise<Set<string>> {
+    if (!isOfflineMediaSupported()) return new Set();
+    const cache = await caches.open(MEDIA_CACHE_NAME);
+    const requests = await cache.keys();
+    return new Set(requests.map(request => new URL(request.url).pathname));
+}
+
+/**
+ * Downloads the audio and images of the given cards into the media cache.
+ * Items that fail (e.g. a missing image) are skipped and reported.
+ * @param {Card[]} cards - The cards to make available offline.
+ * @param {(done: number, total: number) => void} onProgress - Progress callback.
+ * @returns {Promise<string[]>} URLs that could not be downloaded.
+ */
+export async function downloadCardsMedia(cards: Card[], onProgress?: (done: number, total: number) => void): Promise<string[]> {
+    const cache = await caches.open(MEDIA_CACHE_NAME);
+    const cachedKeys = await getCachedMediaKeys();
+    const urls = Array.from(new Set(cards.flatMap(getCardMediaUrls))).filter(url => !cachedKeys.has(toCacheKey(url)));
+    const failed: string[] = [];
+    for (let i = 0; i < urls.length; i++) {
+        try {
+            await cache.add(urls[i]);
+        } catch (error) {
+            console.warn(`Could not download ${urls[i]} for offline use:`, error);
+            failed.push(urls[i]);
+        }
+        onProgress?.(i + 1, urls.length);
+    }
+    return failed;
+}
+
+/**
+ * Removes the given cards' media from the offline cache.
+ * @param {Card[]} cards - The cards whose media should be evicted.
+ */
+export async function evictCardsMedia(cards: Card[]): Promise<void> {
+    const cache = await caches.open(MEDIA_CACHE_NAME);
+    await Promise.all(cards.flatMap(getCardMediaUrls).map(url => cache.delete(url)));
+}
+
+/**
+ * Removes all downloaded media.
+ */
+export async function clearMediaCache(): Promise<void> {
+    if (isOfflineMediaSupported()) await caches.delete(MEDIA_CACHE_NAME);
+}
+
+/**
+ * Reports how much storage this origin uses, where the browser supports it.
+ * @returns {Promise<StorageUsage | null>} Usage and quota in bytes, or null.
+ */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+}
+
+/**
+ * Asks the browser not to evict downloaded media under storage pressure.
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+    if (!navigator.storage?.persist) return false;
+    return navigator.storage.persist();
+}
+
+/**
+ * Restricts a card to the recordings that are available offline.
+ * @param {Card} card - The card.
+ * @param {Set<string>} cachedKeys - Cached media pathnames.
+ * @returns {Card | null} The card with only cached recordings, or null if none are cached.
+ */
+export function toOfflineCard(card: Card, cachedKeys: Set<string>): Card | null {
+    const recordings = card.recordings.filter(recording => isLocalMedia(recording.src) || cachedKeys.has(toCacheKey(recording.src)));
+    if (recordings.length === 0) return null;
+    return recordings.length === card.recordings.length ? card : { ...card, recordings };
+}
+
+/**
+ * Formats a byte count for display, e.g. "12.3 MB".
+ */
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ["KB", "MB", "GB"];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,16 @@
+import { LOOP_REGIONS_STORAGE_KEY, loadLoopRegions, makeLoopRegion } from './playbackStore';
+
+afterEach(() => localStorage.clear());
+
+test('loop regions are ordered and too-short ones rejected', () => {
+  expect(makeLoopRegion(7.5, 3)).toEqual({ start: 3, end: 7.5 });
+  expect(makeLoopRegion(3, 3.1)).toBeNull();
+});
+
+test('malformed saved loop regions are skipped', () => {
+  localStorage.setItem(LOOP_REGIONS_STORAGE_KEY, JSON.stringify({
+    'Veery.mp3': { start: 1, end: 4 },
+    'Wood Thrush.mp3': { start: 'a', end: 4 },
+  }));
+  expect(loadLoopRegions()).toEqual({ 'Veery.mp3': { start: 1, end: 4 } });
+});
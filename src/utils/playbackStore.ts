@@ -0,0 +1,100 @@
+import { LoopRegion, PlaybackSettings } from "../types";
+import { profileKey } from "./profileScope";
+
+// Keys for localStorage
+export const LOOP_REGIONS_STORAGE_KEY = "birdFlashcardLoopRegions";
+export const PLAYBACK_SETTINGS_STORAGE_KEY = "birdFlashcardPlayback";
+
+export const PLAYBACK_RATES = [1, 0.75, 0.5];
+export const REPEAT_COUNTS = [1, 2, 3, 5, 0]; // 0 = until paused
+// Shorter loops are almost certainly mis-clicks
+export const MIN_LOOP_SECONDS = 0.2;
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+    rate: 1,
+    repeatCount: 1,
+    normalizeVolume: false,
+};
+
+// Loop regions keyed by recording id
+export type StoredLoopRegions = Record<string, LoopRegion>;
+
+/**
+ * Checks the shape of a stored loop region.
+ */
+export function isValidLoopRegion(value: unknown): value is LoopRegion {
+    if (typeof value !== "object" || value === null) return false;
+    const region = value as Partial<LoopRegion>;
+    return (
+        typeof region.start === "number" && typeof region.end === "number" &&
+        region.start >= 0 && region.end - region.start >= MIN_LOOP_SECONDS
+    );
+}
+
+/**
+ * Builds a loop region from two points in either order.
+ * @param {number} a - One end, in seconds.
+ * @param {number} b - The other end, in seconds.
+ * @returns {LoopRegion | null} The region, or null if it is too short.
+ */
+export function makeLoopRegion(a: number, b: number): LoopRegion | null {
+    const region = { start: Math.max(0, Math.min(a, b)), end: Math.max(a, b) };
+    return isValidLoopRegion(region) ? region : null;
+}
+
+/**
+ * Reads saved loop regions, skipping malformed entries.
+ * @returns {StoredLoopRegions} Regions by recording id.
+ */
+export function loadLoopRegions(): StoredLoopRegions {
+    try {
+        const savedData = localStorage.getItem(profileKey(LOOP_REGIONS_STORAGE_KEY));
+        if (!savedData) return {};
+        const parsed = JSON.parse(savedData);
+        if (typeof parsed !== "object" || parsed === null) return {};
+        return Object.fromEntries(Object.entries(parsed).filter(([, region]) => isValidLoopRegion(region))) as StoredLoopRegions;
+    } catch (storageError) {
+        console.error("Error reading loop regions from localStorage:", storageError);
+        return {};
+    }
+}
+
+/**
+ * Persists loop regions.
+ */
+export function saveLoopRegions(regions: StoredLoopRegions): void {
+    try {
+        localStorage.setItem(profileKey(LOOP_REGIONS_STORAGE_KEY), JSON.stringify(regions));
+    } catch (storageError) {
+        console.error("Error saving loop regions to localStorage:", storageError);
+    }
+}
+
+/**
+ * Reads playback settings, falling back to defaults for invalid values.
+ * @returns {PlaybackSettings} The settings.
+ */
+export function loadPlaybackSettings(): PlaybackSettings {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(profileKey(PLAYBACK_SETTINGS_STORAGE_KEY)) || "{}");
+        return {
+            rate: PLAYBACK_RATES.includes(parsed?.rate) ? parsed.rate : DEFAULT_PLAYBACK_SETTINGS.rate,
+            repeatCount: REPEAT_COUNTS.includes(parsed?.repeatCount) ? parsed.repeatCount : DEFAULT_PLAYBACK_SETTINGS.repeatCount,
+            normalizeVolume: typeof parsed?.normalizeVolume === "boolean" ? parsed.normalizeVolume : DEFAULT_PLAYBACK_SETTINGS.normalizeVolume,
+        };
+    } catch (storageError) {
+        console.error("Error reading playback settings from localStorage:", storageError);
+        return DEFAULT_PLAYBACK_SETTINGS;
+    }
+}
+
+/**
+ * Persists playback settings.
+ */
+export function savePlaybackSettings(settings: PlaybackSettings): void {
+    try {
+        localStorage.setItem(profileKey(PLAYBACK_SETTINGS_STORAGE_KEY), JSON.stringify(settings));
+    } catch (storageError) {
+        console.error("Error saving playback settings to localStorage:", storageError);
+    }
+}
@@ -0,0 +1,48 @@
+// Which learner profile is active, and the localStorage keys it reads and writes.
+// The default profile keeps the original keys, so progress saved before
+// profiles existed simply becomes the default profile's.
+
+export const ACTIVE_PROFILE_STORAGE_KEY = "birdFlashcardActiveProfile";
+export const DEFAULT_PROFILE_ID = "default";
+
+const readActiveProfileId = (): string => {
+    try {
+        return localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY) || DEFAULT_PROFILE_ID;
+    } catch (error) {
+        console.error("Error reading active profile from localStorage:", error);
+        return DEFAULT_PROFILE_ID;
+    }
+};
+
+// Read once per page load, so another tab switching profile can't redirect this tab's writes
+let activeProfileId = readActiveProfileId();
+
+/**
+ * The active profile id (the default profile if none was chosen).
+ */
+export const getActiveProfileId = (): string => activeProfileId;
+
+/**
+ * Switches profile: saves the choice and reloads, so every piece of app state
+ * comes from the new profile's storage.
+ * @param {string} profileId - The profile to switch to.
+ * @param {() => void} reload - Reloads the app.
+ */
+export const switchActiveProfile = (profileId: string, reload: () => void = () => window.location.reload()): void => {
+    try {
+        localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, profileId);
+    } catch (error) {
+        console.error("Error saving active profile to localStorage:", error);
+    }
+    activeProfileId = profileId;
+    reload();
+};
+
+/**
+ * The storage key for a profile's copy of some data, e.g. "birdFlashcardStatus:p-abc".
+ * @param {string} key - The base key.
+ * @param {string} profileId - The profile (the active one by default).
+ * @returns {string} The key to read and write.
+ */
+export const profileKey = (key: string, profileId: string = getActiveProfileId()): string =>
+    profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
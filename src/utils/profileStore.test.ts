@@ -0,0 +1,40 @@
+import { DECKS_STORAGE_KEY, loadStoredDecks, LOCAL_STORAGE_KEY } from './storageUtils';
+import { ACTIVE_PROFILE_STORAGE_KEY, DEFAULT_PROFILE_ID, profileKey, switchActiveProfile } from './profileScope';
+import { copyProfileData, loadProfiles, resetProfileData } from './profileStore';
+
+afterEach(() => localStorage.clear());
+
+test('existing progress belongs to the default profile', () => {
+  localStorage.setItem(LOCAL_STORAGE_KEY, '{}');
+  expect(loadProfiles().map(profile => profile.id)).toEqual([DEFAULT_PROFILE_ID]);
+  expect(profileKey(LOCAL_STORAGE_KEY)).toBe(LOCAL_STORAGE_KEY);
+  expect(profileKey(LOCAL_STORAGE_KEY, 'p1')).toBe(`${LOCAL_STORAGE_KEY}:p1`);
+});
+
+test('another tab switching profile does not change where this tab saves', () => {
+  localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, 'p2');
+  expect(profileKey(LOCAL_STORAGE_KEY)).toBe(LOCAL_STORAGE_KEY);
+});
+
+test('profiles are copied and reset independently', () => {
+  const decks = { decks: [{ id: 'd1', name: 'Owls', cardIds: ['barred-owl'], createdAt: '2024-01-01T00:00:00.000Z' }], activeDeckId: 'd1' };
+  localStorage.setItem(DECKS_STORAGE_KEY, JSON.stringify(decks));
+  copyProfileData(DEFAULT_PROFILE_ID, 'p1');
+  resetProfileData(DEFAULT_PROFILE_ID);
+
+  expect(loadStoredDecks().decks).toEqual([]);
+  const reload = jest.fn();
+  switchActiveProfile('p1', reload);
+  expect(reload).toHaveBeenCalled();
+  expect(localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY)).toBe('p1');
+  expect(loadStoredDecks()).toEqual(decks);
+});
+
+test('a storage error while resetting is logged, not thrown', () => {
+  const removeItem = jest.spyOn(Storage.prototype, 'removeItem').mockImplementation(() => { throw new Error('denied'); });
+  const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+  expect(() => resetProfileData('p1')).not.toThrow();
+  expect(error).toHaveBeenCalled();
+  removeItem.mockRestore();
+  error.mockRestore();
+});
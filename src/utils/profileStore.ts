@@ -0,0 +1,108 @@
+import { Profile } from "../types";
+import { ASSIGNMENT_RESULTS_STORAGE_KEY, ASSIGNMENTS_STORAGE_KEY } from "./assignmentUtils";
+import { CONFUSION_GROUPS_STORAGE_KEY } from "./confusionUtils";
+import { CARD_DIRECTION_STORAGE_KEY } from "./directionUtils";
+import { HISTORY_STORAGE_KEY } from "./historyStore";
+import { KEY_BINDINGS_STORAGE_KEY } from "./keyBindings";
+import { LOOP_REGIONS_STORAGE_KEY, PLAYBACK_SETTINGS_STORAGE_KEY } from "./playbackStore";
+import { DEFAULT_PROFILE_ID, profileKey } from "./profileScope";
+import { SEASONAL_REGION_STORAGE_KEY } from "./seasonalUtils";
+import { DECKS_STORAGE_KEY, LOCAL_STORAGE_KEY } from "./storageUtils";
+import { STUDY_SESSION_STORAGE_KEY } from "./studySession";
+
+// Learner profiles share the device's card sources but keep their own
+// progress, decks and settings.
+export const PROFILES_STORAGE_KEY = "birdFlashcardProfiles";
+
+// Everything kept per profile
+export const PROFILE_STORAGE_KEYS = [
+    LOCAL_STORAGE_KEY,
+    DECKS_STORAGE_KEY,
+    STUDY_SESSION_STORAGE_KEY,
+    HISTORY_STORAGE_KEY,
+    CONFUSION_GROUPS_STORAGE_KEY,
+    LOOP_REGIONS_STORAGE_KEY,
+    PLAYBACK_SETTINGS_STORAGE_KEY,
+    KEY_BINDINGS_STORAGE_KEY,
+    SEASONAL_REGION_STORAGE_KEY,
+    CARD_DIRECTION_STORAGE_KEY,
+    ASSIGNMENTS_STORAGE_KEY,
+    ASSIGNMENT_RESULTS_STORAGE_KEY,
+];
+
+export const DEFAULT_PROFILE: Profile = { id: DEFAULT_PROFILE_ID, name: "Default", createdAt: new Date(0).toISOString() };
+
+const isValidProfile = (value: unknown): value is Profile => {
+    if (typeof value !== "object" || value === null) return false;
+    const profile = value as Partial<Profile>;
+    return typeof profile.id === "string" && !!profile.id && typeof profile.name === "string" && typeof profile.createdAt === "string";
+};
+
+/**
+ * Creates a profile with a fresh id.
+ */
+export const createProfile = (name: string, now: Date = new Date()): Profile => ({
+    id: `profile-${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name: name.trim(),
+    createdAt: now.toISOString(),
+});
+
+/**
+ * Loads the profile list. The default profile is always first, so existing
+ * progress shows up as the default profile on first launch.
+ * @returns {Profile[]} The profiles.
+ */
+export const loadProfiles = (): Profile[] => {
+    try {
+        const savedData = localStorage.getItem(PROFILES_STORAGE_KEY);
+        const parsed: unknown = savedData ? JSON.parse(savedData) : [];
+        const saved = Array.isArray(parsed) ? parsed.filter(isValidProfile) : [];
+        const defaultProfile = saved.find(profile => profile.id === DEFAULT_PROFILE_ID) ?? DEFAULT_PROFILE;
+        return [defaultProfile, ...saved.filter(profile => profile.id !== DEFAULT_PROFILE_ID)];
+    } catch (error) {
+        console.error("Error loading profiles from localStorage:", error);
+        return [DEFAULT_PROFILE];
+    }
+};
+
+/**
+ * Saves the profile list.
+ */
+export const saveProfiles = (profiles: Profile[]): void => {
+    try {
+        localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+    } catch (error) {
+        console.error("Error saving profiles to localStorage:", error);
+    }
+};
+
+/**
+ * Copies everything one profile has saved to another (replacing what it had).
+ * @param {string} fromId - The profile to copy.
+ * @param {string} toId - The profile to copy into.
+ */
+export const copyProfileData = (fromId: string, toId: string): void => {
+    PROFILE_STORAGE_KEYS.forEach(key => {
+        try {
+            const value = localStorage.getItem(profileKey(key, fromId));
+            if (value === null) localStorage.removeItem(profileKey(key, toId));
+            else localStorage.setItem(profileKey(key, toId), value);
+        } catch (error) {
+            console.error(`Error copying ${key} to profile ${toId}:`, error);
+        }
+    });
+};
+
+/**
+ * Deletes everything a profile has saved, leaving it as new.
+ * @param {string} profileId - The profile.
+ */
+export const resetProfileData = (profileId: string): void => {
+    PROFILE_STORAGE_KEYS.forEach(key => {
+        try {
+            localStorage.removeItem(profileKey(key, profileId));
+        } catch (error) {
+            console.error(`Error removing ${key} from profile ${profileId}:`, error);
+        }
+    });
+};
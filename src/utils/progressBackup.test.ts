@@ -0,0 +1,37 @@
+import { applyImportedStatuses, buildBackup, diffImport, parseBackup } from './progressBackup';
+import { createStudyEvent } from './historyStore';
+import { makeCard } from './testCards';
+
+const cards = [makeCard('veery'), makeCard('wood-thrush')];
+
+test('round-trips an exported backup', () => {
+  const starred = cards.map(card => ({ ...card, starred: true }));
+  const history = [createStudyEvent('grade', 'veery', { grade: 'good' })];
+  const parsed = parseBackup(JSON.stringify(buildBackup(starred, [], history)), cards);
+  expect(parsed.rejected).toEqual([]);
+  expect(applyImportedStatuses(cards, parsed.statuses, 'merge').every(card => card.starred)).toBe(true);
+  expect(parsed.history).toEqual(history);
+});
+
+test('reports each rejected entry instead of discarding the file', () => {
+  const file = JSON.stringify({
+    format: 'bird-flashcards-progress',
+    version: 1,
+    statuses: {
+      veery: { learned: true, starred: false },
+      'wood-thrush': { learned: 'yes', starred: false },
+      dodo: { learned: false, starred: false },
+    },
+    decks: [{ name: 'broken' }],
+  });
+  const parsed = parseBackup(file, cards);
+  expect(Object.keys(parsed.statuses)).toEqual(['veery']);
+  expect(parsed.rejected.map(entry => entry.key)).toEqual(['wood-thrush', 'dodo', 'deck #1']);
+});
+
+test('merge leaves unlisted cards alone while replace resets them', () => {
+  const learned = cards.map(card => ({ ...card, learned: true }));
+  const statuses = { veery: { learned: false, starred: true } };
+  expect(diffImport(learned, statuses, 'merge').map(change => change.id)).toEqual(['veery']);
+  expect(diffImport(learned, statuses, 'replace').map(change => change.id)).toEqual(['veery', 'wood-thrush']);
+});
@@ -0,0 +1,214 @@
+import { Card, Deck, StudyEvent } from "../types";
+import { isValidStudyEvent, mergeHistories } from "./historyStore";
+import { isDueToday } from "./scheduler";
+import {
+    isValidDeck,
+    resolveCardStatus,
+    StoredCardStatus,
+    StoredStatuses,
+    toStoredStatuses,
+    validateStoredStatus,
+} from "./storageUtils";
+
+// --- Backup Format ---
+export const BACKUP_FORMAT = "bird-flashcards-progress";
+// Version 2 added the learning history; version 1 files are still accepted
+export const BACKUP_VERSION = 2;
+
+export interface ProgressBackup {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string; // ISO timestamp
+    statuses: StoredStatuses; // Includes each card's schedule and review history
+    decks: Deck[];
+    history?: StudyEvent[]; // Missing in version 1 files
+}
+
+export interface RejectedEntry {
+    key: string; // Card id, deck name, or "file"
+    reason: string;
+}
+
+export interface ParsedBackup {
+    statuses: StoredStatuses; // Valid entries for known cards
+    decks: Deck[];
+    history: StudyEvent[];
+    rejected: RejectedEntry[];
+    exportedAt: string | null;
+}
+
+export type ImportMode = "merge" | "replace";
+
+export interface ProgressChange {
+    id: string;
+    displayName: string;
+    changes: string[]; // Human-readable, e.g. "learned: no → yes"
+}
+
+/**
+ * Builds a versioned backup of all progress.
+ * @param {Card[]} cards - All loaded cards.
+ * @param {Deck[]} decks - The user's decks.
+ * @param {StudyEvent[]} history - The learning history.
+ * @returns {ProgressBackup} The backup object (serialise with JSON.stringify).
+ */
+export function buildBackup(cards: Card[], decks: Deck[], history: StudyEvent[]): ProgressBackup {
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: new Date().toISOString(),
+        statuses: toStoredStatuses(cards),
+        decks,
+        history,
+    };
+}
+
+const csvCell = (value: string | number | boolean): string => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds a one-row-per-card CSV summary of progress (for spreadsheets).
+ * @param {Card[]} cards - All loaded cards.
+ * @returns {string} The CSV text.
+ */
+export function backupToCsv(cards: Card[]): string {
+    const header = ["id", "name", "learned", "starred", "due_today", "interval_days", "ease", "next_due", "reviews", "lapses"];
+    const now = new Date();
+    const rows = cards.map(card => [
+        card.id,
+        card.displayName,
+        card.learned,
+        card.starred,
+        isDueToday(card.schedule, now),
+        card.schedule.interval,
+        card.schedule.ease,
+        card.schedule.due,
+        card.schedule.history.length,
+        card.schedule.lapses,
+    ].map(csvCell).join(","));
+    return [header.join(","), ...rows].join("\n");
+}
+
+/**
+ * Parses and validates a backup file. Instead of failing on the first problem,
+ * every entry is checked and the bad ones are reported individually.
+ * @param {string} text - The file contents.
+ * @param {Card[]} cards - All loaded cards (entries for unknown cards are rejected).
+ * @returns {ParsedBackup} Accepted entries plus the list of rejected ones.
+ */
+export function parseBackup(text: string, cards: Card[]): ParsedBackup {
+    const result: ParsedBackup = { statuses: {}, decks: [], history: [], rejected: [], exportedAt: null };
+
+    let parsed: Partial<ProgressBackup>;
+    try {
+        parsed = JSON.parse(text);
+    } catch (parseError) {
+        result.rejected.push({ key: "file", reason: "not valid JSON" });
+        return result;
+    }
+    if (typeof parsed !== "object" || parsed === null || parsed.format !== BACKUP_FORMAT) {
+        result.rejected.push({ key: "file", reason: "not a Bird Sound Flashcards progress file" });
+        return result;
+    }
+    if (typeof parsed.version !== "number" || parsed.version > BACKUP_VERSION) {
+        result.rejected.push({ key: "file", reason: `unsupported version ${String(parsed.version)} (this app reads up to ${BACKUP_VERSION})` });
+        return result;
+    }
+    if (typeof parsed.statuses !== "object" || parsed.statuses === null) {
+        result.rejected.push({ key: "file", reason: "missing \"statuses\"" });
+        return result;
+    }
+
+    result.exportedAt = typeof parsed.exportedAt === "string" ? parsed.exportedAt : null;
+    const knownIds = new Set(cards.map(card => card.id));
+    Object.entries(parsed.statuses).forEach(([id, value]) => {
+        const problem = knownIds.has(id) ? validateStoredStatus(value) : "no card with this id is loaded";
+        if (problem) {
+            result.rejected.push({ key: id, reason: problem });
+        } else {
+            result.statuses[id] = value as StoredCardStatus;
+        }
+    });
+
+    (Array.isArray(parsed.decks) ? parsed.decks : []).forEach((deck, index) => {
+        if (isValidDeck(deck)) {
+            result.decks.push({ ...deck, cardIds: deck.cardIds.filter(id => knownIds.has(id)) });
+        } else {
+            result.rejected.push({ key: `deck #${index + 1}`, reason: "deck is malformed" });
+        }
+    });
+
+    // History events are many and small, so bad ones are reported as one entry
+    const events: unknown[] = Array.isArray(parsed.history) ? parsed.history : [];
+    result.history = events.filter(isValidStudyEvent).filter(event => knownIds.has(event.cardId));
+    const skippedEvents = events.length - result.history.length;
+    if (skippedEvents > 0) {
+        result.rejected.push({ key: "history", reason: `${skippedEvents} malformed or unknown-card events skipped` });
+    }
+
+    return result;
+}
+
+const yesNo = (value: boolean) => (value ? "yes" : "no");
+
+/**
+ * Lists what importing would change, card by card.
+ * @param {Card[]} cards - The current cards.
+ * @param {StoredStatuses} statuses - Accepted imported statuses.
+ * @param {ImportMode} mode - Merge (only listed cards change) or replace (unlisted cards reset).
+ * @returns {ProgressChange[]} Cards whose progress would change.
+ */
+export function diffImport(cards: Card[], statuses: StoredStatuses, mode: ImportMode): ProgressChange[] {
+    return cards.reduce<ProgressChange[]>((changes, card) => {
+        const imported = statuses[card.id];
+        if (!imported && mode === "merge") return changes;
+        const next = resolveCardStatus(imported);
+        const cardChanges: string[] = [];
+        if (next.learned !== card.learned) cardChanges.push(`learned: ${yesNo(card.learned)} → ${yesNo(next.learned)}`);
+        if (next.starred !== card.starred) cardChanges.push(`starred: ${yesNo(card.starred)} → ${yesNo(next.starred)}`);
+        if (next.schedule.interval !== card.schedule.interval) {
+            cardChanges.push(`interval: ${card.schedule.interval}d → ${next.schedule.interval}d`);
+        }
+        if (next.schedule.history.length !== card.schedule.history.length) {
+            cardChanges.push(`reviews: ${card.schedule.history.length} → ${next.schedule.history.length}`);
+        }
+        if (next.notes !== card.notes) cardChanges.push(next.notes === null ? "notes: back to the default" : "notes edited");
+        if (cardChanges.length > 0) changes.push({ id: card.id, displayName: card.displayName, changes: cardChanges });
+        return changes;
+    }, []);
+}
+
+/**
+ * Applies imported statuses to the cards.
+ * @param {Card[]} cards - The current cards.
+ * @param {StoredStatuses} statuses - Accepted imported statuses.
+ * @param {ImportMode} mode - Merge keeps cards missing from the file; replace resets them.
+ * @returns {Card[]} The updated cards.
+ */
+export function applyImportedStatuses(cards: Card[], statuses: StoredStatuses, mode: ImportMode): Card[] {
+    return cards.map(card => {
+        const imported = statuses[card.id];
+        if (!imported && mode === "merge") return card;
+        return { ...card, ...resolveCardStatus(imported) };
+    });
+}
+
+/**
+ * Combines current and imported decks.
+ * Merge adds imported decks whose id isn't present yet; replace swaps the list.
+ */
+export function applyImportedDecks(decks: Deck[], importedDecks: Deck[], mode: ImportMode): Deck[] {
+    if (mode === "replace") return importedDecks;
+    const existingIds = new Set(decks.map(deck => deck.id));
+    return [...decks, ...importedDecks.filter(deck => !existingIds.has(deck.id))];
+}
+
+/**
+ * Combines current and imported history.
+ * Merge interleaves both (dropping duplicates); replace keeps only the imported events.
+ */
+export function applyImportedHistory(history: StudyEvent[], importedHistory: StudyEvent[], mode: ImportMode): StudyEvent[] {
+    return mode === "replace" ? mergeHistories([], importedHistory) : mergeHistories(history, importedHistory);
+}
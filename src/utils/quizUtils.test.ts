@@ -0,0 +1,34 @@
+import { buildQuizRound, pickQuizChoices, QUIZ_CHOICE_COUNT } from './quizUtils';
+import { createRng } from './random';
+import { makeCard } from './testCards';
+
+const cards = ['veery', 'wood-thrush', 'hermit-thrush', 'ovenbird', 'blue-jay', 'cardinal'].map(id => makeCard(id));
+
+test('choices hold the answer once and never repeat a display name', () => {
+  // Two cards for the same species from different sources share a name
+  const pool = [...cards, makeCard('bundle:veery', { displayName: 'veery' }), makeCard('bundle:ovenbird', { displayName: 'ovenbird' })];
+  for (let seed = 0; seed < 20; seed++) {
+    const choices = pickQuizChoices(cards[0], pool, QUIZ_CHOICE_COUNT, createRng(seed));
+    expect(choices).toHaveLength(QUIZ_CHOICE_COUNT);
+    expect(choices.filter(choice => choice === cards[0])).toHaveLength(1);
+    expect(new Set(choices.map(choice => choice.displayName)).size).toBe(choices.length);
+  }
+});
+
+test('a small pool gives fewer choices, still with the answer', () => {
+  const choices = pickQuizChoices(cards[0], cards.slice(0, 2), 4, createRng(1));
+  expect(choices.map(choice => choice.id).sort()).toEqual(['veery', 'wood-thrush']);
+  expect(pickQuizChoices(cards[0], [], 4)).toEqual([cards[0]]);
+  expect(pickQuizChoices(cards[0], [cards[0]], 4)).toEqual([cards[0]]);
+});
+
+test('a round asks about each card at most once, up to the round size', () => {
+  const round = buildQuizRound(cards, cards, 4);
+  expect(round).toHaveLength(4);
+  expect(new Set(round.map(question => question.card.id)).size).toBe(4);
+  round.forEach(question => {
+    expect(question.choices).toContain(question.card);
+    expect(question.card.recordings).toContain(question.recording);
+  });
+  expect(buildQuizRound(cards.slice(0, 2), cards)).toHaveLength(2);
+});
@@ -0,0 +1,54 @@
+import { Card, Recording } from "../types";
+import { shuffleArray } from "./arrayUtils";
+import { pickRecording } from "./recordingUtils";
+import { Rng } from "./random";
+
+// --- Quiz Configuration ---
+export const QUIZ_ROUND_SIZE = 10; // Questions per round
+export const QUIZ_CHOICE_COUNT = 4; // Answers offered per question (incl. the correct one)
+
+export interface QuizQuestion {
+    card: Card;
+    recording: Recording; // The recording played for this question
+    choices: Card[];
+}
+
+export interface QuizResult {
+    card: Card;
+    chosen: Card;
+    correct: boolean;
+}
+
+/**
+ * Picks the answer choices for a question: the correct card plus distractors
+ * drawn from the pool, never repeating a display name.
+ * @param {Card} answer - The card being asked about.
+ * @param {Card[]} pool - All loaded cards to draw distractors from.
+ * @param {number} count - Total number of choices to return.
+ * @param {Rng} rng - Random source.
+ * @returns {Card[]} The shuffled choices (fewer than `count` if the pool is small).
+ */
+export function pickQuizChoices(answer: Card, pool: Card[], count: number = QUIZ_CHOICE_COUNT, rng: Rng = Math.random): Card[] {
+    const usedNames = new Set([answer.displayName]);
+    const distractors: Card[] = [];
+    for (const candidate of shuffleArray(pool, rng)) {
+        if (distractors.length >= count - 1) break;
+        if (usedNames.has(candidate.displayName)) continue;
+        usedNames.add(candidate.displayName);
+        distractors.push(candidate);
+    }
+    return shuffleArray([answer, ...distractors], rng);
+}
+
+/**
+ * Builds a quiz round from the cards currently being studied.
+ * @param {Card[]} roundCards - Cards to ask about (e.g. the filtered study set).
+ * @param {Card[]} pool - All loaded cards, used for distractors.
+ * @param {number} size - Maximum number of questions.
+ * @returns {QuizQuestion[]} Up to `size` questions.
+ */
+export function buildQuizRound(roundCards: Card[], pool: Card[], size: number = QUIZ_ROUND_SIZE): QuizQuestion[] {
+    return shuffleArray(roundCards)
+        .slice(0, size)
+        .map(card => ({ card, recording: pickRecording(card.recordings), choices: pickQuizChoices(card, pool) }));
+}
@@ -0,0 +1,63 @@
+// Seeded randomness, for anything that has to come out the same way again
+// from the same seed (e.g. replaying a field-conditions session)
+
+// Returns a number in [0, 1), like Math.random
+export type Rng = () => number;
+
+/**
+ * Creates a seeded pseudo-random generator (mulberry32).
+ * @param {number} seed - Any 32-bit integer.
+ * @returns {Rng} A generator that yields the same sequence for the same seed.
+ */
+export function createRng(seed: number): Rng {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Hashes a string to a 32-bit integer (FNV-1a), optionally mixed with a seed.
+ * @param {string} text - The string.
+ * @param {number} seed - Seed to mix in.
+ * @returns {number} An unsigned 32-bit hash.
+ */
+export function hashString(text: string, seed: number = 0): number {
+    let hash = 2166136261 ^ seed;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Picks a fresh seed.
+ */
+export const createSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+/**
+ * Reads a seed typed by the user.
+ * @param {string} text - The input, a whole number.
+ * @returns {number | null} The seed, or null if it isn't one.
+ */
+export const parseSeed = (text: string): number | null => {
+    const trimmed = text.trim();
+    if (!/^\d+$/.test(trimmed)) return null;
+    const seed = Number(trimmed);
+    return seed <= 4294967295 ? seed : null;
+};
+
+/**
+ * A number in [min, max).
+ */
+export const randomBetween = (rng: Rng, min: number, max: number): number => min + rng() * (max - min);
+
+/**
+ * One item of a non-empty list.
+ */
+export const pickOne = <T>(rng: Rng, items: T[]): T => items[Math.floor(rng() * items.length)];
@@ -0,0 +1,21 @@
+import { parseClips } from './recordingUtils';
+
+test('invalid clip ranges are skipped and blank labels dropped', () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const clips = parseClips([
+    { start: 12, end: 17.5, label: 'dawn song' },
+    { start: 30, end: 25 },
+    { start: '3', end: 8 },
+    { start: 40, end: 44, label: ' ' },
+  ], 'Veery.mp3');
+  expect(clips).toEqual([
+    { start: 12, end: 17.5, label: 'dawn song' },
+    { start: 40, end: 44, label: null },
+  ]);
+  expect(warn).toHaveBeenCalledTimes(2);
+  warn.mockRestore();
+});
+
+test('recordings without clips play the whole file', () => {
+  expect(parseClips(undefined, 'Veery.mp3')).toEqual([]);
+});
@@ -0,0 +1,81 @@
+import { Clip, Recording, RecordingType } from "../types";
+import { Rng } from "./random";
+
+export const RECORDING_TYPES: RecordingType[] = ["song", "call", "drumming", "alarm", "juvenile"];
+
+export const RECORDING_TYPE_LABELS: Record<RecordingType, string> = {
+    song: "Song",
+    call: "Call",
+    drumming: "Drumming",
+    alarm: "Alarm call",
+    juvenile: "Juvenile",
+};
+
+/**
+ * Picks the recording to play for a species, avoiding the one played last
+ * time so repeated reviews rotate through songs, calls, etc.
+ * @param {Recording[]} recordings - The species' recordings (non-empty).
+ * @param {string | undefined} previousId - The recording played last time, if any.
+ * @param {Rng} rng - Random source.
+ * @returns {Recording} The recording to play.
+ */
+export function pickRecording(recordings: Recording[], previousId?: string, rng: Rng = Math.random): Recording {
+    const candidates = recordings.length > 1
+        ? recordings.filter(recording => recording.id !== previousId)
+        : recordings;
+    return candidates[Math.floor(rng() * candidates.length)];
+}
+
+/**
+ * Labels each recording by type, numbering duplicates ("Song", "Song 2", "Call").
+ * @param {Recording[]} recordings - The species' recordings.
+ * @returns {Record<string, string>} Label by recording id.
+ */
+export function labelRecordings(recordings: Recording[]): Record<string, string> {
+    const seen: Partial<Record<RecordingType, number>> = {};
+    return recordings.reduce<Record<string, string>>((labels, recording) => {
+        const count = (seen[recording.type] ?? 0) + 1;
+        seen[recording.type] = count;
+        labels[recording.id] = count > 1
+            ? `${RECORDING_TYPE_LABELS[recording.type]} ${count}`
+            : RECORDING_TYPE_LABELS[recording.type];
+        return labels;
+    }, {});
+}
+
+/**
+ * Validates the clip ranges declared for a recording in the mapping file.
+ * Invalid ranges are skipped with a warning so one typo doesn't hide the card.
+ * @param {unknown} clips - The "clips" value from bird_mapping.json.
+ * @param {string} file - The recording's filename (for warnings).
+ * @returns {Clip[]} Valid clips, in file order.
+ */
+export function parseClips(clips: unknown, file: string): Clip[] {
+    if (clips === undefined) return [];
+    if (!Array.isArray(clips)) {
+        console.warn(`Ignoring clips for ${file}: expected an array.`);
+        return [];
+    }
+    return clips.reduce<Clip[]>((valid, clip, index) => {
+        const { start, end, label } = (clip ?? {}) as { start?: unknown; end?: unknown; label?: unknown };
+        if (typeof start !== "number" || typeof end !== "number" || start < 0 || end <= start) {
+            console.warn(`Ignoring clip #${index + 1} for ${file}: needs numeric start >= 0 and end > start.`);
+            return valid;
+        }
+        valid.push({ start, end, label: typeof label === "string" && label.trim() ? label.trim() : null });
+        return valid;
+    }, []);
+}
+
+/**
+ * Picks the clip to play, avoiding the previous one when there is a choice.
+ * @param {Clip[]} clips - The recording's clips.
+ * @param {Clip | null} previous - The clip played last time, if any.
+ * @param {Rng} rng - Random source.
+ * @returns {Clip | null} A clip, or null to play the whole file.
+ */
+export function pickClip(clips: Clip[], previous?: Clip | null, rng: Rng = Math.random): Clip | null {
+    if (clips.length === 0) return null;
+    const candidates = clips.length > 1 ? clips.filter(clip => clip !== previous) : clips;
+    return candidates[Math.floor(rng() * candidates.length)];
+}
@@ -0,0 +1,31 @@
+import { DEFAULT_ROUTE, formatRoute, isNewHistoryEntry, parseRoute } from './routing';
+
+test('study, card and search addresses round-trip', () => {
+  const starred = parseRoute('/study', '?filter=starred&deck=deck-1');
+  expect(starred).toEqual({ ...DEFAULT_ROUTE, filter: 'starred', deckId: 'deck-1' });
+  expect(formatRoute(starred)).toBe('/study?filter=starred&deck=deck-1');
+
+  const card = parseRoute('/card/bundle%3Amy-birds%3Aveery', '');
+  expect(card.cardId).toBe('bundle:my-birds:veery');
+  expect(formatRoute(card)).toBe('/card/bundle%3Amy-birds%3Aveery');
+
+  const search = parseRoute('/all', '?q=thrush&filter=due');
+  expect(search).toEqual({ ...DEFAULT_ROUTE, view: 'viewAll', query: 'thrush' });
+  expect(formatRoute(search)).toBe('/all?q=thrush');
+});
+
+test('unknown paths and values fall back to study, and assignments have no address', () => {
+  expect(parseRoute('/nowhere', '')).toEqual(DEFAULT_ROUTE);
+  expect(parseRoute('/study/', '?filter=bogus').filter).toBe('all');
+  expect(parseRoute('/card/%E0%A4%A', '').cardId).toBeNull();
+  expect(formatRoute({ ...DEFAULT_ROUTE, view: 'assignment' })).toBeNull();
+});
+
+test('only view, filter and deck changes add history entries', () => {
+  const study = { ...DEFAULT_ROUTE, cardId: 'veery' };
+  expect(isNewHistoryEntry(study, { ...study, cardId: 'wood-thrush' })).toBe(false);
+  expect(isNewHistoryEntry(study, { ...study, filter: 'due' })).toBe(true);
+  expect(isNewHistoryEntry(study, { ...DEFAULT_ROUTE, view: 'viewAll' })).toBe(true);
+  const search = { ...DEFAULT_ROUTE, view: 'viewAll' as const };
+  expect(isNewHistoryEntry(search, { ...search, query: 'owl' })).toBe(false);
+});
@@ -0,0 +1,93 @@
+import { FilterMode, ViewMode } from "../types";
+
+// Addresses for the app's views, e.g. "/study?filter=starred&deck=...",
+// "/card/<id>" (study, showing that card) or "/all?q=thrush". The hosting
+// (and the service worker) serve index.html for every path.
+
+// Order the filter pills (and the next/previous filter shortcuts) cycle through
+export const FILTER_MODES: FilterMode[] = ["all", "due", "unlearned", "learned", "starred"];
+
+/** What the address says about the app's state. */
+export interface AppRoute {
+    view: ViewMode;
+    filter: FilterMode; // Study only
+    deckId: string | null; // Study only
+    cardId: string | null; // Study only: the card being shown
+    query: string; // All cards only: the search
+}
+
+export const DEFAULT_ROUTE: AppRoute = { view: "study", filter: "all", deckId: null, cardId: null, query: "" };
+
+// Views with a path of their own; study is "/study" or "/card/<id>", and an
+// opened assignment only lives in its "#assignment=" link
+const VIEW_PATHS: Partial<Record<ViewMode, string>> = {
+    viewAll: "/all",
+    quiz: "/quiz",
+    stats: "/stats",
+    drill: "/drill",
+    dataReport: "/data",
+    classroom: "/classroom",
+    field: "/field",
+};
+
+const CARD_PATH_PREFIX = "/card/";
+
+/**
+ * Reads a route from an address. Unknown paths open study mode.
+ * @param {string} pathname - The path, e.g. window.location.pathname.
+ * @param {string} search - The query string, e.g. window.location.search.
+ * @returns {AppRoute} The route.
+ */
+export function parseRoute(pathname: string, search: string): AppRoute {
+    const params = new URLSearchParams(search);
+    const path = pathname.replace(/\/+$/, "") || "/";
+    if (path.startsWith(CARD_PATH_PREFIX) || path === "/study" || path === "/") {
+        let cardId: string | null = null;
+        if (path.startsWith(CARD_PATH_PREFIX)) {
+            try {
+                cardId = decodeURIComponent(path.slice(CARD_PATH_PREFIX.length)) || null;
+            } catch {
+                cardId = null; // Malformed escape
+            }
+        }
+        const filter = FILTER_MODES.find(mode => mode === params.get("filter")) ?? "all";
+        return { ...DEFAULT_ROUTE, filter, deckId: params.get("deck") || null, cardId };
+    }
+    const view = (Object.keys(VIEW_PATHS) as ViewMode[]).find(mode => VIEW_PATHS[mode] === path);
+    if (!view) return DEFAULT_ROUTE;
+    return { ...DEFAULT_ROUTE, view, query: view === "viewAll" ? params.get("q") ?? "" : "" };
+}
+
+/**
+ * Writes a route as an address. Only the parts that matter for the view are kept.
+ * @param {AppRoute} route - The route.
+ * @returns {string | null} The path and query, or null if the view has no address.
+ */
+export function formatRoute(route: AppRoute): string | null {
+    const params = new URLSearchParams();
+    let path: string | undefined;
+    if (route.view === "study") {
+        path = route.cardId ? `${CARD_PATH_PREFIX}${encodeURIComponent(route.cardId)}` : "/study";
+        if (route.filter !== "all") params.set("filter", route.filter);
+        if (route.deckId) params.set("deck", route.deckId);
+    } else {
+        path = VIEW_PATHS[route.view];
+        if (route.view === "viewAll" && route.query) params.set("q", route.query);
+    }
+    if (!path) return null;
+    const query = params.toString();
+    return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Whether moving between two routes is a new browser history entry. Changing
+ * view, filter or deck is; moving to the next card or typing a search only
+ * updates the current entry, so Back doesn't step through every card.
+ * @param {AppRoute} from - The current route.
+ * @param {AppRoute} to - The new route.
+ * @returns {boolean} True to push a history entry, false to replace it.
+ */
+export function isNewHistoryEntry(from: AppRoute, to: AppRoute): boolean {
+    if (from.view !== to.view) return true;
+    return to.view === "study" && (from.filter !== to.filter || from.deckId !== to.deckId);
+}
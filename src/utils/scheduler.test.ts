@@ -0,0 +1,28 @@
+import { applyGrade, createSchedule, isDueToday, isScheduleLearned, migrateLegacyStatus, LEARNED_INTERVAL_DAYS } from './scheduler';
+
+const now = new Date('2024-05-01T12:00:00Z');
+
+test('new cards graduate through 1 and 3 day intervals on "good"', () => {
+  const first = applyGrade(createSchedule(now), 'good', now);
+  expect(first.interval).toBe(1);
+  const second = applyGrade(first, 'good', now);
+  expect(second.interval).toBe(3);
+  expect(second.history.map(entry => entry.grade)).toEqual(['good', 'good']);
+});
+
+test('"again" resets repetitions, records a lapse and keeps the card due today', () => {
+  const reviewed = applyGrade(applyGrade(createSchedule(now), 'good', now), 'good', now);
+  const lapsed = applyGrade(reviewed, 'again', now);
+  expect(lapsed.repetitions).toBe(0);
+  expect(lapsed.lapses).toBe(1);
+  expect(lapsed.ease).toBeLessThan(reviewed.ease);
+  expect(isDueToday(lapsed, now)).toBe(true);
+});
+
+test('legacy learned flags migrate to a graduated card that is due for review', () => {
+  const migrated = migrateLegacyStatus(true, now);
+  expect(migrated.interval).toBe(LEARNED_INTERVAL_DAYS);
+  expect(isScheduleLearned(migrated)).toBe(true);
+  expect(isDueToday(migrated, now)).toBe(true);
+  expect(isScheduleLearned(migrateLegacyStatus(false, now))).toBe(false);
+});
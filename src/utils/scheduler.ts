@@ -0,0 +1,163 @@
+import { CardSchedule, ReviewGrade } from "../types";
+
+// --- Scheduler Configuration ---
+export const DEFAULT_EASE = 2.5;
+export const MIN_EASE = 1.3;
+// A card counts as "learned" once its review interval reaches this many days
+export const LEARNED_INTERVAL_DAYS = 21;
+// Cards graded "Again" come back after this many minutes (same session)
+export const RELEARN_DELAY_MINUTES = 10;
+// Only the most recent reviews are kept per card to bound localStorage usage
+export const MAX_HISTORY_ENTRIES = 50;
+
+export const REVIEW_GRADES: ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Creates a fresh schedule for a card that has never been reviewed.
+ * @param {Date} now - The current time.
+ * @returns {CardSchedule} A schedule that is due immediately.
+ */
+export function createSchedule(now: Date = new Date()): CardSchedule {
+    return {
+        ease: DEFAULT_EASE,
+        interval: 0,
+        repetitions: 0,
+        lapses: 0,
+        due: now.toISOString(),
+        history: [],
+    };
+}
+
+/**
+ * Builds a schedule from the legacy binary `learned` flag.
+ * Learned cards start as graduated reviews that are due today, so they come
+ * back once for a check instead of disappearing forever.
+ * @param {boolean} learned - The legacy learned flag.
+ * @param {Date} now - The current time.
+ * @returns {CardSchedule} The migrated schedule.
+ */
+export function migrateLegacyStatus(learned: boolean, now: Date = new Date()): CardSchedule {
+    const schedule = createSchedule(now);
+    if (!learned) return schedule;
+    return { ...schedule, interval: LEARNED_INTERVAL_DAYS, repetitions: 3 };
+}
+
+/**
+ * Computes the next interval (in days) for a grade using an SM-2 style rule.
+ * Returns 0 for "again", meaning the card is relearned within minutes.
+ */
+function nextInterval(schedule: CardSchedule, grade: ReviewGrade, ease: number): number {
+    const { interval, repetitions } = schedule;
+    switch (grade) {
+        case "again":
+            return 0;
+        case "hard":
+            return repetitions === 0 ? 1 : Math.max(1, Math.round(interval * 1.2));
+        case "good":
+            if (repetitions === 0) return 1;
+            if (repetitions === 1) return Math.max(3, interval + 1);
+            return Math.max(interval + 1, Math.round(interval * ease));
+        case "easy":
+        default:
+            if (repetitions === 0) return 4;
+            return Math.max(interval + 2, Math.round(interval * ease * 1.3));
+    }
+}
+
+function nextEase(ease: number, grade: ReviewGrade): number {
+    const delta = { again: -0.2, hard: -0.15, good: 0, easy: 0.15 }[grade];
+    return Math.max(MIN_EASE, Math.round((ease + delta) * 100) / 100);
+}
+
+/**
+ * Applies a review grade to a schedule.
+ * @param {CardSchedule} schedule - The card's current schedule.
+ * @param {ReviewGrade} grade - How well the card was recalled.
+ * @param {Date} now - The time of the review.
+ * @returns {CardSchedule} A new schedule with the review appended to its history.
+ */
+export function applyGrade(schedule: CardSchedule, grade: ReviewGrade, now: Date = new Date()): CardSchedule {
+    const ease = nextEase(schedule.ease, grade);
+    const interval = nextInterval(schedule, grade, ease);
+    const due = interval === 0
+        ? new Date(now.getTime() + RELEARN_DELAY_MINUTES * MINUTE_MS)
+        : new Date(now.getTime() + interval * DAY_MS);
+
+    const history = [
+        ...schedule.history,
+        { reviewedAt: now.toISOString(), grade, interval, ease },
+    ].slice(-MAX_HISTORY_ENTRIES);
+
+    return {
+        ease,
+        interval,
+        repetitions: grade === "again" ? 0 : schedule.repetitions + 1,
+        lapses: grade === "again" && schedule.repetitions > 0 ? schedule.lapses + 1 : schedule.lapses,
+        due: due.toISOString(),
+        history,
+    };
+}
+
+/**
+ * Manually marks a schedule as learned (graduated) or resets it for relearning.
+ * Used by the learned toggle so it stays consistent with the scheduler.
+ */
+export function setLearned(schedule: CardSchedule, learned: boolean, now: Date = new Date()): CardSchedule {
+    if (learned) {
+        const interval = Math.max(schedule.interval, LEARNED_INTERVAL_DAYS);
+        return {
+            ...schedule,
+            interval,
+            repetitions: Math.max(schedule.repetitions, 3),
+            due: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+        };
+    }
+    return { ...schedule, interval: 0, repetitions: 0, due: now.toISOString() };
+}
+
+/**
+ * Whether a schedule is considered learned.
+ */
+export function isScheduleLearned(schedule: CardSchedule): boolean {
+    return schedule.interval >= LEARNED_INTERVAL_DAYS;
+}
+
+/**
+ * Whether a card is due for review at any point today.
+ */
+export function isDueToday(schedule: CardSchedule, now: Date = new Date()): boolean {
+    const endOfToday = new Date(now);
+    endOfToday.setHours(23, 59, 59, 999);
+    return new Date(schedule.due).getTime() <= endOfToday.getTime();
+}
+
+/**
+ * Formats the interval a grade would produce, e.g. "10m", "3d", "2mo".
+ */
+export function formatNextInterval(schedule: CardSchedule, grade: ReviewGrade): string {
+    const interval = nextInterval(schedule, grade, nextEase(schedule.ease, grade));
+    if (interval === 0) return `${RELEARN_DELAY_MINUTES}m`;
+    if (interval < 30) return `${interval}d`;
+    if (interval < 365) return `${Math.round(interval / 30)}mo`;
+    return `${Math.round((interval / 365) * 10) / 10}y`;
+}
+
+/**
+ * Runtime check used when reading schedules back from storage.
+ */
+export function isValidSchedule(value: unknown): value is CardSchedule {
+    if (typeof value !== "object" || value === null) return false;
+    const schedule = value as Partial<CardSchedule>;
+    return (
+        typeof schedule.ease === "number" &&
+        typeof schedule.interval === "number" &&
+        typeof schedule.repetitions === "number" &&
+        typeof schedule.lapses === "number" &&
+        typeof schedule.due === "string" &&
+        !Number.isNaN(Date.parse(schedule.due)) &&
+        Array.isArray(schedule.history)
+    );
+}
@@ -0,0 +1,31 @@
+import { Card } from '../types';
+import { buildSeasonalQueue, getPresenceMonths, getUnfamiliarityWeight } from './seasonalUtils';
+import { makeCard as makeTestCard } from './testCards';
+
+const makeCard = (id: string, overrides: Partial<Card> = {}) =>
+  makeTestCard(id, { regions: ['northeast', 'southeast'], season: 'summer', recordings: [], ...overrides });
+
+test('presence comes from the mapping, else from the season, and is empty outside the range', () => {
+  const thrush = makeCard('hermit-thrush', { presence: { southeast: [1, 2, 3, 11, 12] } });
+  expect(getPresenceMonths(thrush, 'southeast')).toEqual([1, 2, 3, 11, 12]);
+  expect(getPresenceMonths(thrush, 'northeast')).toEqual([4, 5, 6, 7, 8, 9]);
+  expect(getPresenceMonths(thrush, 'midwest')).toEqual([]);
+});
+
+test('the seasonal queue keeps birds present this month and is stable for a seed', () => {
+  const cards = [
+    makeCard('veery', { presence: { northeast: [5, 6, 7, 8] } }),
+    makeCard('crow', { season: 'year-round' }),
+    makeCard('junco', { season: 'winter' }),
+  ];
+  const june = new Date(2024, 5, 15);
+  const queue = buildSeasonalQueue(cards, 'northeast', june, 42);
+  expect(queue.map(card => card.id).sort()).toEqual(['crow', 'veery']);
+  expect(buildSeasonalQueue(cards, 'northeast', june, 42)).toEqual(queue);
+});
+
+test('unfamiliar cards weigh more', () => {
+  const fresh = makeCard('fresh');
+  const learned = makeCard('learned', { learned: true, schedule: { ...fresh.schedule, history: [{ reviewedAt: '2024-01-01T00:00:00Z', grade: 'good', interval: 30, ease: 2.5 }] } });
+  expect(getUnfamiliarityWeight(fresh)).toBeGreaterThan(getUnfamiliarityWeight(learned));
+});
@@ -0,0 +1,115 @@
+import { Card, Region, SeasonalStatus } from "../types";
+import { REGION_LABELS } from "./facetUtils";
+import { profileKey } from "./profileScope";
+import { hashString } from "./random";
+
+// "What's singing now": the birds of a region that are around this month,
+// most unfamiliar first (with some randomness so the queue isn't fixed).
+
+export interface SeasonalPreset {
+    region: Region;
+    seed: number; // Fixes the queue's random order
+}
+
+export const SEASONAL_REGION_STORAGE_KEY = "birdFlashcardSeasonalRegion";
+
+export const MONTH_NAMES = [
+    "January", "February", "March", "April", "May", "June",
+    "July", "August", "September", "October", "November", "December",
+];
+
+// Usual months for species whose mapping entry has no presence for a region
+export const SEASON_MONTHS: Record<SeasonalStatus, number[]> = {
+    "year-round": [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+    summer: [4, 5, 6, 7, 8, 9],
+    winter: [11, 12, 1, 2, 3],
+    migrant: [4, 5, 9, 10],
+};
+
+// Relative chance of coming up early in the queue
+export const UNFAMILIARITY_WEIGHTS = {
+    new: 4, // Never reviewed
+    learning: 2, // Reviewed but not learned yet (plus LAPSE_WEIGHT per lapse)
+    learned: 1,
+};
+const LAPSE_WEIGHT = 0.5;
+
+/**
+ * The months a card's species is around in a region (empty outside its range).
+ * @param {Card} card - The card.
+ * @param {Region} region - The region.
+ * @returns {number[]} Months, 1-12.
+ */
+export function getPresenceMonths(card: Card, region: Region): number[] {
+    if (!card.regions.includes(region)) return [];
+    return card.presence[region] ?? (card.season ? SEASON_MONTHS[card.season] : SEASON_MONTHS["year-round"]);
+}
+
+/**
+ * Whether a card's species is likely to be heard in a region on a date.
+ */
+export const isPresentOn = (card: Card, region: Region, date: Date): boolean =>
+    getPresenceMonths(card, region).includes(date.getMonth() + 1);
+
+/**
+ * How unfamiliar a card is: new cards weigh most, then cards still being
+ * learned (more so the more often they were forgotten), then learned ones.
+ * @param {Card} card - The card.
+ * @returns {number} A positive weight.
+ */
+export function getUnfamiliarityWeight(card: Card): number {
+    if (card.schedule.history.length === 0) return UNFAMILIARITY_WEIGHTS.new;
+    if (card.learned) return UNFAMILIARITY_WEIGHTS.learned;
+    return Math.min(UNFAMILIARITY_WEIGHTS.learning + card.schedule.lapses * LAPSE_WEIGHT, UNFAMILIARITY_WEIGHTS.new);
+}
+
+/**
+ * A stable pseudo-random number in [0, 1) for a seed and a card id, so the
+ * queue keeps its order while the seed stays the same.
+ */
+function seededUnit(seed: number, id: string): number {
+    return (hashString(id, seed) + 0.5) / 4294967296;
+}
+
+/**
+ * Builds the "what's singing now" queue: the cards present in the region
+ * this month, in a weighted random order where unfamiliar cards tend to come
+ * first (weighted sampling without replacement).
+ * @param {Card[]} cards - The cards to pick from.
+ * @param {Region} region - The chosen region.
+ * @param {Date} date - Usually today.
+ * @param {number} seed - Fixes the random order; pick a new one to reshuffle.
+ * @returns {Card[]} The queue.
+ */
+export function buildSeasonalQueue(cards: Card[], region: Region, date: Date, seed: number): Card[] {
+    return cards
+        .filter(card => isPresentOn(card, region, date))
+        .map(card => ({ card, key: Math.pow(seededUnit(seed, card.id), 1 / getUnfamiliarityWeight(card)) }))
+        .sort((a, b) => b.key - a.key)
+        .map(({ card }) => card);
+}
+
+/**
+ * Loads the region last used for the preset.
+ * @returns {Region | null} The region, or null if none was saved.
+ */
+export const loadSeasonalRegion = (): Region | null => {
+    try {
+        const saved = localStorage.getItem(profileKey(SEASONAL_REGION_STORAGE_KEY));
+        return saved && saved in REGION_LABELS ? (saved as Region) : null;
+    } catch (error) {
+        console.error("Error loading seasonal region from localStorage:", error);
+        return null;
+    }
+};
+
+/**
+ * Saves the region used for the preset.
+ */
+export const saveSeasonalRegion = (region: Region): void => {
+    try {
+        localStorage.setItem(profileKey(SEASONAL_REGION_STORAGE_KEY), region);
+    } catch (error) {
+        console.error("Error saving seasonal region to localStorage:", error);
+    }
+};
@@ -0,0 +1,77 @@
+import { computeLevels, getAudioContext, loadAudioBuffer, normalizationGain, TARGET_RMS } from "./audioAnalysis";
+import { generateNoise, MAX_SOUNDSCAPE_SECONDS, SoundscapeQuestion } from "./soundscapeUtils";
+
+// Plays a field-conditions question through Web Audio: the bird and the
+// second species are each normalised, then mixed with the generated noise.
+
+export interface SoundscapePlayback {
+    stop: () => void;
+}
+
+/**
+ * Starts playing a question's mix.
+ * @param {SoundscapeQuestion} question - The question.
+ * @param {() => void} onEnded - Called when the bird's recording has finished.
+ * @returns {Promise<SoundscapePlayback>} Resolves once playback has started.
+ */
+export async function playSoundscape(question: SoundscapeQuestion, onEnded: () => void): Promise<SoundscapePlayback> {
+    const context = getAudioContext();
+    if (context.state === "suspended") await context.resume();
+    const { mix } = question;
+    const [target, distractor] = await Promise.all([
+        loadAudioBuffer(question.recording.src),
+        mix.distractor ? loadAudioBuffer(mix.distractor.recording.src) : Promise.resolve(null),
+    ]);
+
+    const offset = question.clip ? Math.min(question.clip.start, target.duration) : 0;
+    const duration = question.clip
+        ? Math.max(0, Math.min(question.clip.end, target.duration) - offset)
+        : Math.min(target.duration, MAX_SOUNDSCAPE_SECONDS);
+    const startAt = context.currentTime + 0.05;
+    const output = context.createGain();
+    output.connect(context.destination);
+    const sources: AudioBufferSourceNode[] = [];
+
+    const addSource = (buffer: AudioBuffer, gain: number, when: number, from: number, length: number) => {
+        const source = context.createBufferSource();
+        const gainNode = context.createGain();
+        source.buffer = buffer;
+        gainNode.gain.value = gain;
+        source.connect(gainNode);
+        gainNode.connect(output);
+        source.start(when, from, length);
+        sources.push(source);
+        return source;
+    };
+
+    // Noise runs for as long as the bird does, at a level relative to the normalised bird
+    const noise = context.createBuffer(1, Math.max(1, Math.ceil(duration * context.sampleRate)), context.sampleRate);
+    noise.copyToChannel(generateNoise(mix.noiseKind, noise.length, context.sampleRate, mix.noiseSeed), 0);
+    addSource(noise, TARGET_RMS * mix.noiseLevel, startAt, 0, duration);
+
+    if (distractor && mix.distractor && mix.distractor.delay < duration) {
+        const length = Math.min(distractor.duration, duration - mix.distractor.delay);
+        addSource(distractor, normalizationGain(computeLevels(distractor)) * mix.distractor.level, startAt + mix.distractor.delay, 0, length);
+    }
+
+    const bird = addSource(target, normalizationGain(computeLevels(target)), startAt, offset, duration);
+    let stopped = false;
+    const stop = () => {
+        if (stopped) return;
+        stopped = true;
+        sources.forEach(source => {
+            source.onended = null;
+            try {
+                source.stop();
+            } catch (err) {
+                // Already finished
+            }
+        });
+        output.disconnect();
+    };
+    bird.onended = () => {
+        stop();
+        onEnded();
+    };
+    return { stop };
+}
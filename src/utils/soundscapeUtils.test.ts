@@ -0,0 +1,39 @@
+import { buildSoundscapeRound, generateNoise, NOISE_KINDS } from './soundscapeUtils';
+import { makeCard as makeTestCard, makeRecording } from './testCards';
+
+const makeCard = (id: string) => makeTestCard(id, { recordings: [1, 2].map(n => makeRecording(`${id}-${n}.mp3`)) });
+
+const cards = ['veery', 'wood-thrush', 'hermit-thrush', 'ovenbird', 'blue-jay', 'cardinal'].map(makeCard);
+
+// Everything a question is made of, by id
+const summarise = (round: ReturnType<typeof buildSoundscapeRound>) => round.map(question => ({
+  card: question.card.id,
+  recording: question.recording.id,
+  choices: question.choices.map(choice => choice.id),
+  ...question.mix,
+  distractor: question.mix.distractor && { ...question.mix.distractor, card: question.mix.distractor.card.id, recording: question.mix.distractor.recording.id },
+}));
+
+test('the same seed replays the same session, whatever order the cards are in', () => {
+  const round = summarise(buildSoundscapeRound(cards, cards, 'medium', 1234));
+  expect(summarise(buildSoundscapeRound([...cards].reverse(), cards, 'medium', 1234))).toEqual(round);
+  expect(summarise(buildSoundscapeRound(cards, cards, 'medium', 1235))).not.toEqual(round);
+  expect(round).toHaveLength(cards.length);
+});
+
+test('harder levels add more noise and a second bird', () => {
+  const easy = buildSoundscapeRound(cards, cards, 'easy', 7);
+  const hard = buildSoundscapeRound(cards, cards, 'hard', 7);
+  expect(easy.every(question => question.mix.distractor === null)).toBe(true);
+  expect(hard.every(question => question.mix.distractor !== null && question.mix.distractor.card.id !== question.card.id)).toBe(true);
+  expect(Math.max(...easy.map(question => question.mix.noiseLevel))).toBeLessThan(Math.min(...hard.map(question => question.mix.noiseLevel)));
+});
+
+test('generated noise is reproducible and scaled to unit loudness', () => {
+  NOISE_KINDS.forEach(kind => {
+    const noise = generateNoise(kind, 8000, 8000, 42);
+    expect(generateNoise(kind, 8000, 8000, 42)).toEqual(noise);
+    const rms = Math.sqrt(noise.reduce((sum, sample) => sum + sample * sample, 0) / noise.length);
+    expect(rms).toBeCloseTo(1, 3);
+  });
+});
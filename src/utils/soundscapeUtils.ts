@@ -0,0 +1,185 @@
+import { Card, Clip, NoiseKind, Recording, SoundscapeDifficulty } from "../types";
+import { shuffleArray } from "./arrayUtils";
+import { pickQuizChoices, QUIZ_CHOICE_COUNT } from "./quizUtils";
+import { createRng, pickOne, randomBetween, Rng } from "./random";
+import { pickClip, pickRecording } from "./recordingUtils";
+
+// Field conditions: each question mixes the bird with background noise made
+// on the fly and, on harder levels, a second species calling more quietly.
+// Everything about a round follows from its seed, so a session can be replayed.
+
+export const SOUNDSCAPE_ROUND_SIZE = 10;
+// Recordings without clips are cut to this many seconds
+export const MAX_SOUNDSCAPE_SECONDS = 20;
+
+export const SOUNDSCAPE_DIFFICULTIES: SoundscapeDifficulty[] = ["easy", "medium", "hard"];
+
+export const DIFFICULTY_LABELS: Record<SoundscapeDifficulty, string> = {
+    easy: "Easy",
+    medium: "Medium",
+    hard: "Hard",
+};
+
+export const NOISE_KINDS: NoiseKind[] = ["wind", "traffic", "rain"];
+
+export const NOISE_LABELS: Record<NoiseKind, string> = {
+    wind: "Wind",
+    traffic: "Traffic",
+    rain: "Rain",
+};
+
+interface DifficultySettings {
+    noiseLevel: [number, number]; // Range of the noise's loudness relative to the bird's
+    distractorChance: number; // Chance that a second species calls too
+    distractorLevel: [number, number]; // Range of its loudness relative to the bird's
+}
+
+export const DIFFICULTY_SETTINGS: Record<SoundscapeDifficulty, DifficultySettings> = {
+    easy: { noiseLevel: [0.15, 0.3], distractorChance: 0, distractorLevel: [0, 0] },
+    medium: { noiseLevel: [0.3, 0.55], distractorChance: 0.5, distractorLevel: [0.3, 0.45] },
+    hard: { noiseLevel: [0.55, 0.85], distractorChance: 1, distractorLevel: [0.45, 0.7] },
+};
+
+// The second species in a mix
+export interface SoundscapeDistractor {
+    card: Card;
+    recording: Recording;
+    level: number; // Loudness relative to the bird's
+    delay: number; // Seconds after the bird starts
+}
+
+// How one question is mixed
+export interface SoundscapeMix {
+    noiseKind: NoiseKind;
+    noiseLevel: number; // Loudness relative to the bird's
+    noiseSeed: number; // Seeds the generated noise
+    distractor: SoundscapeDistractor | null;
+}
+
+export interface SoundscapeQuestion {
+    card: Card;
+    recording: Recording;
+    clip: Clip | null; // Excerpt to play, or null for the start of the file
+    choices: Card[];
+    mix: SoundscapeMix;
+}
+
+/**
+ * Decides how a question is mixed.
+ * @param {Card} card - The bird being asked about.
+ * @param {Card[]} pool - Cards the second species may come from.
+ * @param {SoundscapeDifficulty} difficulty - The difficulty level.
+ * @param {Rng} rng - The round's random source.
+ * @returns {SoundscapeMix} The mix.
+ */
+export function planSoundscapeMix(card: Card, pool: Card[], difficulty: SoundscapeDifficulty, rng: Rng): SoundscapeMix {
+    const settings = DIFFICULTY_SETTINGS[difficulty];
+    const noiseKind = pickOne(rng, NOISE_KINDS);
+    const noiseLevel = randomBetween(rng, ...settings.noiseLevel);
+    const noiseSeed = Math.floor(rng() * 4294967296);
+    const others = pool.filter(other => other.id !== card.id && other.displayName !== card.displayName);
+    if (others.length === 0 || rng() >= settings.distractorChance) {
+        return { noiseKind, noiseLevel, noiseSeed, distractor: null };
+    }
+    const other = pickOne(rng, others);
+    return {
+        noiseKind,
+        noiseLevel,
+        noiseSeed,
+        distractor: {
+            card: other,
+            recording: pickRecording(other.recordings, undefined, rng),
+            level: randomBetween(rng, ...settings.distractorLevel),
+            delay: randomBetween(rng, 0, 3),
+        },
+    };
+}
+
+/**
+ * Builds a field-conditions round. The same cards, difficulty and seed always
+ * give the same questions, choices and mixes.
+ * @param {Card[]} roundCards - Cards to ask about.
+ * @param {Card[]} pool - All loaded cards, for answer choices and second species.
+ * @param {SoundscapeDifficulty} difficulty - The difficulty level.
+ * @param {number} seed - The round's seed.
+ * @param {number} size - Maximum number of questions.
+ * @returns {SoundscapeQuestion[]} Up to `size` questions.
+ */
+export function buildSoundscapeRound(
+    roundCards: Card[],
+    pool: Card[],
+    difficulty: SoundscapeDifficulty,
+    seed: number,
+    size: number = SOUNDSCAPE_ROUND_SIZE
+): SoundscapeQuestion[] {
+    const rng = createRng(seed);
+    // Sort first so the round doesn't depend on the order the cards happen to be in
+    const byId = [...roundCards].sort((a, b) => a.id.localeCompare(b.id));
+    const sortedPool = [...pool].sort((a, b) => a.id.localeCompare(b.id));
+    return shuffleArray(byId, rng).slice(0, size).map(card => {
+        const recording = pickRecording(card.recordings, undefined, rng);
+        return {
+            card,
+            recording,
+            clip: pickClip(recording.clips, null, rng),
+            choices: pickQuizChoices(card, sortedPool, QUIZ_CHOICE_COUNT, rng),
+            mix: planSoundscapeMix(card, sortedPool, difficulty, rng),
+        };
+    });
+}
+
+/**
+ * Generates background noise, scaled to an RMS level of 1.
+ * Wind is gusty rumble, traffic is low rumble with passing cars, rain is hiss with drops.
+ * @param {NoiseKind} kind - The kind of noise.
+ * @param {number} length - Number of samples.
+ * @param {number} sampleRate - Samples per second.
+ * @param {number} seed - Seeds the noise, so a mix sounds the same when replayed.
+ * @returns {Float32Array} The samples.
+ */
+export function generateNoise(kind: NoiseKind, length: number, sampleRate: number, seed: number): Float32Array {
+    const rng = createRng(seed);
+    const samples = new Float32Array(length);
+    const white = () => rng() * 2 - 1;
+    let low = 0;
+    let previous = 0;
+    let drop = 0;
+    const gustPeriod = randomBetween(rng, 4, 8) * sampleRate;
+    const gustPhase = rng() * 2 * Math.PI;
+    const cars = Array.from({ length: Math.ceil(length / (sampleRate * 4)) }, () => rng() * length);
+    const carWidth = 1.5 * sampleRate;
+
+    for (let i = 0; i < length; i++) {
+        const noise = white();
+        switch (kind) {
+            case "wind": {
+                low = (low + 0.02 * noise) / 1.02;
+                const gust = 0.5 + 0.5 * Math.sin((2 * Math.PI * i) / gustPeriod + gustPhase);
+                samples[i] = low * (0.35 + 0.65 * gust * gust);
+                break;
+            }
+            case "traffic": {
+                low = 0.995 * low + 0.005 * noise;
+                const passing = cars.reduce((sum, at) => sum + Math.exp(-(((i - at) / carWidth) ** 2)), 0);
+                samples[i] = low * (0.4 + passing);
+                break;
+            }
+            case "rain":
+            default: {
+                if (rng() < 40 / sampleRate) drop = white();
+                drop *= 0.95;
+                samples[i] = 0.5 * (noise - previous) + drop;
+                previous = noise;
+                break;
+            }
+        }
+    }
+
+    let sumOfSquares = 0;
+    for (let i = 0; i < length; i++) sumOfSquares += samples[i] * samples[i];
+    const rms = length > 0 ? Math.sqrt(sumOfSquares / length) : 0;
+    if (rms > 0) {
+        for (let i = 0; i < length; i++) samples[i] /= rms;
+    }
+    return samples;
+}
@@ -0,0 +1,27 @@
+import { StudyEvent } from '../types';
+import { getDailyActivity, getMostConfused, getStudyStreak } from './statsUtils';
+
+const at = (day: number, hour: number, minute: number = 0) => new Date(2024, 4, day, hour, minute).toISOString();
+const now = new Date(2024, 4, 10, 18);
+
+test('streaks count consecutive study days and survive until the next day ends', () => {
+  const history: StudyEvent[] = [1, 2, 3, 8, 9].map(day => ({ at: at(day, 9), type: 'flip', cardId: 'veery' }));
+  expect(getStudyStreak(history, now)).toEqual({ current: 2, longest: 3 });
+});
+
+test('daily activity ignores idle gaps when adding up study time', () => {
+  const history: StudyEvent[] = [
+    { at: at(10, 9, 0), type: 'grade', cardId: 'veery', grade: 'good' },
+    { at: at(10, 9, 2), type: 'grade', cardId: 'wood-thrush', grade: 'again' },
+    { at: at(10, 11, 0), type: 'flip', cardId: 'veery' },
+  ];
+  const [today] = getDailyActivity(history, 1, now);
+  expect(today).toMatchObject({ cardsStudied: 2, answers: 2, correct: 1, timeSpentMs: 2 * 60 * 1000 });
+});
+
+test('quiz mix-ups are counted per pair of species', () => {
+  const wrong: StudyEvent = { at: at(10, 9), type: 'quizAnswer', cardId: 'veery', correct: false, chosenId: 'wood-thrush' };
+  expect(getMostConfused([wrong, wrong, { ...wrong, correct: true, chosenId: undefined }])).toEqual([
+    { cardId: 'veery', confusedWithId: 'wood-thrush', count: 2 },
+  ]);
+});
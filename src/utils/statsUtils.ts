@@ -0,0 +1,161 @@
+import { StudyEvent } from "../types";
+import { isChoiceAnswer } from "./historyStore";
+
+// Gaps longer than this between actions count as a break, not study time
+export const IDLE_GAP_MS = 5 * 60 * 1000;
+
+export interface DailyActivity {
+    date: string; // Local date, YYYY-MM-DD
+    cardsStudied: number; // Distinct species touched
+    answers: number; // Grades and quiz answers
+    correct: number; // Answers graded better than "again", or correct quiz answers
+    timeSpentMs: number;
+}
+
+export interface StudyStreak {
+    current: number; // Consecutive days up to today (or yesterday)
+    longest: number;
+}
+
+export interface ConfusedPair {
+    cardId: string; // The species that was playing
+    confusedWithId: string; // The species the learner picked
+    count: number;
+}
+
+/**
+ * Formats a date as a local-time YYYY-MM-DD key.
+ */
+export const toDayKey = (date: Date): string => {
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Whether an event is an answer, and whether it was right.
+ */
+const answerOutcome = (event: StudyEvent): boolean | null => {
+    if (event.type === "grade") return event.grade !== "again";
+    if (isChoiceAnswer(event)) return event.correct === true;
+    return null;
+};
+
+/**
+ * Summarises activity per day for the last `days` days (oldest first, including empty days).
+ * Study time is the sum of gaps between consecutive actions, ignoring idle gaps.
+ * @param {StudyEvent[]} history - Events, oldest first.
+ * @param {number} days - How many days to include, ending today.
+ * @param {Date} now - The current time.
+ * @returns {DailyActivity[]} One entry per day.
+ */
+export function getDailyActivity(history: StudyEvent[], days: number, now: Date = new Date()): DailyActivity[] {
+    const byDay = new Map<string, DailyActivity & { cardIds: Set<string> }>();
+    for (let offset = days - 1; offset >= 0; offset--) {
+        const day = new Date(now);
+        day.setDate(day.getDate() - offset);
+        const date = toDayKey(day);
+        byDay.set(date, { date, cardsStudied: 0, answers: 0, correct: 0, timeSpentMs: 0, cardIds: new Set() });
+    }
+
+    let previousTime: number | null = null;
+    history.forEach(event => {
+        const time = Date.parse(event.at);
+        const entry = byDay.get(toDayKey(new Date(time)));
+        if (entry) {
+            entry.cardIds.add(event.cardId);
+            const outcome = answerOutcome(event);
+            if (outcome !== null) {
+                entry.answers++;
+                if (outcome) entry.correct++;
+            }
+            if (previousTime !== null && time - previousTime <= IDLE_GAP_MS) entry.timeSpentMs += time - previousTime;
+        }
+        previousTime = time;
+    });
+
+    return Array.from(byDay.values()).map(({ cardIds, ...entry }) => ({ ...entry, cardsStudied: cardIds.size }));
+}
+
+/**
+ * Counts consecutive days with any study activity. The current streak still
+ * counts if the learner hasn't studied yet today but did yesterday.
+ * @param {StudyEvent[]} history - Events.
+ * @param {Date} now - The current time.
+ * @returns {StudyStreak} Current and longest streaks in days.
+ */
+export function getStudyStreak(history: StudyEvent[], now: Date = new Date()): StudyStreak {
+    const activeDays = new Set(history.map(event => toDayKey(new Date(event.at))));
+    const dayBefore = (date: Date) => {
+        const previous = new Date(date);
+        previous.setDate(previous.getDate() - 1);
+        return previous;
+    };
+
+    let longest = 0;
+    activeDays.forEach(dayKey => {
+        const [year, month, day] = dayKey.split("-").map(Number);
+        const date = new Date(year, month - 1, day);
+        // Only count from the first day of each run
+        if (activeDays.has(toDayKey(dayBefore(date)))) return;
+        let length = 0;
+        while (activeDays.has(toDayKey(date))) {
+            length++;
+            date.setDate(date.getDate() + 1);
+        }
+        longest = Math.max(longest, length);
+    });
+
+    let current = 0;
+    let date = activeDays.has(toDayKey(now)) ? new Date(now) : dayBefore(now);
+    while (activeDays.has(toDayKey(date))) {
+        current++;
+        date = dayBefore(date);
+    }
+    return { current, longest };
+}
+
+/**
+ * Finds the species most often mistaken for each other in quizzes and drills.
+ * @param {StudyEvent[]} history - Events.
+ * @param {number} limit - Maximum number of pairs.
+ * @returns {ConfusedPair[]} Pairs, most frequent first.
+ */
+export function getMostConfused(history: StudyEvent[], limit: number = 5): ConfusedPair[] {
+    const counts = new Map<string, ConfusedPair>();
+    history.forEach(event => {
+        if (!isChoiceAnswer(event) || event.correct || !event.chosenId) return;
+        const key = `${event.cardId}|${event.chosenId}`;
+        const pair = counts.get(key) ?? { cardId: event.cardId, confusedWithId: event.chosenId, count: 0 };
+        pair.count++;
+        counts.set(key, pair);
+    });
+    return Array.from(counts.values()).sort((a, b) => b.count - a.count).slice(0, limit);
+}
+
+/**
+ * Counts misses ("again" grades and wrong quiz answers) per species.
+ * @param {StudyEvent[]} history - Events.
+ * @param {number} limit - Maximum number of species.
+ * @returns {{ cardId: string; misses: number }[]} Species, most missed first.
+ */
+export function getMostMissed(history: StudyEvent[], limit: number = 5): { cardId: string; misses: number }[] {
+    const misses = new Map<string, number>();
+    history.forEach(event => {
+        if (answerOutcome(event) === false) misses.set(event.cardId, (misses.get(event.cardId) ?? 0) + 1);
+    });
+    return Array.from(misses.entries())
+        .map(([cardId, count]) => ({ cardId, misses: count }))
+        .sort((a, b) => b.misses - a.misses)
+        .slice(0, limit);
+}
+
+/**
+ * Formats a duration for display, e.g. "1h 05m", "12m", "<1m".
+ */
+export function formatDuration(ms: number): string {
+    const totalMinutes = Math.floor(ms / 60000);
+    if (totalMinutes < 1) return "<1m";
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours}h ${String(minutes).padStart(2, "0")}m` : `${minutes}m`;
+}
@@ -0,0 +1,204 @@
+import { Card, CardDirection, CardSchedule, Deck, RecordingType, RecordingTypeStats } from "../types";
+import { isScheduleLearned, isValidSchedule, migrateLegacyStatus } from "./scheduler";
+import { profileKey } from "./profileScope";
+
+// Key for localStorage
+export const LOCAL_STORAGE_KEY = "birdFlashcardStatus";
+
+// Type for stored status. `schedule` is absent in data saved before the
+// spaced-repetition scheduler existed; such entries are migrated on load.
+export type StoredCardStatus = {
+    learned: boolean;
+    starred: boolean;
+    schedule?: CardSchedule;
+    directionSchedules?: Partial<Record<CardDirection, CardSchedule>>; // Absent until a reverse direction is studied
+    recordingStats?: Partial<Record<RecordingType, RecordingTypeStats>>;
+    notes?: string; // The learner's own notes, if edited
+};
+export type StoredStatuses = Record<string, StoredCardStatus>;
+
+// The parts of a card that are saved per profile
+export type CardStatus = Pick<Card, "learned" | "starred" | "schedule" | "directionSchedules" | "recordingStats" | "notes">;
+
+/**
+ * Reads saved card statuses from localStorage.
+ * @returns {StoredStatuses} The saved statuses, or an empty object if none/invalid.
+ */
+export const loadStoredStatuses = (): StoredStatuses => {
+    try {
+        const savedData = localStorage.getItem(profileKey(LOCAL_STORAGE_KEY));
+        if (!savedData) return {};
+        const parsed = JSON.parse(savedData);
+        if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+            console.warn("Invalid data found in localStorage, resetting.");
+            return {};
+        }
+        // Drop individual bad entries instead of the whole store
+        const statuses: StoredStatuses = {};
+        Object.entries(parsed).forEach(([id, value]) => {
+            const problem = validateStoredStatus(value);
+            if (problem) {
+                console.warn(`Ignoring stored status for "${id}": ${problem}`);
+            } else {
+                statuses[id] = value as StoredCardStatus;
+            }
+        });
+        console.log(`Loaded statuses for ${Object.keys(statuses).length} cards from localStorage.`);
+        return statuses;
+    } catch (storageError) {
+        console.error("Error reading from localStorage:", storageError);
+        return {};
+    }
+};
+
+/**
+ * Checks a single stored status entry.
+ * @param {unknown} value - The entry read from storage or an import file.
+ * @returns {string | null} A description of the problem, or null if valid.
+ */
+export const validateStoredStatus = (value: unknown): string | null => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) return "entry is not an object";
+    const status = value as Partial<StoredCardStatus>;
+    if (typeof status.learned !== "boolean") return `"learned" must be true or false`;
+    if (typeof status.starred !== "boolean") return `"starred" must be true or false`;
+    if (status.schedule !== undefined && !isValidSchedule(status.schedule)) return `"schedule" is malformed`;
+    if (status.directionSchedules !== undefined && (
+        typeof status.directionSchedules !== "object" ||
+        status.directionSchedules === null ||
+        !Object.values(status.directionSchedules).every(isValidSchedule)
+    )) {
+        return `"directionSchedules" is malformed`;
+    }
+    if (status.recordingStats !== undefined && (typeof status.recordingStats !== "object" || status.recordingStats === null)) {
+        return `"recordingStats" must be an object`;
+    }
+    if (status.notes !== undefined && typeof status.notes !== "string") return `"notes" must be text`;
+    return null;
+};
+
+/**
+ * Converts cards to the stored status map (id -> status).
+ * @param {Card[]} cards - The cards.
+ * @returns {StoredStatuses} The statuses as saved to localStorage and backups.
+ */
+export const toStoredStatuses = (cards: Card[]): StoredStatuses =>
+    cards.reduce<StoredStatuses>((acc, card) => {
+        acc[card.id] = {
+            learned: card.learned,
+            starred: card.starred,
+            schedule: card.schedule,
+            ...(Object.keys(card.directionSchedules).length > 0 ? { directionSchedules: card.directionSchedules } : {}),
+            recordingStats: card.recordingStats,
+            ...(card.notes !== null ? { notes: card.notes } : {}),
+        };
+        return acc;
+    }, {});
+
+/**
+ * Persists the learned/starred/schedule state of every card.
+ * @param {Card[]} cards - The cards to save.
+ * @param {StoredStatuses} retained - Statuses of cards not loaded right now, saved alongside.
+ */
+export const saveStoredStatuses = (cards: Card[], retained: StoredStatuses = {}): void => {
+    try {
+        const statusesToSave = { ...retained, ...toStoredStatuses(cards) };
+        localStorage.setItem(profileKey(LOCAL_STORAGE_KEY), JSON.stringify(statusesToSave));
+        console.log(`Saved statuses for ${Object.keys(statusesToSave).length} cards to localStorage.`);
+    } catch (storageError) {
+        console.error("Error saving to localStorage:", storageError);
+    }
+};
+
+/**
+ * Finds the stored status for a species. Statuses saved before cards were
+ * species-centric are keyed by audio filename, so those keys are tried too.
+ * @param {StoredStatuses} statuses - All stored statuses.
+ * @param {string} speciesId - The species id.
+ * @param {string[]} legacyIds - The species' audio filenames.
+ * @returns {StoredCardStatus | undefined} The stored status, if any.
+ */
+export const findStoredStatus = (
+    statuses: StoredStatuses,
+    speciesId: string,
+    legacyIds: string[]
+): StoredCardStatus | undefined => {
+    if (statuses[speciesId]) return statuses[speciesId];
+    const legacyId = legacyIds.find(id => statuses[id]);
+    return legacyId ? statuses[legacyId] : undefined;
+};
+
+/**
+ * Resolves the schedule for a stored status, migrating legacy
+ * `{ learned, starred }` entries into the schedule model.
+ * @param {StoredCardStatus | undefined} savedStatus - The stored entry, if any.
+ * @param {Date} now - The current time.
+ * @returns {CardStatus} The card status.
+ */
+export const resolveCardStatus = (
+    savedStatus: StoredCardStatus | undefined,
+    now: Date = new Date()
+): CardStatus => {
+    const savedSchedule = savedStatus?.schedule;
+    const schedule = isValidSchedule(savedSchedule)
+        ? savedSchedule
+        : migrateLegacyStatus(savedStatus?.learned === true, now);
+    return {
+        learned: isScheduleLearned(schedule),
+        starred: savedStatus?.starred === true,
+        schedule,
+        directionSchedules: typeof savedStatus?.directionSchedules === "object" && savedStatus.directionSchedules !== null
+            ? savedStatus.directionSchedules
+            : {},
+        recordingStats: typeof savedStatus?.recordingStats === "object" && savedStatus.recordingStats !== null
+            ? savedStatus.recordingStats
+            : {},
+        notes: typeof savedStatus?.notes === "string" ? savedStatus.notes : null,
+    };
+};
+
+// Key for user-created decks
+export const DECKS_STORAGE_KEY = "birdFlashcardDecks";
+
+export type StoredDecks = { decks: Deck[]; activeDeckId: string | null };
+
+export const isValidDeck = (value: unknown): value is Deck => {
+    if (typeof value !== "object" || value === null) return false;
+    const deck = value as Partial<Deck>;
+    return (
+        typeof deck.id === "string" &&
+        typeof deck.name === "string" &&
+        Array.isArray(deck.cardIds) &&
+        deck.cardIds.every(id => typeof id === "string")
+    );
+};
+
+/**
+ * Reads decks and the active deck from localStorage.
+ * @returns {StoredDecks} The saved decks (invalid entries dropped).
+ */
+export const loadStoredDecks = (): StoredDecks => {
+    try {
+        const savedData = localStorage.getItem(profileKey(DECKS_STORAGE_KEY));
+        if (!savedData) return { decks: [], activeDeckId: null };
+        const parsed = JSON.parse(savedData);
+        const decks: Deck[] = Array.isArray(parsed?.decks) ? parsed.decks.filter(isValidDeck) : [];
+        const activeDeckId = decks.some(deck => deck.id === parsed?.activeDeckId) ? parsed.activeDeckId : null;
+        console.log(`Loaded ${decks.length} decks from localStorage.`);
+        return { decks, activeDeckId };
+    } catch (storageError) {
+        console.error("Error reading decks from localStorage:", storageError);
+        return { decks: [], activeDeckId: null };
+    }
+};
+
+/**
+ * Persists decks and the active deck.
+ * @param {StoredDecks} storedDecks - The decks to save.
+ */
+export const saveStoredDecks = (storedDecks: StoredDecks): void => {
+    try {
+        localStorage.setItem(profileKey(DECKS_STORAGE_KEY), JSON.stringify(storedDecks));
+    } catch (storageError) {
+        console.error("Error saving decks to localStorage:", storageError);
+    }
+};
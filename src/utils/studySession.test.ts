@@ -0,0 +1,46 @@
+import { createStudySession, isValidStudySession, orderSessionCards, recordSessionResult, summarizeSession, updateSessionPosition } from './studySession';
+import { makeCard } from './testCards';
+
+test('the session order depends on the seed, not on the order cards were loaded in', () => {
+  const cards = ['veery', 'killdeer', 'blue-jay', 'wood-thrush', 'american-robin'].map(id => makeCard(id));
+  const order = orderSessionCards(cards, 1).map(c => c.id);
+  expect(order).toEqual(['wood-thrush', 'killdeer', 'blue-jay', 'american-robin', 'veery']);
+  expect(orderSessionCards([...cards].reverse(), 1).map(c => c.id)).toEqual(order);
+  expect(orderSessionCards(cards, 2).map(c => c.id)).not.toEqual(order);
+});
+
+test('position, seen cards and results add up to a summary', () => {
+  const start = new Date('2026-05-01T08:00:00Z');
+  let session = createStudySession('all', null, 7, start);
+  session = updateSessionPosition(session, 'all', null, 'veery');
+  expect(updateSessionPosition(session, 'all', null, 'veery')).toBe(session);
+  session = recordSessionResult(session, 'veery', 'again', new Date('2026-05-01T08:02:00Z'));
+  session = updateSessionPosition(session, 'starred', 'deck-1', 'killdeer');
+  session = recordSessionResult(session, 'killdeer', 'good', new Date('2026-05-01T08:05:00Z'));
+  session = updateSessionPosition(session, 'starred', 'deck-1', 'veery');
+  session = recordSessionResult(session, 'veery', 'hard', new Date('2026-05-01T08:10:00Z'));
+
+  expect(session).toMatchObject({ filter: 'starred', deckId: 'deck-1', currentCardId: 'veery', seenCardIds: ['veery', 'killdeer'] });
+  expect(isValidStudySession(JSON.parse(JSON.stringify(session)))).toBe(true);
+  expect(isValidStudySession({ ...session, seed: -1 })).toBe(false);
+  expect(summarizeSession(session)).toEqual({
+    cardsSeen: 2,
+    reviews: 3,
+    remembered: 2,
+    accuracy: 2 / 3,
+    gradeCounts: { again: 1, hard: 1, good: 1, easy: 0 },
+    missedCardIds: ['veery'],
+    minutes: 10,
+  });
+});
+
+test('a long session saves tallies, not every review', () => {
+  let session = createStudySession('all', null, 7, new Date('2026-05-01T08:00:00Z'));
+  const reviewAt = new Date('2026-05-01T08:30:00Z');
+  for (let i = 0; i < 101; i++) session = recordSessionResult(session, 'veery', 'good', reviewAt);
+  const savedSize = JSON.stringify(session).length;
+  for (let i = 0; i < 400; i++) session = recordSessionResult(session, 'veery', 'good', reviewAt);
+  expect(JSON.stringify(session).length).toBe(savedSize);
+  expect(summarizeSession(session).reviews).toBe(501);
+  expect(isValidStudySession({ ...session, gradeCounts: { again: 1 } })).toBe(false);
+});
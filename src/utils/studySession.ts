@@ -0,0 +1,169 @@
+import { Card, FilterMode, ReviewGrade, StudySession } from "../types";
+import { seededShuffle } from "./arrayUtils";
+import { profileKey } from "./profileScope";
+import { createSeed } from "./random";
+import { REVIEW_GRADES } from "./scheduler";
+import { FILTER_MODES } from "./routing";
+
+// The study session lives in localStorage, so a reload continues with the
+// same card order (from the seed), position, filter and tallies.
+
+export const STUDY_SESSION_STORAGE_KEY = "birdFlashcardStudySession";
+
+export interface SessionSummary {
+    cardsSeen: number;
+    reviews: number;
+    remembered: number; // Reviews graded hard or better
+    accuracy: number | null; // remembered / reviews, or null before the first review
+    gradeCounts: Record<ReviewGrade, number>;
+    missedCardIds: string[]; // Cards graded "again" at least once, most misses first
+    minutes: number; // From the start to the last review
+}
+
+/**
+ * Starts a session.
+ * @param {FilterMode} filter - The study filter.
+ * @param {string | null} deckId - The active deck.
+ * @param {number} seed - Seed for the card order.
+ * @param {Date} now - The start time.
+ * @returns {StudySession} The new session.
+ */
+export function createStudySession(filter: FilterMode, deckId: string | null, seed: number = createSeed(), now: Date = new Date()): StudySession {
+    return {
+        id: `session-${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+        seed,
+        startedAt: now.toISOString(),
+        filter,
+        deckId,
+        currentCardId: null,
+        seenCardIds: [],
+        gradeCounts: { again: 0, hard: 0, good: 0, easy: 0 },
+        missCounts: {},
+        lastReviewAt: null,
+    };
+}
+
+/**
+ * The session's card order: a seeded shuffle of the cards sorted by id, so it
+ * doesn't depend on the order the card sources finished loading in.
+ * @param {Card[]} cards - The cards.
+ * @param {number} seed - The session seed.
+ * @returns {Card[]} The cards in study order.
+ */
+export function orderSessionCards(cards: Card[], seed: number): Card[] {
+    const byId = [...cards].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    return seededShuffle(byId, seed);
+}
+
+/**
+ * Records where the learner is. The card counts as seen.
+ * @param {StudySession} session - The session.
+ * @param {FilterMode} filter - The study filter.
+ * @param {string | null} deckId - The active deck.
+ * @param {string | null} currentCardId - The card being shown, if any.
+ * @returns {StudySession} The updated session, or the same one if nothing changed.
+ */
+export function updateSessionPosition(session: StudySession, filter: FilterMode, deckId: string | null, currentCardId: string | null): StudySession {
+    const isNewCard = currentCardId !== null && !session.seenCardIds.includes(currentCardId);
+    if (session.filter === filter && session.deckId === deckId && session.currentCardId === currentCardId && !isNewCard) {
+        return session;
+    }
+    return {
+        ...session,
+        filter,
+        deckId,
+        currentCardId,
+        seenCardIds: isNewCard ? [...session.seenCardIds, currentCardId] : session.seenCardIds,
+    };
+}
+
+/**
+ * Records a graded review.
+ * @param {StudySession} session - The session.
+ * @param {string} cardId - The card.
+ * @param {ReviewGrade} grade - The grade.
+ * @param {Date} now - The time of the review.
+ * @returns {StudySession} The updated session.
+ */
+export function recordSessionResult(session: StudySession, cardId: string, grade: ReviewGrade, now: Date = new Date()): StudySession {
+    return {
+        ...session,
+        gradeCounts: { ...session.gradeCounts, [grade]: session.gradeCounts[grade] + 1 },
+        missCounts: grade === "again" ? { ...session.missCounts, [cardId]: (session.missCounts[cardId] ?? 0) + 1 } : session.missCounts,
+        lastReviewAt: now.toISOString(),
+    };
+}
+
+/**
+ * Tallies a session, e.g. for the summary shown when it ends.
+ * @param {StudySession} session - The session.
+ * @returns {SessionSummary} The summary.
+ */
+export function summarizeSession(session: StudySession): SessionSummary {
+    const { gradeCounts, missCounts, lastReviewAt } = session;
+    const reviews = REVIEW_GRADES.reduce((sum, grade) => sum + gradeCounts[grade], 0);
+    const remembered = reviews - gradeCounts.again;
+    const minutes = lastReviewAt ? Math.max(0, Math.round((Date.parse(lastReviewAt) - Date.parse(session.startedAt)) / 60000)) : 0;
+    return {
+        cardsSeen: session.seenCardIds.length,
+        reviews,
+        remembered,
+        accuracy: reviews > 0 ? remembered / reviews : null,
+        gradeCounts: { ...gradeCounts },
+        missedCardIds: Object.keys(missCounts).sort((a, b) => missCounts[b] - missCounts[a]),
+        minutes,
+    };
+}
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+/**
+ * Checks a stored session.
+ * @param {unknown} value - Parsed JSON.
+ * @returns {boolean} Whether it is a usable session.
+ */
+export const isValidStudySession = (value: unknown): value is StudySession => {
+    if (typeof value !== "object" || value === null) return false;
+    const session = value as Partial<StudySession>;
+    return typeof session.id === "string"
+        && Number.isInteger(session.seed) && (session.seed as number) >= 0 && (session.seed as number) <= 4294967295
+        && typeof session.startedAt === "string" && !Number.isNaN(Date.parse(session.startedAt))
+        && FILTER_MODES.some(mode => mode === session.filter)
+        && (session.deckId === null || typeof session.deckId === "string")
+        && (session.currentCardId === null || typeof session.currentCardId === "string")
+        && Array.isArray(session.seenCardIds) && session.seenCardIds.every(id => typeof id === "string")
+        && typeof session.gradeCounts === "object" && session.gradeCounts !== null
+        && REVIEW_GRADES.every(grade => isCount(session.gradeCounts?.[grade]))
+        && typeof session.missCounts === "object" && session.missCounts !== null && Object.values(session.missCounts).every(isCount)
+        && (session.lastReviewAt === null || (typeof session.lastReviewAt === "string" && !Number.isNaN(Date.parse(session.lastReviewAt))));
+};
+
+/**
+ * Loads the saved study session.
+ * @returns {StudySession | null} The session, or null if there is none (or it is unreadable).
+ */
+export const loadStudySession = (): StudySession | null => {
+    try {
+        const savedData = localStorage.getItem(profileKey(STUDY_SESSION_STORAGE_KEY));
+        if (!savedData) return null;
+        const parsed: unknown = JSON.parse(savedData);
+        if (isValidStudySession(parsed)) return parsed;
+        console.warn("Ignoring an invalid study session in localStorage.");
+        return null;
+    } catch (storageError) {
+        console.error("Error reading the study session from localStorage:", storageError);
+        return null;
+    }
+};
+
+/**
+ * Saves the study session.
+ * @param {StudySession} session - The session.
+ */
+export const saveStudySession = (session: StudySession): void => {
+    try {
+        localStorage.setItem(profileKey(STUDY_SESSION_STORAGE_KEY), JSON.stringify(session));
+    } catch (storageError) {
+        console.error("Error saving the study session to localStorage:", storageError);
+    }
+};
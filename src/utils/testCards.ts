@@ -0,0 +1,45 @@
+import { Card, Recording } from "../types";
+import { resolveCardStatus } from "./storageUtils";
+
+// Card fixtures shared by the unit tests, so a new Card field only needs a
+// default here rather than in every test file.
+
+export const TEST_NOW = new Date("2024-01-01T00:00:00Z");
+
+/**
+ * A song recording for a test card.
+ * @param {string} id - Recording id, also used for the file name.
+ * @returns {Recording} The recording.
+ */
+export const makeRecording = (id: string): Recording => ({
+    id,
+    audioFilename: id,
+    src: `/audio/${id}`,
+    type: "song",
+    clips: [],
+});
+
+/**
+ * A complete card with neutral defaults: no metadata, one song recording and
+ * a fresh (unstudied) status as of TEST_NOW.
+ * @param {string} id - Card id, also used as the display name.
+ * @param {Partial<Card>} overrides - Fields to set.
+ * @returns {Card} The card.
+ */
+export const makeCard = (id: string, overrides: Partial<Card> = {}): Card => ({
+    id,
+    displayName: id,
+    imgSrc: null,
+    scientificName: null,
+    family: null,
+    familyCommonName: null,
+    order: null,
+    habitats: [],
+    regions: [],
+    season: null,
+    presence: {},
+    defaultNotes: null,
+    recordings: [makeRecording(`${id}.mp3`)],
+    ...resolveCardStatus(undefined, TEST_NOW),
+    ...overrides,
+});
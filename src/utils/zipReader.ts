@@ -0,0 +1,85 @@
+// Minimal reader for .zip files (stored and deflated entries), using the
+// browser's DecompressionStream so no zip library has to be bundled.
+
+export interface ZipEntry {
+    name: string; // Path inside the archive, e.g. "audio/Veery.mp3"
+    data: Uint8Array;
+}
+
+// DecompressionStream is missing from this TypeScript version's DOM types
+type DecompressionStreamConstructor = new (format: "deflate-raw") => TransformStream<Uint8Array, Uint8Array>;
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * Whether zip bundles can be read in this browser.
+ */
+export const isZipSupported = (): boolean => typeof window !== "undefined" && "DecompressionStream" in window;
+
+/**
+ * Inflates raw deflate data.
+ */
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+    const Decompression = (window as unknown as { DecompressionStream: DecompressionStreamConstructor }).DecompressionStream;
+    const stream = new Blob([data]).stream().pipeThrough(new Decompression("deflate-raw"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Finds the end-of-central-directory record (it may be followed by a comment).
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+    for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 22 - 0xffff); offset--) {
+        if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+    }
+    throw new Error("Not a zip file (no central directory found).");
+}
+
+/**
+ * Reads every file in a zip archive. Directories are skipped; zip64 and
+ * encrypted archives aren't supported.
+ * @param {ArrayBuffer} buffer - The archive.
+ * @returns {Promise<ZipEntry[]>} The files, in archive order.
+ */
+export async function readZip(buffer: ArrayBuffer): Promise<ZipEntry[]> {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    const decoder = new TextDecoder();
+    const end = findEndOfCentralDirectory(view);
+    const entryCount = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) throw new Error("Corrupt zip file (bad central directory).");
+        const flags = view.getUint16(offset + 8, true);
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localHeaderOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith("/")) continue;
+        if (flags & 0x1) throw new Error(`Encrypted zip entries are not supported (${name}).`);
+        if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) throw new Error(`Corrupt zip file (bad header for ${name}).`);
+        // The local header has its own name/extra lengths
+        const dataStart = localHeaderOffset + 30 + view.getUint16(localHeaderOffset + 26, true) + view.getUint16(localHeaderOffset + 28, true);
+        const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === METHOD_STORED) {
+            entries.push({ name, data: raw.slice() });
+        } else if (method === METHOD_DEFLATE) {
+            entries.push({ name, data: await inflateRaw(raw) });
+        } else {
+            throw new Error(`Unsupported compression method ${method} for ${name}.`);
+        }
+    }
+    return entries;
+}